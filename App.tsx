@@ -1,33 +1,333 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import { Dropzone } from './components/Dropzone';
 import { ResultsTable } from './components/ResultsTable';
 import { MapView } from './components/MapView';
-import { ProcessedImage, ProcessingStatus } from './types';
-import { processImageBatch } from './services/geminiService';
-import { Loader2, Trash2, Zap, Play, X, Image as ImageIcon } from 'lucide-react';
+import { SessionBar } from './components/SessionBar';
+import { RejectedFiles } from './components/RejectedFiles';
+import { FolderFilter } from './components/FolderFilter';
+import { TemplateSelector } from './components/TemplateSelector';
+import { ExtractionTemplate, GeminiResponseItem, LocationEdit, PhotoEvidence, ProcessedImage, ProcessingStatus, ReferenceLayer, ReferenceTolerance, ResultStatus, TimelineSettings } from './types';
+import { getExtractionProvider } from './services/providerRegistry';
+import { describeError } from './services/retry';
+import { ExtractionOutcome, extractValidatedBatch } from './services/batchExtractor';
+import { BatchScheduler, SchedulerOptions, DEFAULT_SCHEDULER_OPTIONS, SchedulerCancelledError, createBatchScheduler, rateLimitProvider } from './services/batchScheduler';
+import { isLowConfidence } from './services/validation';
+import { applyManualEdit } from './services/corrections';
+import { getReverseGeocoder } from './services/geocoderRegistry';
+import { detectAddressMismatch } from './services/reverseGeocoder';
+import {
+  Session,
+  SessionSummary,
+  listSessions,
+  createSession,
+  renameSession,
+  setSessionTemplate,
+  deleteSession,
+  clearSession,
+  deleteResults,
+  saveResults,
+  loadSession,
+  getLastSessionId,
+  setLastSessionId
+} from './services/storageService';
+import { readEmbeddedMetadata, hasUsableCoordinates, EmbeddedMetadata } from './services/metadataService';
+import { isLocalOcrEnabled, readStamp } from './services/stampOcr';
+import { DEFAULT_PREPROCESS_OPTIONS, PreprocessOptions, getUploadBytes, groupByByteBudget, prepareImage } from './services/imagePreprocessor';
+import { ExtractionImage } from './services/extractionProvider';
+import { RejectedFile, ingestFiles } from './services/inputConversion';
+import { SourceFile, claimUniquePath, getRelativePath, isInFolder } from './services/sourceFiles';
+import { DEFAULT_NEAR_DUPLICATE_DISTANCE, DuplicateGroup, ImageHashes, findDuplicateGroups, hashImage } from './services/imageHash';
+import { DuplicateGroups } from './components/DuplicateGroups';
+import { CacheStats, getCachedResults, putCachedResults, resultCacheKey } from './services/resultCache';
+import { findTemplate, getLastTemplateId, loadTemplates, saveTemplates, setLastTemplateId } from './services/extractionTemplates';
+import { AppSettings, getSettings, readNumberEnv, saveSettings } from './services/settingsService';
+import { SettingsPanel } from './components/SettingsPanel';
+import { ReferencePanel } from './components/ReferencePanel';
+import { Timeline } from './components/Timeline';
+import { deleteReferenceLayer, loadReferenceLayers, loadReferenceTolerance, saveReferenceLayer, saveReferenceTolerance } from './services/referenceLayers';
+import { applyReferenceChecks, prepareReference, summarizeVisits } from './services/referenceCheck';
+import { buildTimeline, loadTimelineSettings, saveTimelineSettings } from './services/timeline';
+import { applyAuthenticityChecks, collectEvidence } from './services/authenticity';
+import { Loader2, Trash2, Zap, Play, Pause, Square, X, Settings, AlertCircle, Image as ImageIcon } from 'lucide-react';
 
-const BATCH_SIZE = 10;
+const extractionProvider = getExtractionProvider();
+const reverseGeocoder = getReverseGeocoder();
 
 interface QueueItem {
   file: File;
   id: string;
+  path: string;
   preview: string;
+  hashes: ImageHashes | null; // null when hashing failed; the item is then never matched
+  evidence?: PhotoEvidence; // Noted when extraction starts
 }
 
+interface ProgressState {
+  processed: number;
+  total: number;
+  etaMs: number | null;
+}
+
+// Concurrency and the per-batch image cap come from Settings
+const SCHEDULER_OPTIONS: SchedulerOptions = {
+  ...DEFAULT_SCHEDULER_OPTIONS,
+  requestsPerMinute: readNumberEnv(process.env.REQUESTS_PER_MINUTE, DEFAULT_SCHEDULER_OPTIONS.requestsPerMinute),
+  tokensPerMinute: readNumberEnv(process.env.TOKENS_PER_MINUTE, DEFAULT_SCHEDULER_OPTIONS.tokensPerMinute)
+};
+
+const PREPROCESS_OPTIONS: PreprocessOptions = {
+  ...DEFAULT_PREPROCESS_OPTIONS,
+  maxEdge: readNumberEnv(process.env.MAX_IMAGE_EDGE, DEFAULT_PREPROCESS_OPTIONS.maxEdge),
+  format: process.env.IMAGE_FORMAT === 'webp' ? 'image/webp' : 'image/jpeg',
+  quality: readNumberEnv(process.env.IMAGE_QUALITY, DEFAULT_PREPROCESS_OPTIONS.quality),
+  stampCrop: process.env.STAMP_CROP !== 'off'
+};
+
+// Batches are filled by upload size; the count cap keeps per-image answers reliable
+const BATCH_BYTE_BUDGET = readNumberEnv(process.env.BATCH_BYTE_BUDGET_MB, 8) * 1024 * 1024;
+
+// "off" limits duplicate detection to byte-identical files
+const NEAR_DUPLICATE_DISTANCE = process.env.NEAR_DUPLICATE_DISTANCE === 'off'
+  ? -1
+  : readNumberEnv(process.env.NEAR_DUPLICATE_DISTANCE, DEFAULT_NEAR_DUPLICATE_DISTANCE);
+
+// EXIF results are shown in groups of this size while the rest are still being read
+const METADATA_FLUSH_SIZE = 20;
+
+// Rows go back through runExtraction as queue items (retry, re-analyze)
+const toQueueItem = (row: ProcessedImage): QueueItem => ({
+  id: row.id,
+  file: row.originalFile,
+  path: getRelativePath(row),
+  preview: row.previewUrl,
+  hashes: row.contentHash ? { sha256: row.contentHash, perceptual: row.perceptualHash ?? null } : null
+});
+
+// Results that can stand in for a new photo with the same content
+const isReusable = (row: ProcessedImage) => row.status === ResultStatus.OK || row.status === ResultStatus.LOW_CONFIDENCE;
+
+const formatEta = (ms: number | null): string => {
+  if (ms === null) return 'Estimating time remaining...';
+  const seconds = Math.ceil(ms / 1000);
+  if (seconds < 60) return `About ${seconds}s remaining`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `About ${minutes}m ${seconds % 60}s remaining`;
+  return `About ${Math.floor(minutes / 60)}h ${minutes % 60}m remaining`;
+};
+
 const App: React.FC = () => {
   const [results, setResults] = useState<ProcessedImage[]>([]);
   const [queue, setQueue] = useState<QueueItem[]>([]);
   const [status, setStatus] = useState<ProcessingStatus>(ProcessingStatus.IDLE);
-  const [progress, setProgress] = useState<{ processed: number; total: number }>({ processed: 0, total: 0 });
-
-  const handleFilesSelected = useCallback((files: File[]) => {
-    const newItems = files.map(file => ({
-      file,
-      id: Math.random().toString(36).substring(2) + Date.now().toString(36),
-      preview: URL.createObjectURL(file)
-    }));
-    
-    setQueue(prev => [...prev, ...newItems]);
+  const [progress, setProgress] = useState<ProgressState>({ processed: 0, total: 0, etaMs: null });
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [isConverting, setIsConverting] = useState(false);
+  const [rejectedFiles, setRejectedFiles] = useState<RejectedFile[]>([]);
+  const [folderFilter, setFolderFilter] = useState('');
+  const [cacheStats, setCacheStats] = useState<CacheStats>({ hits: 0, misses: 0 });
+  const [templates, setTemplates] = useState<ExtractionTemplate[]>(loadTemplates);
+  const [templateId, setTemplateId] = useState(getLastTemplateId);
+  const [settings, setSettings] = useState<AppSettings>(getSettings);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set());
+  const [areaIds, setAreaIds] = useState<Set<string> | null>(null); // Drawn on the map; narrows the table
+  const [referenceLayers, setReferenceLayers] = useState<ReferenceLayer[]>([]);
+  const [referenceTolerance, setReferenceTolerance] = useState<ReferenceTolerance>(loadReferenceTolerance);
+  const [timelineSettings, setTimelineSettings] = useState<TimelineSettings>(loadTimelineSettings);
+  const [mapFocus, setMapFocus] = useState<{ id: string } | null>(null);
+  const schedulerRef = useRef<BatchScheduler | null>(null);
+  // Latest results for callbacks that outlive a render (file conversion can take a while)
+  const resultsRef = useRef(results);
+  resultsRef.current = results;
+
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [currentSession, setCurrentSession] = useState<Session | null>(null);
+  // Rows are replaced rather than mutated, so identity tells us what is already stored
+  const savedRowsRef = useRef(new WeakSet<ProcessedImage>());
+  // Lookups already started, keyed by id and position; one at a time so a
+  // self-hosted Nominatim is not flooded
+  const geocodeAttemptsRef = useRef(new Set<string>());
+  const geocodeChainRef = useRef<Promise<void>>(Promise.resolve());
+
+  const isRunning = status === ProcessingStatus.PROCESSING || status === ProcessingStatus.PAUSED;
+  const activeTemplate = findTemplate(templates, templateId);
+
+  const duplicateGroups = useMemo(() => findDuplicateGroups(queue, NEAR_DUPLICATE_DISTANCE), [queue]);
+  const processedHashes = useMemo(
+    () => new Set(results.filter(row => row.contentHash && isReusable(row)).map(row => row.contentHash!)),
+    [results]
+  );
+
+  // The same picture under several rows, for the authenticity checks. Keyed on the
+  // hashes so editing a row does not compare every pair again.
+  const hashKey = results.map(row => `${row.id}:${row.contentHash ?? ''}:${row.perceptualHash ?? ''}`).join('|');
+  const contentGroups = useMemo(
+    () => findDuplicateGroups(
+      results.map(row => ({ id: row.id, hashes: row.contentHash ? { sha256: row.contentHash, perceptual: row.perceptualHash ?? null } : null })),
+      NEAR_DUPLICATE_DISTANCE
+    ),
+    [hashKey]
+  );
+
+  // Distance to the planned points, boundary and authenticity checks, recomputed on every change
+  const preparedReference = useMemo(() => prepareReference(referenceLayers), [referenceLayers]);
+  const checkedResults = useMemo(
+    () => applyAuthenticityChecks(applyReferenceChecks(results, preparedReference, referenceTolerance), contentGroups),
+    [results, preparedReference, referenceTolerance, contentGroups]
+  );
+
+  // Rows in the folder selected in the results header (and its subfolders)
+  const visibleResults = useMemo(
+    () => (folderFilter ? checkedResults.filter(row => isInFolder(getRelativePath(row), folderFilter)) : checkedResults),
+    [checkedResults, folderFilter]
+  );
+
+  // Planned points are visited by any photo in the session, whatever folder is shown
+  const pointVisits = useMemo(
+    () => summarizeVisits(results, referenceLayers, referenceTolerance),
+    [results, referenceLayers, referenceTolerance]
+  );
+
+  // Real instants and the date/time checks for the rows shown
+  const timeline = useMemo(() => buildTimeline(visibleResults, timelineSettings), [visibleResults, timelineSettings]);
+
+  // Back to all folders once nothing is left in the selected one (cleared, other session)
+  useEffect(() => {
+    if (folderFilter && visibleResults.length === 0) setFolderFilter('');
+  }, [folderFilter, visibleResults]);
+
+  // Forget selected rows once they are gone (deleted, cleared, other session)
+  useEffect(() => {
+    const ids = new Set(results.map(row => row.id));
+    setSelectedIds(prev => ([...prev].every(id => ids.has(id)) ? prev : new Set([...prev].filter(id => ids.has(id)))));
+    setAreaIds(prev => (prev && ![...prev].every(id => ids.has(id)) ? new Set([...prev].filter(id => ids.has(id))) : prev));
+  }, [results]);
+
+  const refreshSessions = useCallback(async () => {
+    try {
+      setSessions(await listSessions());
+    } catch (error) {
+      console.error("Session list failed:", error);
+    }
+  }, []);
+
+  const openSession = useCallback(async (session: Session) => {
+    const rows = await loadSession(session.id);
+    rows.forEach(row => savedRowsRef.current.add(row));
+    setResults(prev => {
+      prev.forEach(r => URL.revokeObjectURL(r.previewUrl));
+      return rows;
+    });
+    setCurrentSession(session);
+    setLastSessionId(session.id);
+    if (session.templateId) setTemplateId(session.templateId);
+    setStatus(ProcessingStatus.IDLE);
+    setProgress({ processed: 0, total: 0, etaMs: null });
+  }, []);
+
+  // Reopen the last session on load so work survives a refresh
+  useEffect(() => {
+    const restore = async () => {
+      try {
+        const summaries = await listSessions();
+        setSessions(summaries);
+        const last = summaries.find(session => session.id === getLastSessionId());
+        if (last) await openSession(last);
+      } catch (error) {
+        console.error("Session restore failed:", error);
+      }
+    };
+    restore();
+  }, [openSession]);
+
+  // Persist every row that changed since it was last saved
+  useEffect(() => {
+    if (!currentSession) return;
+    const changed = results.filter(row => !savedRowsRef.current.has(row));
+    if (changed.length === 0) return;
+
+    changed.forEach(row => savedRowsRef.current.add(row));
+    saveResults(currentSession.id, changed)
+      .then(refreshSessions)
+      .catch(error => console.error("Session save failed:", error));
+  }, [results, currentSession, refreshSessions]);
+
+  // Reverse-geocode every located row that has not been looked up yet. Manual
+  // edits clear `geocoded` when they move a row, which brings it back here.
+  useEffect(() => {
+    if (!reverseGeocoder) return;
+    const pending = results.filter(row =>
+      row.latitude !== null && row.longitude !== null && row.geocoded === undefined &&
+      !geocodeAttemptsRef.current.has(`${row.id}@${row.latitude},${row.longitude}`)
+    );
+
+    pending.forEach(row => {
+      const { id, latitude, longitude } = row;
+      geocodeAttemptsRef.current.add(`${id}@${latitude},${longitude}`);
+      geocodeChainRef.current = geocodeChainRef.current
+        .then(() => reverseGeocoder.reverse(latitude!, longitude!))
+        .then(geocoded => {
+          setResults(prev => prev.map(current =>
+            // Skip rows that were moved or removed while the lookup ran
+            current.id === id && current.latitude === latitude && current.longitude === longitude
+              ? { ...current, geocoded, addressMismatch: detectAddressMismatch(current.address, geocoded) }
+              : current
+          ));
+        })
+        .catch(error => console.error("Reverse geocoding failed:", describeError(error)));
+    });
+  }, [results]);
+
+  useEffect(() => {
+    loadReferenceLayers()
+      .then(setReferenceLayers)
+      .catch(error => console.error("Reference layers failed to load:", error));
+  }, []);
+
+  const startNewSession = async (): Promise<Session> => {
+    const session = await createSession(`Session ${new Date().toLocaleString()}`, activeTemplate.id);
+    setCurrentSession(session);
+    setLastSessionId(session.id);
+    await refreshSessions();
+    return session;
+  };
+
+  const handleFilesSelected = useCallback(async (selected: SourceFile[]) => {
+    // Detect formats and convert HEIC/TIFF/RAW/PDF before anything is queued
+    setIsConverting(true);
+    const newItems: QueueItem[] = [];
+    let rejected: RejectedFile[];
+    try {
+      const ingested = await ingestFiles(selected);
+      rejected = ingested.rejected;
+
+      for (const { file, path } of ingested.accepted) {
+        let hashes: ImageHashes | null = null;
+        try {
+          hashes = await hashImage(file);
+        } catch (error) {
+          console.warn(`Hashing failed for ${path}:`, error);
+        }
+        newItems.push({
+          file,
+          id: Math.random().toString(36).substring(2) + Date.now().toString(36),
+          path,
+          preview: URL.createObjectURL(file),
+          hashes
+        });
+      }
+    } finally {
+      // The drop zone is usable again even if conversion failed outright
+      setIsConverting(false);
+    }
+    setRejectedFiles(rejected);
+
+    setQueue(prev => {
+      // Paths identify rows within a session, so a second "IMG_0001.jpg" becomes "IMG_0001 (2).jpg"
+      const taken = new Set([...resultsRef.current.map(getRelativePath), ...prev.map(item => item.path)]);
+      return [...prev, ...newItems.map(item => ({ ...item, path: claimUniquePath(item.path, taken) }))];
+    });
   }, []);
 
   const handleRemoveFromQueue = (id: string) => {
@@ -38,81 +338,508 @@ const App: React.FC = () => {
     });
   };
 
+  // Removes every member of a duplicate group except the one to keep
+  const handleKeepOne = (group: DuplicateGroup, keepId: string) => {
+    const removed = new Set(group.ids.filter(id => id !== keepId));
+    setQueue(prev => {
+      prev.filter(item => removed.has(item.id)).forEach(item => URL.revokeObjectURL(item.preview));
+      return prev.filter(item => !removed.has(item.id));
+    });
+  };
+
   const handleClearQueue = () => {
     queue.forEach(item => URL.revokeObjectURL(item.preview));
     setQueue([]);
   };
 
-  const handleProcessQueue = async () => {
-    if (queue.length === 0) return;
+  // Replace rows in results by id, leaving every other row untouched
+  const updateResults = (updates: ProcessedImage[]) => {
+    const byId = new Map(updates.map(update => [update.id, update]));
+    setResults(prev => prev.map(row => byId.get(row.id) ?? row));
+  };
 
-    setStatus(ProcessingStatus.PROCESSING);
-    // Snapshot the queue to process
-    const itemsToProcess = [...queue];
-    
-    // Initialize progress
-    setProgress({ processed: 0, total: itemsToProcess.length });
-    
-    // Clear previous results for a fresh batch run
-    setResults([]); 
-    
-    // Clear queue UI immediately (optional, but prevents double submission)
-    setQueue([]);
+  const toPendingResult = (item: QueueItem): ProcessedImage => ({
+    id: item.id,
+    status: ResultStatus.PENDING,
+    originalFile: item.file,
+    fileName: item.file.name,
+    relativePath: item.path,
+    contentHash: item.hashes?.sha256,
+    perceptualHash: item.hashes?.perceptual ?? undefined,
+    evidence: item.evidence,
+    previewUrl: item.preview, // Reuse the preview from queue
+    address: "",
+    latitude: null,
+    longitude: null,
+    source: null,
+    confidence: null
+  });
 
-    const chunks = [];
-    for (let i = 0; i < itemsToProcess.length; i += BATCH_SIZE) {
-      chunks.push(itemsToProcess.slice(i, i + BATCH_SIZE));
-    }
+  const toModelResult = (item: QueueItem, metadata: EmbeddedMetadata | null, geminiData: GeminiResponseItem): ProcessedImage => {
+    const source = geminiData.foundCoordinates
+      ? (geminiData.coordinateSource === 'estimated' ? 'estimated' : 'watermark')
+      : null;
+    const confidence = geminiData.confidence ?? null;
+
+    return {
+      ...toPendingResult(item),
+      status: isLowConfidence(source, confidence) ? ResultStatus.LOW_CONFIDENCE : ResultStatus.OK,
+      address: geminiData.address,
+      latitude: geminiData.latitude,
+      longitude: geminiData.longitude,
+      // Prefer the stamped date/time, fall back to the camera's own timestamp
+      date: geminiData.date || metadata?.date || "",
+      time: geminiData.time || metadata?.time || "",
+      cameraDate: metadata?.date || undefined,
+      cameraTime: metadata?.time || undefined,
+      source,
+      confidence,
+      foundCoordinates: geminiData.foundCoordinates,
+      extra: geminiData.extra
+    };
+  };
+
+  // Extracts locations for items whose rows are already in results (as pending).
+  // `force` skips earlier results and the result cache and asks the model again.
+  const runExtraction = async (itemsToProcess: QueueItem[], force = false) => {
+    const { fields } = activeTemplate;
+    setStatus(ProcessingStatus.PROCESSING);
+    setProgress({ processed: 0, total: itemsToProcess.length, etaMs: null });
+    setCacheStats({ hits: 0, misses: 0 });
 
     let processedCount = 0;
-    const allResults: ProcessedImage[] = [];
+    // Pause and Cancel act from here on, through the preparation below as well
+    const scheduler = createBatchScheduler({ ...SCHEDULER_OPTIONS, concurrency: settings.concurrency });
+    schedulerRef.current = scheduler;
+    // Items whose rows have their outcome; a cancel sends the rest back to the queue
+    const settledIds = new Set<string>();
+    const settle = (rows: ProcessedImage[]) => {
+      rows.forEach(row => settledIds.add(row.id));
+      updateResults(rows);
+    };
 
     try {
-      for (let i = 0; i < chunks.length; i++) {
-        const chunkItems = chunks[i];
-        const chunkFiles = chunkItems.map(item => item.file);
-        
-        // Call Gemini Service
-        const batchResults = await processImageBatch(chunkFiles);
-
-        // Map results back to the original files in this chunk
-        const mappedResults: ProcessedImage[] = chunkItems.map((item, index) => {
-          const geminiData = batchResults[index];
-          
-          return {
-            originalFile: item.file,
-            fileName: item.file.name,
-            previewUrl: item.preview, // Reuse the preview from queue
-            address: geminiData?.address || "Processing Error",
-            latitude: geminiData?.latitude || 0,
-            longitude: geminiData?.longitude || 0,
-            date: geminiData?.date || "",
-            time: geminiData?.time || ""
-          };
-        });
+      // Files identical to one that was already processed take over its result
+      const reusable = new Map<string, ProcessedImage>();
+      resultsRef.current.forEach(row => {
+        // A row read with another template lacks some of the fields wanted now
+        const hasFields = fields.every(field => row.extra !== undefined && field.name in row.extra);
+        if (row.contentHash && isReusable(row) && hasFields) reusable.set(row.contentHash, row);
+      });
+
+      const reusedResults: ProcessedImage[] = [];
+      const freshItems = itemsToProcess.filter(item => {
+        const previous = item.hashes && !force ? reusable.get(item.hashes.sha256) : undefined;
+        if (!previous) return true;
+        const { id, originalFile, fileName, relativePath, contentHash, previewUrl } = toPendingResult(item);
+        reusedResults.push({ ...previous, id, originalFile, fileName, relativePath, contentHash, previewUrl });
+        return false;
+      });
+
+      if (reusedResults.length > 0) {
+        processedCount += reusedResults.length;
+        settle(reusedResults);
+        setProgress({ processed: processedCount, total: itemsToProcess.length, etaMs: null });
+      }
+
+      // Photos that already carry GPS in EXIF/XMP skip the model entirely. What each
+      // file says about its origin is noted for the authenticity checks.
+      const embedded = await Promise.all(freshItems.map(item => readEmbeddedMetadata(item.file)));
+
+      const metadataResults: ProcessedImage[] = [];
+      const modelItems: { item: QueueItem; metadata: EmbeddedMetadata | null }[] = [];
+      const locatedItems: QueueItem[] = [];
+      const flushMetadataResults = () => {
+        if (metadataResults.length === 0) return;
+        processedCount += metadataResults.length;
+        settle(metadataResults.splice(0));
+        setProgress({ processed: processedCount, total: itemsToProcess.length, etaMs: null });
+      };
+
+      for (const [index, queued] of freshItems.entries()) {
+        if (!(await scheduler.proceed())) break;
+        const metadata = embedded[index];
+        const item = { ...queued, evidence: await collectEvidence(queued.file, metadata) };
+        if (metadata && hasUsableCoordinates(metadata)) {
+          metadataResults.push({
+            ...toPendingResult(item),
+            status: ResultStatus.OK,
+            latitude: metadata.latitude,
+            longitude: metadata.longitude,
+            date: metadata.date,
+            time: metadata.time,
+            source: 'exif',
+            confidence: 1
+          });
+          locatedItems.push(item);
+          if (metadataResults.length >= METADATA_FLUSH_SIZE) flushMetadataResults();
+        } else {
+          modelItems.push({ item, metadata });
+        }
+      }
+      flushMetadataResults();
+
+      // Answers the model gave earlier for the same image, model and prompt
+      const cacheKeys = new Map<string, string>();
+      modelItems.forEach(({ item }) => {
+        if (item.hashes) cacheKeys.set(item.id, resultCacheKey(item.hashes.sha256, extractionProvider, fields));
+      });
+      let cached = new Map<string, GeminiResponseItem>();
+      if (!force) {
+        try {
+          cached = await getCachedResults([...cacheKeys.values()]);
+        } catch (error) {
+          console.error("Result cache lookup failed:", error);
+        }
+      }
+
+      const cachedResults: ProcessedImage[] = [];
+      const uncachedItems = modelItems.filter(({ item, metadata }) => {
+        const hit = cached.get(cacheKeys.get(item.id) ?? '');
+        if (!hit) return true;
+        cachedResults.push(toModelResult(item, metadata, hit));
+        return false;
+      });
+      setCacheStats({ hits: cachedResults.length, misses: uncachedItems.length });
+
+      if (cachedResults.length > 0) {
+        processedCount += cachedResults.length;
+        settle(cachedResults);
+        setProgress({ processed: processedCount, total: itemsToProcess.length, etaMs: null });
+      }
+
+      // Each task reads its stamps locally, then downscales and sends only what is left
+      const chunkSize = settings.maxImagesPerBatch;
+      const chunks = Array.from({ length: Math.ceil(uncachedItems.length / chunkSize) }, (_, index) =>
+        uncachedItems.slice(index * chunkSize, (index + 1) * chunkSize)
+      );
+      const byteBudget = Math.min(BATCH_BYTE_BUDGET, extractionProvider.maxBatchBytes ?? Infinity);
+
+      const limitedProvider = rateLimitProvider(extractionProvider, scheduler);
+      let modelProcessedCount = 0;
+
+      const tasks = chunks.map(chunkItems => async () => {
+        let mappedResults: ProcessedImage[];
+
+        try {
+          // Stamped coordinates are read locally first; only the rest go to the model.
+          // Template fields need the model, so local reading is skipped when there are any,
+          // and so it is when `force` asks the model again.
+          const stamps = [];
+          for (const { item } of chunkItems) {
+            stamps.push(fields.length === 0 && !force ? await readStamp(item.file) : null);
+          }
+          // Downscaled so requests can be sized by what is actually sent
+          const modelImages: ExtractionImage[] = [];
+          for (const { item } of chunkItems.filter((_, index) => !stamps[index])) {
+            modelImages.push(await prepareImage(item.file, PREPROCESS_OPTIONS));
+          }
+
+          // Call the configured extraction provider; output is validated and re-split as needed
+          const outcomes: ExtractionOutcome[] = [];
+          for (const requestImages of groupByByteBudget(modelImages, getUploadBytes, byteBudget, settings.maxImagesPerBatch)) {
+            outcomes.push(...(await extractValidatedBatch(limitedProvider, requestImages, fields)));
+          }
+          let outcomeIndex = 0;
+
+          // Map results back to the original files in this chunk
+          const newCacheEntries: { key: string; item: GeminiResponseItem }[] = [];
+          mappedResults = chunkItems.map(({ item, metadata }, index) => {
+            const stamp = stamps[index];
+            if (stamp) {
+              return {
+                ...toPendingResult(item),
+                status: isLowConfidence('watermark', stamp.confidence) ? ResultStatus.LOW_CONFIDENCE : ResultStatus.OK,
+                address: stamp.address,
+                latitude: stamp.latitude,
+                longitude: stamp.longitude,
+                date: stamp.date || metadata?.date || "",
+                time: stamp.time || metadata?.time || "",
+                cameraDate: metadata?.date || undefined,
+                cameraTime: metadata?.time || undefined,
+                source: 'watermark',
+                confidence: stamp.confidence,
+                foundCoordinates: true
+              };
+            }
+
+            const outcome = outcomes[outcomeIndex++];
+            if (outcome.ok === false) {
+              return { ...toPendingResult(item), status: ResultStatus.FAILED, error: outcome.error };
+            }
+
+            const cacheKey = cacheKeys.get(item.id);
+            if (cacheKey) newCacheEntries.push({ key: cacheKey, item: outcome.item });
+            return toModelResult(item, metadata, outcome.item);
+          });
+          putCachedResults(newCacheEntries).catch(error => console.error("Result cache update failed:", error));
+        } catch (error) {
+          // Cancelled while waiting for the rate limit: the chunk goes back to the queue
+          if (error instanceof SchedulerCancelledError) return;
+          // Only this chunk fails; its rows keep the reason and can be retried later
+          console.error("Batch Error:", error);
+          const reason = describeError(error);
+          mappedResults = chunkItems.map(({ item }) => ({ ...toPendingResult(item), status: ResultStatus.FAILED, error: reason }));
+        }
 
-        allResults.push(...mappedResults);
         processedCount += chunkItems.length;
-        
+        modelProcessedCount += chunkItems.length;
+
+        // ETA from model throughput only; EXIF hits finish instantly and would skew it
+        const remaining = uncachedItems.length - modelProcessedCount;
+        const etaMs = remaining > 0 ? (scheduler.getActiveElapsedMs() / modelProcessedCount) * remaining : 0;
+
         // Update state progressively
-        setResults(prev => [...prev, ...mappedResults]);
-        setProgress({ processed: processedCount, total: itemsToProcess.length });
+        settle(mappedResults);
+        setProgress({ processed: processedCount, total: itemsToProcess.length, etaMs });
+      });
+
+      // Once every photo has a location, the stamps of photos located by their GPS
+      // are read as well, so the authenticity checks can compare the two
+      const stampChecks = isLocalOcrEnabled() ? locatedItems : [];
+      const stampCheckTasks = stampChecks.map(item => async () => {
+        const stamp = await readStamp(item.file);
+        if (!stamp) return;
+        setResults(prev => prev.map(row =>
+          row.id === item.id && row.evidence
+            ? { ...row, evidence: { ...row.evidence, stampLatitude: stamp.latitude, stampLongitude: stamp.longitude } }
+            : row
+        ));
+      });
+
+      const completed = await scheduler.run([...tasks, ...stampCheckTasks]);
+      schedulerRef.current = null;
+      setIsCancelling(false);
+
+      if (!completed) {
+        // Items that never got an outcome go back to the staging queue untouched
+        const returned = itemsToProcess.filter(item => !settledIds.has(item.id));
+        const returnedIds = new Set(returned.map(item => item.id));
+        setResults(prev => prev.filter(row => !returnedIds.has(row.id)));
+        deleteResults([...returnedIds]).catch(error => console.error("Session update failed:", error));
+        setQueue(prev => [...returned, ...prev]);
+        setStatus(ProcessingStatus.IDLE);
+        return;
       }
       
       setStatus(ProcessingStatus.COMPLETED);
 
     } catch (error) {
       console.error("Orchestration Error:", error);
+      setErrorMessage(`Processing stopped: ${describeError(error)}`);
+      schedulerRef.current = null;
+      setIsCancelling(false);
       setStatus(ProcessingStatus.ERROR);
     }
   };
 
-  const handleClearResults = () => {
+  const handlePause = () => {
+    schedulerRef.current?.pause();
+    setStatus(ProcessingStatus.PAUSED);
+  };
+
+  const handleResume = () => {
+    schedulerRef.current?.resume();
+    setStatus(ProcessingStatus.PROCESSING);
+  };
+
+  const handleCancel = () => {
+    schedulerRef.current?.cancel();
+    setIsCancelling(true);
+  };
+
+  // Stops before anything is queued when the provider cannot run, e.g. no API key
+  const ensureConfigured = (): boolean => {
+    const problem = extractionProvider.checkConfiguration?.() ?? null;
+    setErrorMessage(problem);
+    if (problem) setIsSettingsOpen(true);
+    return problem === null;
+  };
+
+  const handleSaveSettings = (next: AppSettings) => {
+    setSettings(saveSettings(next));
+    setIsSettingsOpen(false);
+    setErrorMessage(extractionProvider.checkConfiguration?.() ?? null);
+  };
+
+  const handleProcessQueue = async () => {
+    if (queue.length === 0 || !ensureConfigured()) return;
+
+    // Snapshot the queue to process
+    const itemsToProcess = [...queue];
+
+    if (!currentSession) {
+      try {
+        await startNewSession();
+      } catch (error) {
+        // Processing still works without storage, results just won't survive a reload
+        console.error("Session create failed:", error);
+      }
+    }
+    
+    // Append to the current session; every new row starts out pending
+    setResults(prev => [...prev, ...itemsToProcess.map(toPendingResult)]);
+    
+    // Clear queue UI immediately (optional, but prevents double submission)
+    setQueue([]);
+
+    await runExtraction(itemsToProcess);
+  };
+
+  // Manual corrections from the table or the map; persisted like any other change
+  const handleEditResult = useCallback((id: string, edit: LocationEdit) => {
+    setResults(prev => prev.map(row => (row.id === id ? applyManualEdit(row, edit) : row)));
+  }, []);
+
+  // Re-queue the given rows, keeping every other result as is. A retry asks the
+  // model again rather than copying back the earlier or cached result.
+  const retryRows = async (rows: ProcessedImage[]) => {
+    const items: QueueItem[] = rows.map(toQueueItem);
+    if (items.length === 0 || isRunning || !ensureConfigured()) return;
+
+    updateResults(items.map(toPendingResult));
+    await runExtraction(items, true);
+  };
+
+  // Only the visible rows that failed
+  const handleRetryFailed = () => retryRows(visibleResults.filter(row => row.status === ResultStatus.FAILED));
+
+  const handleRetrySelected = (ids: string[]) => retryRows(results.filter(row => ids.includes(row.id)));
+
+  const handleDeleteResults = async (ids: string[]) => {
+    const removed = new Set(ids);
+    results.filter(row => removed.has(row.id)).forEach(row => URL.revokeObjectURL(row.previewUrl));
+    setResults(prev => prev.filter(row => !removed.has(row.id)));
+    try {
+      await deleteResults(ids);
+      await refreshSessions();
+    } catch (error) {
+      console.error("Session update failed:", error);
+    }
+  };
+
+  // The drawn area selects its photos and limits the table to them
+  const handleAreaSelect = (ids: string[]) => {
+    setSelectedIds(new Set(ids));
+    setAreaIds(new Set(ids));
+  };
+
+  // Sends one photo to the model again, ignoring earlier and cached results
+  const handleReanalyze = async (id: string) => {
+    const row = results.find(result => result.id === id);
+    if (!row || isRunning || !ensureConfigured()) return;
+
+    const item = toQueueItem(row);
+    updateResults([toPendingResult(item)]);
+    await runExtraction([item], true);
+  };
+
+  const handleClearResults = async () => {
     // Revoke object URLs to avoid memory leaks
     results.forEach(r => URL.revokeObjectURL(r.previewUrl));
     setResults([]);
     setStatus(ProcessingStatus.IDLE);
-    setProgress({ processed: 0, total: 0 });
+    setProgress({ processed: 0, total: 0, etaMs: null });
+
+    if (currentSession) {
+      try {
+        await clearSession(currentSession.id);
+        await refreshSessions();
+      } catch (error) {
+        console.error("Session clear failed:", error);
+      }
+    }
+  };
+
+  const handleOpenSession = async (id: string) => {
+    const session = sessions.find(s => s.id === id);
+    if (!session || session.id === currentSession?.id) return;
+    try {
+      await openSession(session);
+    } catch (error) {
+      console.error("Session open failed:", error);
+    }
+  };
+
+  const handleCreateSession = async () => {
+    try {
+      await startNewSession();
+      results.forEach(r => URL.revokeObjectURL(r.previewUrl));
+      setResults([]);
+      setStatus(ProcessingStatus.IDLE);
+      setProgress({ processed: 0, total: 0, etaMs: null });
+    } catch (error) {
+      console.error("Session create failed:", error);
+    }
+  };
+
+  const handleRenameSession = async (name: string) => {
+    if (!currentSession) return;
+    try {
+      await renameSession(currentSession.id, name);
+      setCurrentSession({ ...currentSession, name });
+      await refreshSessions();
+    } catch (error) {
+      console.error("Session rename failed:", error);
+    }
+  };
+
+  // The choice sticks to the current session and becomes the default for new ones
+  const handleSelectTemplate = async (id: string) => {
+    setTemplateId(id);
+    setLastTemplateId(id);
+    if (!currentSession) return;
+    try {
+      await setSessionTemplate(currentSession.id, id);
+      setCurrentSession({ ...currentSession, templateId: id });
+    } catch (error) {
+      console.error("Session update failed:", error);
+    }
+  };
+
+  const handleSaveTemplates = (next: ExtractionTemplate[], selectedId: string) => {
+    setTemplates(next);
+    saveTemplates(next);
+    handleSelectTemplate(selectedId);
+  };
+
+  const handleAddReferenceLayer = async (layer: ReferenceLayer) => {
+    await saveReferenceLayer(layer);
+    setReferenceLayers(prev => [...prev, layer]);
+  };
+
+  const handleRemoveReferenceLayer = (id: string) => {
+    setReferenceLayers(prev => prev.filter(layer => layer.id !== id));
+    deleteReferenceLayer(id).catch(error => console.error("Reference layer delete failed:", error));
+  };
+
+  const handleReferenceToleranceChange = (tolerance: ReferenceTolerance) => {
+    setReferenceTolerance(tolerance);
+    saveReferenceTolerance(tolerance);
+  };
+
+  const handleTimelineSettingsChange = (next: TimelineSettings) => {
+    setTimelineSettings(next);
+    saveTimelineSettings(next);
+  };
+
+  const handleDeleteSession = async () => {
+    if (!currentSession) return;
+    try {
+      await deleteSession(currentSession.id);
+      const remaining = await listSessions();
+      setSessions(remaining);
+      if (remaining.length > 0) {
+        await openSession(remaining[0]);
+      } else {
+        results.forEach(r => URL.revokeObjectURL(r.previewUrl));
+        setResults([]);
+        setCurrentSession(null);
+        setLastSessionId(null);
+      }
+    } catch (error) {
+      console.error("Session delete failed:", error);
+    }
   };
 
   return (
@@ -120,7 +847,15 @@ const App: React.FC = () => {
       <div className="max-w-6xl mx-auto space-y-8">
         
         {/* Header */}
-        <div className="text-center space-y-2">
+        <div className="relative text-center space-y-2">
+          <button
+            onClick={() => setIsSettingsOpen(true)}
+            disabled={isRunning}
+            className="absolute right-0 top-0 p-2 rounded-lg text-slate-500 hover:text-indigo-600 hover:bg-white disabled:opacity-50 transition-colors"
+            title="Settings"
+          >
+            <Settings size={20} />
+          </button>
           <div className="flex items-center justify-center space-x-3 mb-4">
             <div className="p-3 bg-indigo-600 rounded-xl shadow-lg shadow-indigo-200">
                <Zap className="text-white w-8 h-8" />
@@ -132,20 +867,63 @@ const App: React.FC = () => {
           </p>
         </div>
 
+        {errorMessage && (
+          <div className="flex items-start gap-3 px-4 py-3 rounded-xl border border-red-200 bg-red-50 text-sm text-red-700">
+            <AlertCircle size={18} className="shrink-0 mt-0.5" />
+            <p className="flex-1">{errorMessage}</p>
+            <button onClick={() => setIsSettingsOpen(true)} className="font-medium hover:underline">
+              Open settings
+            </button>
+            <button onClick={() => setErrorMessage(null)} className="text-red-400 hover:text-red-600" title="Dismiss">
+              <X size={16} />
+            </button>
+          </div>
+        )}
+
+        {isSettingsOpen && (
+          <SettingsPanel
+            settings={settings}
+            providerLabel={extractionProvider.label}
+            usesGemini={extractionProvider.id === 'gemini'}
+            onSave={handleSaveSettings}
+            onClose={() => setIsSettingsOpen(false)}
+          />
+        )}
+
+        <SessionBar
+          sessions={sessions}
+          currentSession={currentSession}
+          disabled={isRunning}
+          onOpen={handleOpenSession}
+          onCreate={handleCreateSession}
+          onRename={handleRenameSession}
+          onDelete={handleDeleteSession}
+        />
+
         {/* Processing State */}
-        {status === ProcessingStatus.PROCESSING ? (
+        {isRunning ? (
           <div className="bg-white rounded-2xl p-12 shadow-sm border border-slate-200 text-center space-y-6">
                <div className="relative inline-flex">
-                 <Loader2 className="w-16 h-16 text-indigo-600 animate-spin" />
+                 <Loader2 className={`w-16 h-16 text-indigo-600 ${status === ProcessingStatus.PAUSED ? '' : 'animate-spin'}`} />
                  <div className="absolute inset-0 flex items-center justify-center">
-                   <span className="text-xs font-bold text-indigo-600">{Math.round((progress.processed / progress.total) * 100)}%</span>
+                   <span className="text-xs font-bold text-indigo-600">{Math.round((progress.processed / Math.max(progress.total, 1)) * 100)}%</span>
                  </div>
                </div>
                <div>
-                 <h3 className="text-xl font-medium text-slate-900">Processing Images</h3>
+                 <h3 className="text-xl font-medium text-slate-900">
+                   {isCancelling ? 'Cancelling...' : status === ProcessingStatus.PAUSED ? 'Paused' : 'Processing Images'}
+                 </h3>
                  <p className="text-slate-500 mt-2">
-                   Analyzing {progress.processed} of {progress.total} photos using Gemini 2.5...
+                   Analyzing {progress.processed} of {progress.total} photos using {extractionProvider.label}...
+                 </p>
+                 <p className="text-sm text-slate-400 mt-1">
+                   {isCancelling ? 'Waiting for requests in flight to finish' : formatEta(progress.etaMs)}
                  </p>
+                 {cacheStats.hits + cacheStats.misses > 0 && (
+                   <p className="text-xs text-slate-400 mt-1">
+                     Result cache: {cacheStats.hits} hit{cacheStats.hits === 1 ? '' : 's'}, {cacheStats.misses} miss{cacheStats.misses === 1 ? '' : 'es'}
+                   </p>
+                 )}
                </div>
                <div className="w-full max-w-lg mx-auto h-3 bg-slate-100 rounded-full overflow-hidden">
                  <div 
@@ -153,14 +931,52 @@ const App: React.FC = () => {
                     style={{ width: `${(progress.processed / Math.max(progress.total, 1)) * 100}%` }}
                  />
                </div>
+               <div className="flex justify-center space-x-3">
+                 {status === ProcessingStatus.PAUSED ? (
+                   <button
+                     onClick={handleResume}
+                     disabled={isCancelling}
+                     className="flex items-center space-x-2 px-4 py-2 rounded-lg text-sm font-medium bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50 transition-colors"
+                   >
+                     <Play size={16} fill="currentColor" />
+                     <span>Resume</span>
+                   </button>
+                 ) : (
+                   <button
+                     onClick={handlePause}
+                     disabled={isCancelling}
+                     className="flex items-center space-x-2 px-4 py-2 rounded-lg text-sm font-medium bg-white text-slate-700 border border-slate-300 hover:bg-slate-50 disabled:opacity-50 transition-colors"
+                   >
+                     <Pause size={16} />
+                     <span>Pause</span>
+                   </button>
+                 )}
+                 <button
+                   onClick={handleCancel}
+                   disabled={isCancelling}
+                   className="flex items-center space-x-2 px-4 py-2 rounded-lg text-sm font-medium bg-white text-red-600 border border-red-200 hover:bg-red-50 disabled:opacity-50 transition-colors"
+                 >
+                   <Square size={16} />
+                   <span>Cancel</span>
+                 </button>
+               </div>
           </div>
         ) : (
           /* Input Area */
           <div className="space-y-6">
-            <div className="bg-white rounded-2xl p-6 shadow-sm border border-slate-200">
-              <Dropzone onFilesSelected={handleFilesSelected} disabled={false} />
+            <div className="bg-white rounded-2xl p-6 shadow-sm border border-slate-200 space-y-4">
+              <TemplateSelector
+                templates={templates}
+                activeId={activeTemplate.id}
+                disabled={isConverting}
+                onSelect={handleSelectTemplate}
+                onSave={handleSaveTemplates}
+              />
+              <Dropzone onFilesSelected={handleFilesSelected} disabled={isConverting} isConverting={isConverting} />
             </div>
 
+            <RejectedFiles files={rejectedFiles} onDismiss={() => setRejectedFiles([])} />
+
             {/* Staging Queue */}
             {queue.length > 0 && (
               <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
@@ -178,14 +994,24 @@ const App: React.FC = () => {
                 </div>
                 
                 <div className="p-6">
+                  <DuplicateGroups
+                    groups={duplicateGroups}
+                    items={queue.map(item => ({ id: item.id, path: item.path, preview: item.preview, size: item.file.size }))}
+                    onKeepOne={handleKeepOne}
+                  />
                   <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-4 mb-6">
                     {queue.map((item) => (
-                      <div key={item.id} className="group relative aspect-square bg-slate-100 rounded-lg overflow-hidden border border-slate-200">
+                      <div key={item.id} className="group relative aspect-square bg-slate-100 rounded-lg overflow-hidden border border-slate-200" title={item.path}>
                         <img 
                           src={item.preview} 
                           alt="preview" 
                           className="w-full h-full object-cover"
                         />
+                        {item.hashes && processedHashes.has(item.hashes.sha256) && (
+                          <span className="absolute bottom-1 left-1 px-1.5 py-0.5 rounded bg-emerald-600/90 text-white text-[10px] font-medium" title="Already processed; the earlier result is reused">
+                            Processed
+                          </span>
+                        )}
                         <button
                           onClick={() => handleRemoveFromQueue(item.id)}
                           className="absolute top-1 right-1 p-1 bg-white/90 text-slate-600 rounded-full shadow-sm hover:bg-red-50 hover:text-red-600 opacity-0 group-hover:opacity-100 transition-all duration-200"
@@ -218,17 +1044,57 @@ const App: React.FC = () => {
               <h2 className="text-xl font-semibold text-slate-800 flex items-center gap-2">
                 Results <span className="text-sm font-normal text-slate-500 bg-slate-100 px-2 py-0.5 rounded-full">{results.length}</span>
               </h2>
-              <button 
-                onClick={handleClearResults}
-                className="flex items-center space-x-2 text-sm text-red-600 hover:text-red-700 hover:bg-red-50 px-3 py-1.5 rounded-lg transition-colors"
-              >
-                <Trash2 size={16} />
-                <span>Clear All</span>
-              </button>
+              <div className="flex items-center gap-3">
+                <FolderFilter data={results} value={folderFilter} onChange={setFolderFilter} />
+                <button 
+                  onClick={handleClearResults}
+                  className="flex items-center space-x-2 text-sm text-red-600 hover:text-red-700 hover:bg-red-50 px-3 py-1.5 rounded-lg transition-colors"
+                >
+                  <Trash2 size={16} />
+                  <span>Clear All</span>
+                </button>
+              </div>
             </div>
             
-            <ResultsTable data={results} />
-            <MapView data={results} />
+            <ReferencePanel
+              layers={referenceLayers}
+              tolerance={referenceTolerance}
+              visits={pointVisits}
+              data={visibleResults}
+              onAddLayer={handleAddReferenceLayer}
+              onRemoveLayer={handleRemoveReferenceLayer}
+              onToleranceChange={handleReferenceToleranceChange}
+            />
+            <ResultsTable
+              data={visibleResults}
+              extraFields={activeTemplate.fields}
+              onRetryFailed={isRunning ? undefined : handleRetryFailed}
+              onEdit={handleEditResult}
+              onReanalyze={isRunning ? undefined : handleReanalyze}
+              selectedIds={selectedIds}
+              onSelectionChange={setSelectedIds}
+              areaIds={areaIds}
+              onClearArea={() => setAreaIds(null)}
+              onRetry={isRunning ? undefined : handleRetrySelected}
+              onDelete={isRunning ? undefined : handleDeleteResults}
+            />
+            <MapView
+              data={visibleResults}
+              onEdit={handleEditResult}
+              referenceLayers={referenceLayers}
+              visits={pointVisits}
+              selectedIds={selectedIds}
+              onAreaSelect={handleAreaSelect}
+              focus={mapFocus}
+            />
+            <Timeline
+              timeline={timeline}
+              settings={timelineSettings}
+              onSettingsChange={handleTimelineSettingsChange}
+              selectedIds={selectedIds}
+              onSelectionChange={setSelectedIds}
+              onFocus={id => setMapFocus({ id })}
+            />
           </div>
         )}
 
@@ -0,0 +1,11 @@
+import { createExtractHandler } from "../server/extractHandler.js";
+import { readProxyConfig } from "../server/proxyConfig.js";
+
+// Vercel function for the extraction proxy. Configure GEMINI_API_KEY and
+// PROXY_TOKENS or PROXY_SHARED_SECRET as environment variables of the project.
+// Vercel runs it as Node ESM without bundling, so every relative import on its
+// path (server/, and the services and types it uses) ends in .js.
+const handleExtract = createExtractHandler(readProxyConfig());
+
+export const GET = handleExtract;
+export const POST = handleExtract;
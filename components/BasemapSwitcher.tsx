@@ -0,0 +1,167 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Layers, ChevronDown, Loader2, FileUp, FolderOpen } from 'lucide-react';
+import { BasemapId, LocalTileSource, ONLINE_BASEMAPS, createFolderTileSource, isTileUrlTemplate } from '../services/basemaps';
+import { openMbtiles } from '../services/mbtiles';
+import { fromFileList } from '../services/sourceFiles';
+
+interface BasemapSwitcherProps {
+  activeId: BasemapId;
+  customUrl: string;
+  localSource: LocalTileSource | null;
+  onSelect: (id: BasemapId) => void;
+  onCustomUrlChange: (url: string) => void;
+  onLocalSourceChange: (source: LocalTileSource) => void;
+}
+
+export const BasemapSwitcher: React.FC<BasemapSwitcherProps> = ({
+  activeId,
+  customUrl,
+  localSource,
+  onSelect,
+  onCustomUrlChange,
+  onLocalSourceChange
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [urlDraft, setUrlDraft] = useState(customUrl);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const mbtilesInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  // Close when clicking anywhere outside the menu
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  // React has no prop for directory selection
+  useEffect(() => {
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+  }, [isOpen]);
+
+  const label = activeId === 'local'
+    ? localSource?.name ?? 'Offline tiles'
+    : activeId === 'custom'
+      ? 'Custom tiles'
+      : ONLINE_BASEMAPS.find(basemap => basemap.id === activeId)?.label;
+
+  const loadSource = async (open: () => Promise<LocalTileSource> | LocalTileSource) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      onLocalSourceChange(await open());
+      onSelect('local');
+    } catch (loadError) {
+      console.error("Tile source failed to open:", loadError);
+      setError(loadError instanceof Error ? loadError.message : String(loadError));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleMbtiles = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) loadSource(() => openMbtiles(file));
+  };
+
+  const handleFolder = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = event.target.files ? fromFileList(event.target.files) : [];
+    event.target.value = '';
+    if (files.length > 0) loadSource(() => createFolderTileSource(files, files[0].path.split('/')[0] || 'Tile folder'));
+  };
+
+  const applyCustomUrl = () => {
+    const url = urlDraft.trim();
+    if (!isTileUrlTemplate(url)) {
+      setError("Enter a URL with {z}, {x} and {y}, e.g. http://localhost:8080/tiles/{z}/{x}/{y}.png");
+      return;
+    }
+    setError(null);
+    onCustomUrlChange(url);
+    onSelect('custom');
+  };
+
+  const optionClass = (selected: boolean) =>
+    `w-full text-left px-4 py-2 text-sm transition-colors ${selected ? 'bg-indigo-50 text-indigo-700 font-medium' : 'text-slate-700 hover:bg-slate-50'}`;
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm text-slate-600 border border-slate-300 bg-white hover:bg-slate-50 hover:text-indigo-600"
+        title="Background map"
+      >
+        {isLoading ? <Loader2 size={16} className="animate-spin" /> : <Layers size={16} />}
+        <span className="hidden md:inline max-w-[8rem] truncate">{label}</span>
+        <ChevronDown size={14} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 bg-white border border-slate-200 rounded-lg shadow-lg z-[1100] py-1">
+          {ONLINE_BASEMAPS.map(basemap => (
+            <button key={basemap.id} onClick={() => onSelect(basemap.id)} className={optionClass(activeId === basemap.id)}>
+              {basemap.label}
+            </button>
+          ))}
+
+          <div className="border-t border-slate-100 mt-1 pt-2 px-4 pb-2">
+            <p className={`text-sm mb-1.5 ${activeId === 'custom' ? 'text-indigo-700 font-medium' : 'text-slate-700'}`}>Custom XYZ tiles</p>
+            <div className="flex gap-2">
+              <input
+                value={urlDraft}
+                onChange={e => setUrlDraft(e.target.value)}
+                onKeyDown={e => e.key === 'Enter' && applyCustomUrl()}
+                placeholder="http://localhost:8080/{z}/{x}/{y}.png"
+                spellCheck={false}
+                className="flex-1 min-w-0 px-2 py-1 border border-slate-300 rounded text-xs font-mono focus:outline-none focus:ring-2 focus:ring-indigo-300"
+              />
+              <button onClick={applyCustomUrl} className="px-2 py-1 rounded text-xs font-medium text-indigo-600 border border-indigo-200 hover:bg-indigo-50">
+                Use
+              </button>
+            </div>
+          </div>
+
+          <div className="border-t border-slate-100 pt-2 px-4 pb-2 space-y-1.5">
+            <p className={`text-sm ${activeId === 'local' ? 'text-indigo-700 font-medium' : 'text-slate-700'}`}>
+              Offline tiles{localSource ? `: ${localSource.name}` : ''}
+            </p>
+            {localSource && activeId !== 'local' && (
+              <button onClick={() => onSelect('local')} className="text-xs font-medium text-indigo-600 hover:underline">
+                Show {localSource.name} again
+              </button>
+            )}
+            <div className="flex gap-2">
+              <button
+                onClick={() => mbtilesInputRef.current?.click()}
+                disabled={isLoading}
+                className="flex items-center gap-1.5 px-2 py-1 rounded text-xs text-slate-600 border border-slate-300 hover:bg-slate-50 disabled:opacity-50"
+              >
+                <FileUp size={12} /> MBTiles file
+              </button>
+              <button
+                onClick={() => folderInputRef.current?.click()}
+                disabled={isLoading}
+                className="flex items-center gap-1.5 px-2 py-1 rounded text-xs text-slate-600 border border-slate-300 hover:bg-slate-50 disabled:opacity-50"
+              >
+                <FolderOpen size={12} /> z/x/y folder
+              </button>
+            </div>
+            <p className="text-[11px] text-slate-400">Read from this computer, no internet needed. Pick the file again after a reload.</p>
+            <input ref={mbtilesInputRef} type="file" accept=".mbtiles" className="hidden" onChange={handleMbtiles} />
+            <input ref={folderInputRef} type="file" className="hidden" onChange={handleFolder} />
+          </div>
+
+          {error && <p className="px-4 pb-2 text-xs text-red-600">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,14 +1,25 @@
 import React, { useRef, useState, useEffect } from 'react';
-import { UploadCloud, Image as ImageIcon } from 'lucide-react';
+import { UploadCloud, Loader2, FolderOpen } from 'lucide-react';
+import { SourceFile, collectDroppedFiles, fromFileList } from '../services/sourceFiles';
 
 interface DropzoneProps {
-  onFilesSelected: (files: File[]) => void;
+  onFilesSelected: (files: SourceFile[]) => void;
   disabled?: boolean;
+  isConverting?: boolean;
 }
 
-export const Dropzone: React.FC<DropzoneProps> = ({ onFilesSelected, disabled }) => {
+// Everything is passed on; the format is checked by its bytes, not its MIME type
+const ACCEPTED_INPUT = 'image/*,.heic,.heif,.tif,.tiff,.dng,.nef,.nrw,.arw,.cr2,.cr3,.orf,.rw2,.raf,.pef,.srw,application/pdf,.pdf,.zip';
+
+export const Dropzone: React.FC<DropzoneProps> = ({ onFilesSelected, disabled, isConverting }) => {
   const [isDragging, setIsDragging] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  // Not in React's typings; set on the element so the picker selects a whole folder
+  useEffect(() => {
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+  }, []);
 
   useEffect(() => {
     const handlePaste = (event: Event) => {
@@ -16,14 +27,8 @@ export const Dropzone: React.FC<DropzoneProps> = ({ onFilesSelected, disabled })
       if (disabled) return;
 
       if (e.clipboardData && e.clipboardData.files && e.clipboardData.files.length > 0) {
-        const imageFiles = Array.from(e.clipboardData.files).filter((file: File) => 
-          file.type.startsWith('image/')
-        );
-
-        if (imageFiles.length > 0) {
-          e.preventDefault();
-          onFilesSelected(imageFiles);
-        }
+        e.preventDefault();
+        onFilesSelected(fromFileList(e.clipboardData.files));
       }
     };
 
@@ -49,26 +54,20 @@ export const Dropzone: React.FC<DropzoneProps> = ({ onFilesSelected, disabled })
     if (disabled) return;
 
     if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
-      const imageFiles = Array.from(e.dataTransfer.files).filter((file: File) => 
-        file.type.startsWith('image/')
-      );
-      if (imageFiles.length > 0) {
-        onFilesSelected(imageFiles);
-      }
+      collectDroppedFiles(e.dataTransfer)
+        .then(files => {
+          if (files.length > 0) onFilesSelected(files);
+        })
+        .catch(error => console.error("Could not read dropped folder:", error));
     }
   };
 
   const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
-      const imageFiles = Array.from(e.target.files).filter((file: File) => 
-        file.type.startsWith('image/')
-      );
-      onFilesSelected(imageFiles);
+      onFilesSelected(fromFileList(e.target.files));
     }
     // Reset value so same files can be selected again if needed
-    if (fileInputRef.current) {
-      fileInputRef.current.value = '';
-    }
+    e.target.value = '';
   };
 
   return (
@@ -90,7 +89,15 @@ export const Dropzone: React.FC<DropzoneProps> = ({ onFilesSelected, disabled })
         type="file"
         ref={fileInputRef}
         onChange={handleFileInput}
-        accept="image/*"
+        accept={ACCEPTED_INPUT}
+        multiple
+        className="hidden"
+        disabled={disabled}
+      />
+      <input
+        type="file"
+        ref={folderInputRef}
+        onChange={handleFileInput}
         multiple
         className="hidden"
         disabled={disabled}
@@ -98,16 +105,28 @@ export const Dropzone: React.FC<DropzoneProps> = ({ onFilesSelected, disabled })
       
       <div className="flex flex-col items-center justify-center space-y-4">
         <div className={`p-4 rounded-full ${isDragging ? 'bg-indigo-100 text-indigo-600' : 'bg-slate-100 text-slate-500'}`}>
-          <UploadCloud size={32} />
+          {isConverting ? <Loader2 size={32} className="animate-spin" /> : <UploadCloud size={32} />}
         </div>
         <div className="space-y-1">
           <p className="text-lg font-medium text-slate-700">
-            {isDragging ? 'Drop images here' : 'Click, paste, or drop images here'}
+            {isConverting ? 'Converting files...' : isDragging ? 'Drop images or folders here' : 'Click, paste, or drop images or folders here'}
           </p>
           <p className="text-sm text-slate-500">
-            Supports JPG, PNG, WEBP. You can select more than 10 files.
+            Supports JPG, PNG, WEBP, HEIC, TIFF, RAW (embedded preview) and PDF (one image per page), loose or inside ZIP archives. Folder structure is kept.
           </p>
         </div>
+        <button
+          type="button"
+          onClick={e => {
+            e.stopPropagation();
+            if (!disabled) folderInputRef.current?.click();
+          }}
+          disabled={disabled}
+          className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-indigo-600 bg-indigo-50 hover:bg-indigo-100 rounded-lg transition-colors disabled:opacity-50"
+        >
+          <FolderOpen size={16} />
+          Select folder
+        </button>
       </div>
     </div>
   );
@@ -0,0 +1,86 @@
+import React from 'react';
+import { Copy } from 'lucide-react';
+import { DuplicateGroup } from '../services/imageHash';
+
+export interface DuplicateCandidate {
+  id: string;
+  path: string;
+  preview: string;
+  size: number;
+}
+
+interface DuplicateGroupsProps {
+  groups: DuplicateGroup[];
+  items: DuplicateCandidate[];
+  onKeepOne: (group: DuplicateGroup, keepId: string) => void;
+}
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+// The largest file is the one least likely to have been resized or recompressed
+export const pickKeeper = (group: DuplicateGroup, items: DuplicateCandidate[]): string => {
+  const members = items.filter(item => group.ids.includes(item.id));
+  return members.reduce((best, item) => (item.size > best.size ? item : best), members[0]).id;
+};
+
+export const DuplicateGroups: React.FC<DuplicateGroupsProps> = ({ groups, items, onKeepOne }) => {
+  if (groups.length === 0) return null;
+
+  const byId = new Map(items.map(item => [item.id, item]));
+
+  return (
+    <div className="mb-6 rounded-xl border border-amber-200 bg-amber-50">
+      <div className="px-4 py-3 flex items-center justify-between border-b border-amber-200">
+        <div className="flex items-center gap-2 text-amber-800">
+          <Copy size={16} />
+          <h4 className="text-sm font-semibold">
+            {groups.length} group(s) of duplicate photos
+          </h4>
+        </div>
+        <button
+          onClick={() => groups.forEach(group => onKeepOne(group, pickKeeper(group, items)))}
+          className="text-sm font-medium text-amber-800 hover:text-amber-900 hover:underline"
+        >
+          Keep one of each
+        </button>
+      </div>
+      <ul className="divide-y divide-amber-200">
+        {groups.map(group => {
+          const keeper = pickKeeper(group, items);
+          return (
+            <li key={group.ids.join('|')} className="px-4 py-3 flex items-center gap-4">
+              <span className={`shrink-0 px-2 py-0.5 rounded-full text-xs font-medium ${group.kind === 'exact' ? 'bg-amber-200 text-amber-900' : 'bg-white text-amber-800 border border-amber-300'}`}>
+                {group.kind === 'exact' ? 'Identical' : 'Similar'}
+              </span>
+              <div className="flex-1 flex gap-3 overflow-x-auto">
+                {group.ids.map(id => {
+                  const item = byId.get(id);
+                  if (!item) return null;
+                  return (
+                    <div key={id} className="shrink-0 w-24" title={item.path}>
+                      <img
+                        src={item.preview}
+                        alt=""
+                        className={`h-16 w-24 object-cover rounded border ${id === keeper ? 'border-amber-500 ring-2 ring-amber-300' : 'border-amber-200'}`}
+                      />
+                      <p className="mt-1 text-[11px] text-slate-600 truncate">{item.path.split('/').pop()}</p>
+                      <p className="text-[10px] text-slate-400">{formatSize(item.size)}</p>
+                    </div>
+                  );
+                })}
+              </div>
+              <button
+                onClick={() => onKeepOne(group, keeper)}
+                className="shrink-0 px-3 py-1.5 rounded-lg text-sm font-medium bg-white text-amber-800 border border-amber-300 hover:bg-amber-100 transition-colors"
+                title="Keep the highlighted (largest) photo and remove the others from the queue"
+              >
+                Keep one
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
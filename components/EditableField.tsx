@@ -0,0 +1,83 @@
+import React, { useState, useEffect, useRef } from 'react';
+
+interface EditableFieldProps {
+  value: string;
+  display: React.ReactNode;
+  // Return false to reject the value and keep the field open
+  onCommit: (value: string) => boolean;
+  disabled?: boolean;
+  placeholder?: string;
+  className?: string;
+  inputClassName?: string;
+}
+
+// Shows `display` until clicked, then an input. Enter or blur saves, Escape cancels.
+export const EditableField: React.FC<EditableFieldProps> = ({
+  value,
+  display,
+  onCommit,
+  disabled,
+  placeholder,
+  className = '',
+  inputClassName = ''
+}) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(value);
+  const [invalid, setInvalid] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (isEditing) inputRef.current?.select();
+  }, [isEditing]);
+
+  const startEditing = () => {
+    if (disabled) return;
+    setDraft(value);
+    setInvalid(false);
+    setIsEditing(true);
+  };
+
+  const commit = () => {
+    if (draft.trim() === value) {
+      setIsEditing(false);
+      return;
+    }
+    if (onCommit(draft.trim())) {
+      setIsEditing(false);
+    } else {
+      setInvalid(true);
+    }
+  };
+
+  if (!isEditing) {
+    return (
+      <div
+        onClick={startEditing}
+        title={disabled ? undefined : 'Click to edit'}
+        className={`${disabled ? '' : 'cursor-text rounded hover:bg-indigo-50 hover:ring-1 hover:ring-indigo-200'} ${className}`}
+      >
+        {display}
+      </div>
+    );
+  }
+
+  return (
+    <input
+      ref={inputRef}
+      value={draft}
+      placeholder={placeholder}
+      onChange={e => {
+        setDraft(e.target.value);
+        setInvalid(false);
+      }}
+      onBlur={commit}
+      onKeyDown={e => {
+        if (e.key === 'Enter') commit();
+        if (e.key === 'Escape') setIsEditing(false);
+      }}
+      className={`w-full px-2 py-1 text-sm border rounded focus:outline-none focus:ring-2 ${
+        invalid ? 'border-red-400 focus:ring-red-300' : 'border-indigo-300 focus:ring-indigo-300'
+      } ${inputClassName}`}
+    />
+  );
+};
@@ -0,0 +1,102 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Download, ChevronDown, Loader2, X } from 'lucide-react';
+import { ExtraFieldDefinition, ProcessedImage } from '../types';
+import { EXPORT_FORMATS, ExportFormat, exportResults } from '../services/exportService';
+import { downloadGeotaggedZip } from '../services/exifWriter';
+
+interface ExportMenuProps {
+  data: ProcessedImage[];
+  extraFields?: ExtraFieldDefinition[];
+  label?: string;
+}
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({ data, extraFields = [], label = 'Export' }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [exporting, setExporting] = useState<ExportFormat | 'photos' | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere outside the menu
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const handleExport = async (format: ExportFormat) => {
+    setIsOpen(false);
+    setExporting(format);
+    try {
+      await exportResults(format, data, extraFields);
+    } catch (error) {
+      console.error("Export Error:", error);
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const handleExportPhotos = async () => {
+    setIsOpen(false);
+    setExporting('photos');
+    setNotice(null);
+    try {
+      const skipped = await downloadGeotaggedZip(data);
+      if (skipped.length > 0) {
+        setNotice(`${skipped.length} photo(s) skipped: only JPEGs with a location or date can be geotagged.`);
+      }
+    } catch (error) {
+      console.error("Export Error:", error);
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={exporting !== null}
+        className="flex items-center space-x-2 px-4 py-2 rounded-lg text-sm font-medium bg-white text-slate-700 border border-slate-300 hover:bg-slate-50 hover:text-indigo-600 hover:border-indigo-300 transition-all duration-200 disabled:opacity-50"
+      >
+        {exporting ? <Loader2 size={16} className="animate-spin" /> : <Download size={16} />}
+        <span>{label}</span>
+        <ChevronDown size={14} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-52 bg-white border border-slate-200 rounded-lg shadow-lg z-20 py-1">
+          {EXPORT_FORMATS.map(format => (
+            <button
+              key={format.id}
+              onClick={() => handleExport(format.id)}
+              className="w-full text-left px-4 py-2 text-sm text-slate-700 hover:bg-indigo-50 hover:text-indigo-700 transition-colors"
+            >
+              {format.label}
+            </button>
+          ))}
+          <div className="my-1 border-t border-slate-100" />
+          <button
+            onClick={handleExportPhotos}
+            className="w-full text-left px-4 py-2 text-sm text-slate-700 hover:bg-indigo-50 hover:text-indigo-700 transition-colors"
+          >
+            Geotagged photos (ZIP)
+          </button>
+        </div>
+      )}
+
+      {notice && (
+        <div className="absolute right-0 mt-2 w-72 bg-amber-50 border border-amber-200 text-amber-800 text-xs rounded-lg shadow-lg z-20 p-3 flex items-start gap-2">
+          <span className="flex-1">{notice}</span>
+          <button onClick={() => setNotice(null)} className="text-amber-600 hover:text-amber-800">
+            <X size={14} />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,42 @@
+import React, { useMemo } from 'react';
+import { Folder } from 'lucide-react';
+import { ProcessedImage } from '../types';
+import { getRelativePath, isInFolder, listFolders } from '../services/sourceFiles';
+
+interface FolderFilterProps {
+  data: ProcessedImage[];
+  value: string; // '' for all folders
+  onChange: (folder: string) => void;
+}
+
+// Hidden until the results span more than one folder
+export const FolderFilter: React.FC<FolderFilterProps> = ({ data, value, onChange }) => {
+  const options = useMemo(() => {
+    const paths = data.map(getRelativePath);
+    return listFolders(paths).map(folder => ({
+      folder,
+      depth: folder.split('/').length - 1,
+      count: paths.filter(path => isInFolder(path, folder)).length
+    }));
+  }, [data]);
+
+  if (options.length === 0) return null;
+
+  return (
+    <label className="flex items-center gap-2 text-sm text-slate-500">
+      <Folder size={16} />
+      <select
+        value={value}
+        onChange={e => onChange(e.target.value)}
+        className="max-w-[18rem] px-2 py-1.5 text-sm border border-slate-300 rounded-lg bg-white text-slate-700 focus:outline-none focus:ring-2 focus:ring-indigo-300"
+      >
+        <option value="">All folders ({data.length})</option>
+        {options.map(({ folder, depth, count }) => (
+          <option key={folder} value={folder}>
+            {'  '.repeat(depth)}{folder.split('/').pop()} ({count})
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+};
@@ -0,0 +1,356 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Marker, Polygon, Popup, useMap, useMapEvents } from 'react-leaflet';
+import L from 'leaflet';
+import { ProcessedImage } from '../types';
+import { LocalTileSource } from '../services/basemaps';
+import { Cluster, clusterPoints } from '../services/mapClustering';
+import { createThumbnail } from '../services/imageUtils';
+
+// Leaflet layers drawn without plugins: tiles from local files, a canvas
+// heatmap and clustered photo markers.
+
+// Tiles come from a LocalTileSource instead of the network. Beyond the file's
+// highest zoom the last level is scaled up rather than left blank.
+export const LocalTileLayer: React.FC<{ source: LocalTileSource }> = ({ source }) => {
+  const map = useMap();
+
+  useEffect(() => {
+    const FileTileLayer = L.GridLayer.extend({
+      createTile: (coords: L.Coords, done: L.DoneCallback) => {
+        const tile = document.createElement('img');
+        tile.alt = '';
+        source.getTile(coords.z, coords.x, coords.y)
+          .then(blob => {
+            if (!blob) {
+              done(undefined, tile);
+              return;
+            }
+            const url = URL.createObjectURL(blob);
+            tile.onload = () => {
+              URL.revokeObjectURL(url);
+              done(undefined, tile);
+            };
+            tile.onerror = () => {
+              URL.revokeObjectURL(url);
+              done(new Error(`Tile ${coords.z}/${coords.x}/${coords.y} could not be decoded`), tile);
+            };
+            tile.src = url;
+          })
+          .catch(error => done(error, tile));
+        return tile;
+      }
+    }) as new (options: L.GridLayerOptions) => L.GridLayer;
+
+    const [west, south, east, north] = source.bounds ?? [];
+    const layer: L.GridLayer = new FileTileLayer({
+      minNativeZoom: source.minZoom,
+      maxNativeZoom: source.maxZoom,
+      maxZoom: 22,
+      bounds: source.bounds ? L.latLngBounds([south, west], [north, east]) : undefined,
+      attribution: source.attribution
+    });
+    layer.addTo(map);
+    return () => {
+      layer.remove();
+    };
+  }, [map, source]);
+
+  return null;
+};
+
+const HEAT_RADIUS = 22;
+const HEAT_BLUR = 16;
+const HEAT_GRADIENT: [number, string][] = [[0.4, '#3b82f6'], [0.6, '#22d3ee'], [0.7, '#84cc16'], [0.8, '#facc15'], [1, '#ef4444']];
+
+let heatStamp: HTMLCanvasElement | null = null;
+let heatPalette: Uint8ClampedArray | null = null;
+
+// A blurred dot drawn once and stamped for every point
+const getHeatStamp = (): HTMLCanvasElement => {
+  if (heatStamp) return heatStamp;
+  const extent = HEAT_RADIUS + HEAT_BLUR;
+  heatStamp = document.createElement('canvas');
+  heatStamp.width = heatStamp.height = extent * 2;
+  const context = heatStamp.getContext('2d')!;
+  // The circle is drawn off-canvas; only its blurred shadow lands inside
+  context.shadowOffsetX = context.shadowOffsetY = extent * 2;
+  context.shadowBlur = HEAT_BLUR;
+  context.shadowColor = 'black';
+  context.beginPath();
+  context.arc(-extent, -extent, HEAT_RADIUS, 0, Math.PI * 2);
+  context.fill();
+  return heatStamp;
+};
+
+// 256 RGBA colours, indexed by accumulated density
+const getHeatPalette = (): Uint8ClampedArray => {
+  if (heatPalette) return heatPalette;
+  const canvas = document.createElement('canvas');
+  canvas.width = 256;
+  canvas.height = 1;
+  const context = canvas.getContext('2d')!;
+  const gradient = context.createLinearGradient(0, 0, 256, 0);
+  HEAT_GRADIENT.forEach(([stop, color]) => gradient.addColorStop(stop, color));
+  context.fillStyle = gradient;
+  context.fillRect(0, 0, 256, 1);
+  heatPalette = context.getImageData(0, 0, 256, 1).data;
+  return heatPalette;
+};
+
+export interface HeatPoint {
+  latitude: number;
+  longitude: number;
+  weight: number; // 0..1
+}
+
+// Density of photos, drawn on a canvas covering the map and redrawn after every
+// pan or zoom. Overlapping dots add up in the alpha channel, which is then mapped
+// onto the colour gradient.
+export const HeatmapLayer: React.FC<{ points: HeatPoint[] }> = ({ points }) => {
+  const map = useMap();
+
+  useEffect(() => {
+    const canvas = L.DomUtil.create('canvas', 'leaflet-zoom-hide') as HTMLCanvasElement;
+    canvas.style.pointerEvents = 'none';
+    map.getPanes().overlayPane.appendChild(canvas);
+
+    const draw = () => {
+      const size = map.getSize();
+      canvas.width = size.x;
+      canvas.height = size.y;
+      L.DomUtil.setPosition(canvas, map.containerPointToLayerPoint([0, 0]));
+
+      const context = canvas.getContext('2d')!;
+      const stamp = getHeatStamp();
+      const extent = stamp.width / 2;
+      points.forEach(point => {
+        const { x, y } = map.latLngToContainerPoint([point.latitude, point.longitude]);
+        if (x < -extent || y < -extent || x > size.x + extent || y > size.y + extent) return;
+        context.globalAlpha = Math.max(0.05, Math.min(1, point.weight)) * 0.35;
+        context.drawImage(stamp, x - extent, y - extent);
+      });
+
+      if (size.x === 0 || size.y === 0) return;
+      const image = context.getImageData(0, 0, size.x, size.y);
+      const palette = getHeatPalette();
+      for (let i = 3; i < image.data.length; i += 4) {
+        const alpha = image.data[i];
+        if (alpha === 0) continue;
+        image.data[i - 3] = palette[alpha * 4];
+        image.data[i - 2] = palette[alpha * 4 + 1];
+        image.data[i - 1] = palette[alpha * 4 + 2];
+        image.data[i] = Math.min(255, alpha * 1.5 + 40);
+      }
+      context.putImageData(image, 0, 0);
+    };
+
+    map.on('moveend zoomend resize', draw);
+    draw();
+    return () => {
+      map.off('moveend zoomend resize', draw);
+      canvas.remove();
+    };
+  }, [map, points]);
+
+  return null;
+};
+
+const clusterIcons = new Map<string, L.DivIcon>();
+
+// Clusters holding selected photos get an amber ring, like selected markers
+const clusterIcon = (count: number, highlighted: boolean): L.DivIcon => {
+  const key = `${count}:${highlighted}`;
+  let icon = clusterIcons.get(key);
+  if (!icon) {
+    const size = count < 10 ? 34 : count < 100 ? 40 : 48;
+    icon = new L.DivIcon({
+      html: `<div class="flex items-center justify-center w-full h-full rounded-full bg-indigo-600 text-white text-xs font-semibold ring-4 ${highlighted ? 'ring-amber-400' : 'ring-indigo-300/70'} shadow-lg">${count}</div>`,
+      className: '!bg-transparent !border-0',
+      iconSize: [size, size],
+      iconAnchor: [size / 2, size / 2]
+    });
+    clusterIcons.set(key, icon);
+  }
+  return icon;
+};
+
+interface ClusteredMarkersProps {
+  items: ProcessedImage[]; // All located
+  renderMarker: (item: ProcessedImage) => React.ReactNode;
+  // Photos currently drawn as their own marker, e.g. to load their thumbnails
+  onSinglesChange?: (items: ProcessedImage[]) => void;
+  highlightedIds?: Set<string>;
+}
+
+// Only the viewport (plus a margin) is clustered and drawn, so thousands of
+// photos cost no more than the few dozen markers actually on screen
+export const ClusteredMarkers: React.FC<ClusteredMarkersProps> = ({ items, renderMarker, onSinglesChange, highlightedIds }) => {
+  const map = useMap();
+  const [view, setView] = useState(() => ({ zoom: map.getZoom(), bounds: map.getBounds() }));
+  useMapEvents({
+    moveend: () => setView({ zoom: map.getZoom(), bounds: map.getBounds() })
+  });
+
+  const clusters = useMemo(() => {
+    const area = view.bounds.pad(0.25);
+    const points = items
+      .filter(item => area.contains([item.latitude!, item.longitude!]))
+      .map(item => {
+        const { x, y } = map.project([item.latitude!, item.longitude!], view.zoom);
+        return { item, x, y };
+      });
+    return clusterPoints(points);
+  }, [items, view, map]);
+
+  const singles = useMemo(() => clusters.filter(cluster => cluster.items.length === 1).map(cluster => cluster.items[0]), [clusters]);
+  useEffect(() => {
+    onSinglesChange?.(singles);
+  }, [singles, onSinglesChange]);
+
+  // At the deepest zoom a cluster can only be photos at (nearly) the same spot,
+  // so it lists them instead of zooming further
+  const atMaxZoom = view.zoom >= map.getMaxZoom();
+
+  const zoomTo = (cluster: Cluster<ProcessedImage>) => {
+    const bounds = L.latLngBounds(cluster.items.map(item => [item.latitude!, item.longitude!]));
+    map.fitBounds(bounds, { padding: [40, 40] });
+  };
+
+  return (
+    <>
+      {clusters.map(cluster => {
+        if (cluster.items.length === 1) {
+          return <React.Fragment key={cluster.items[0].id}>{renderMarker(cluster.items[0])}</React.Fragment>;
+        }
+        return (
+          <Marker
+            key={`cluster:${cluster.items[0].id}`}
+            position={map.unproject([cluster.x, cluster.y], view.zoom)}
+            icon={clusterIcon(cluster.items.length, Boolean(highlightedIds && cluster.items.some(item => highlightedIds.has(item.id))))}
+            eventHandlers={atMaxZoom ? {} : { click: () => zoomTo(cluster) }}
+          >
+            {atMaxZoom && (
+              <Popup>
+                <div className="max-h-56 overflow-y-auto min-w-[200px]">
+                  <p className="text-xs font-semibold text-slate-700 mb-1">{cluster.items.length} photos at this spot</p>
+                  <ul className="text-xs text-slate-600 space-y-0.5">
+                    {cluster.items.map(item => <li key={item.id} className="truncate">{item.fileName}</li>)}
+                  </ul>
+                </div>
+              </Popup>
+            )}
+          </Marker>
+        );
+      })}
+    </>
+  );
+};
+
+// Even-odd test in screen pixels
+const isInsideOutline = (point: L.Point, outline: L.Point[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = outline.length - 1; i < outline.length; j = i++) {
+    const a = outline[i];
+    const b = outline[j];
+    if (a.y > point.y !== b.y > point.y && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+// Freehand selection: press and drag around photos. Panning is off while
+// this is mounted; a press without a drag selects nothing.
+export const LassoSelect: React.FC<{ items: ProcessedImage[]; onSelect: (ids: string[]) => void }> = ({ items, onSelect }) => {
+  const map = useMap();
+  const outline = useRef<L.Point[] | null>(null);
+  const [path, setPath] = useState<L.LatLng[]>([]);
+
+  useEffect(() => {
+    map.dragging.disable();
+    return () => {
+      map.dragging.enable();
+    };
+  }, [map]);
+
+  const finish = () => {
+    const points = outline.current;
+    outline.current = null;
+    setPath([]);
+    if (!points || points.length < 3) return;
+    onSelect(items
+      .filter(item => isInsideOutline(map.latLngToContainerPoint([item.latitude!, item.longitude!]), points))
+      .map(item => item.id));
+  };
+
+  useMapEvents({
+    mousedown: event => {
+      outline.current = [event.containerPoint];
+      setPath([event.latlng]);
+    },
+    mousemove: event => {
+      const points = outline.current;
+      if (!points || points[points.length - 1].distanceTo(event.containerPoint) < 4) return;
+      points.push(event.containerPoint);
+      setPath(prev => [...prev, event.latlng]);
+    },
+    mouseup: finish,
+    mouseout: finish
+  });
+
+  return path.length > 1
+    ? <Polygon positions={path} pathOptions={{ color: '#f59e0b', weight: 2, dashArray: '4 4', fillOpacity: 0.1 }} interactive={false} />
+    : null;
+};
+
+const MARKER_THUMBNAIL_EDGE = 96; // 48px markers, sharp on high-DPI screens
+const THUMBNAIL_CONCURRENCY = 2;
+
+// Small marker images made on demand, since decoding hundreds of full-size
+// photos for 48px icons is what made the map slow. Until a thumbnail is ready
+// (or if the photo cannot be decoded) the marker falls back to the preview.
+export const useMarkerThumbnails = () => {
+  const [thumbnails, setThumbnails] = useState<Map<string, string>>(() => new Map());
+  const requested = useRef(new Set<string>());
+  const queue = useRef<ProcessedImage[]>([]);
+  const active = useRef(0);
+  const urls = useRef<string[]>([]);
+  const mounted = useRef(true);
+
+  useEffect(() => {
+    mounted.current = true;
+    return () => {
+      mounted.current = false;
+      urls.current.forEach(url => URL.revokeObjectURL(url));
+    };
+  }, []);
+
+  const pump = useCallback(() => {
+    while (active.current < THUMBNAIL_CONCURRENCY && queue.current.length > 0) {
+      const item = queue.current.shift()!;
+      active.current++;
+      createThumbnail(item.originalFile, MARKER_THUMBNAIL_EDGE)
+        .then(blob => {
+          if (!blob || !mounted.current) return;
+          const url = URL.createObjectURL(blob);
+          urls.current.push(url);
+          setThumbnails(prev => new Map(prev).set(item.id, url));
+        })
+        .finally(() => {
+          active.current--;
+          pump();
+        });
+    }
+  }, []);
+
+  const request = useCallback((items: ProcessedImage[]) => {
+    items.forEach(item => {
+      if (requested.current.has(item.id)) return;
+      requested.current.add(item.id);
+      queue.current.push(item);
+    });
+    pump();
+  }, [pump]);
+
+  return { thumbnails, request };
+};
@@ -1,11 +1,31 @@
 import React, { useEffect, useMemo, useState, useRef } from 'react';
-import { MapContainer, TileLayer, Marker, Popup, useMap } from 'react-leaflet';
+import { MapContainer, TileLayer, Marker, Popup, Polyline, Polygon, CircleMarker, Tooltip, useMap, useMapEvents } from 'react-leaflet';
 import L from 'leaflet';
-import { ProcessedImage } from '../types';
-import { MapPin, Maximize2, Minimize2 } from 'lucide-react';
+import { LocationEdit, ProcessedImage, ReferenceLayer, ResultStatus } from '../types';
+import { MapPin, Maximize2, Minimize2, Crosshair, Flame, Route, Lasso } from 'lucide-react';
+import { getRelativePath } from '../services/sourceFiles';
+import {
+  BasemapId,
+  LocalTileSource,
+  ONLINE_BASEMAPS,
+  getCustomTileUrl,
+  getStoredBasemap,
+  setCustomTileUrl,
+  setStoredBasemap
+} from '../services/basemaps';
+import { buildTrack } from '../services/photoTrack';
+import { PointVisit, formatDistance } from '../services/referenceCheck';
+import { BasemapSwitcher } from './BasemapSwitcher';
+import { ClusteredMarkers, HeatPoint, HeatmapLayer, LassoSelect, LocalTileLayer, useMarkerThumbnails } from './MapLayers';
 
 interface MapViewProps {
   data: ProcessedImage[];
+  onEdit?: (id: string, edit: LocationEdit) => void;
+  referenceLayers?: ReferenceLayer[]; // Planned points and boundaries drawn under the photos
+  visits?: PointVisit[];
+  selectedIds?: Set<string>; // Rows checked in the table, highlighted here
+  onAreaSelect?: (ids: string[]) => void;
+  focus?: { id: string } | null; // A new object each time, so the same photo can be shown again
 }
 
 // Component to handle auto-zooming to fit all markers
@@ -20,7 +40,9 @@ const MapController = ({ markers, isFullscreen }: { markers: ProcessedImage[], i
     return () => clearTimeout(timer);
   }, [map, isFullscreen]);
 
-  // Fit bounds when markers change
+  // Fit bounds when the set of markers changes. Keyed on ids so that dragging a
+  // marker to a new position does not make the map jump.
+  const markerKey = markers.map(m => m.id).join('|');
   useEffect(() => {
     if (markers.length > 0) {
       const bounds = L.latLngBounds(markers.map(m => [m.latitude!, m.longitude!]));
@@ -29,44 +51,210 @@ const MapController = ({ markers, isFullscreen }: { markers: ProcessedImage[], i
          map.fitBounds(bounds, { padding: [50, 50], maxZoom: 16 });
       }, 200);
     }
-  }, [markers, map, isFullscreen]);
+  }, [markerKey, map, isFullscreen]);
 
   return null;
 };
 
-export const MapView: React.FC<MapViewProps> = ({ data }) => {
+// Zooms in on a photo picked elsewhere, such as on the timeline
+const FocusController = ({ focus, markers }: { focus: { id: string } | null, markers: ProcessedImage[] }) => {
+  const map = useMap();
+  useEffect(() => {
+    const item = focus && markers.find(m => m.id === focus.id);
+    if (item) map.flyTo([item.latitude!, item.longitude!], Math.max(map.getZoom(), 17));
+    // Only when asked, not when the markers change
+  }, [focus, map]);
+  return null;
+};
+
+// Drops the photo being placed at the clicked point
+const PlacementHandler = ({ onPlace }: { onPlace: (latlng: L.LatLng) => void }) => {
+  useMapEvents({
+    click: event => onPlace(event.latlng)
+  });
+  return null;
+};
+
+const roundCoordinate = (value: number) => Math.round(value * 1e6) / 1e6;
+
+type MapMode = 'markers' | 'heatmap';
+
+// Estimated locations get a hollow, dashed ring instead of a photo pin
+const createEstimatedIcon = (selected: boolean) => new L.DivIcon({
+  html: `
+    <div class="w-full h-full rounded-full border-[3px] border-dashed border-amber-500 ${selected ? 'bg-amber-300/60 ring-2 ring-amber-400' : 'bg-transparent'} box-border"></div>
+  `,
+  className: '!bg-transparent !border-0',
+  iconSize: [28, 28],
+  iconAnchor: [14, 14],
+  popupAnchor: [0, -14]
+});
+
+const estimatedIcon = createEstimatedIcon(false);
+const selectedEstimatedIcon = createEstimatedIcon(true);
+
+const formatTaken = (item: ProcessedImage) => [item.date, item.time].filter(Boolean).join(' ');
+
+export const MapView: React.FC<MapViewProps> = ({ data, onEdit, referenceLayers = [], visits = [], selectedIds, onAreaSelect, focus = null }) => {
   const [isFullscreen, setIsFullscreen] = useState(false);
-  
-  // Filter out items without valid coordinates
+  const [placingId, setPlacingId] = useState<string | null>(null);
+  const [mode, setMode] = useState<MapMode>('markers');
+  const [showTrack, setShowTrack] = useState(false);
+  const [isSelectingArea, setIsSelectingArea] = useState(false);
+  const [basemap, setBasemap] = useState<BasemapId>(getStoredBasemap);
+  const [customUrl, setCustomUrl] = useState(getCustomTileUrl);
+  const [localSource, setLocalSource] = useState<LocalTileSource | null>(null);
+  const { thumbnails, request: requestThumbnails } = useMarkerThumbnails();
+  // One icon per image URL, so re-renders do not rebuild every marker
+  const iconCache = useRef(new Map<string, L.DivIcon>());
+
+  // Filter out items without coordinates (0 is a valid latitude/longitude)
   const validData = useMemo(() => {
     return data.filter(item => 
       item.latitude !== null && 
-      item.longitude !== null && 
-      item.latitude !== 0 && 
-      item.longitude !== 0
+      item.longitude !== null
     );
   }, [data]);
 
-  if (validData.length === 0) return null;
+  // Finished photos that still have no location and can be placed by hand
+  const unlocated = useMemo(() => {
+    return data.filter(item =>
+      item.status !== ResultStatus.PENDING &&
+      (item.latitude === null || item.longitude === null)
+    );
+  }, [data]);
+
+  // Stop placing once the chosen photo got a location (or was removed)
+  useEffect(() => {
+    if (placingId && !unlocated.some(item => item.id === placingId)) {
+      setPlacingId(null);
+    }
+  }, [placingId, unlocated]);
+
+  const track = useMemo(() => (showTrack ? buildTrack(validData) : []), [showTrack, validData]);
+  const undatedCount = showTrack ? validData.length - track.length : 0;
+
+  // Estimated locations count for less, since they may be off by a few hundred metres
+  const heatPoints = useMemo<HeatPoint[]>(() => validData.map(item => ({
+    latitude: item.latitude!,
+    longitude: item.longitude!,
+    weight: item.source === 'estimated' ? 0.5 : 1
+  })), [validData]);
 
-  // Create a custom icon for each image
-  const createCustomIcon = (previewUrl: string) => {
-    return new L.DivIcon({
-      html: `
-        <div class="flex flex-col items-center justify-center w-full h-full">
-          <div class="w-12 h-12 rounded-md border-2 border-white shadow-lg overflow-hidden bg-white z-10 box-border relative">
-            <img src="${previewUrl}" class="w-full h-full object-cover block" />
+  const hasEstimated = mode === 'markers' && validData.some(item => item.source === 'estimated');
+  const canPlace = Boolean(onEdit) && unlocated.length > 0;
+
+  if (validData.length === 0 && !canPlace) return null;
+
+  const handlePlace = (latlng: L.LatLng) => {
+    if (!placingId || !onEdit) return;
+    onEdit(placingId, { latitude: roundCoordinate(latlng.lat), longitude: roundCoordinate(latlng.lng) });
+    setPlacingId(null);
+  };
+
+  const handleDragEnd = (id: string, marker: L.Marker) => {
+    if (!onEdit) return;
+    const { lat, lng } = marker.getLatLng();
+    onEdit(id, { latitude: roundCoordinate(lat), longitude: roundCoordinate(lng) });
+  };
+
+  const getPhotoIcon = (imageUrl: string, selected: boolean) => {
+    const key = `${selected}:${imageUrl}`;
+    let icon = iconCache.current.get(key);
+    if (!icon) {
+      icon = new L.DivIcon({
+        html: `
+          <div class="flex flex-col items-center justify-center w-full h-full">
+            <div class="w-12 h-12 rounded-md border-2 ${selected ? 'border-amber-400 ring-2 ring-amber-400' : 'border-white'} shadow-lg overflow-hidden bg-white z-10 box-border relative">
+              <img src="${imageUrl}" class="w-full h-full object-cover block" />
+            </div>
+            <div class="-mt-[1px] w-0 h-0 border-l-[6px] border-l-transparent border-r-[6px] border-r-transparent border-t-[8px] border-t-white drop-shadow-sm z-0 relative"></div>
           </div>
-          <div class="-mt-[1px] w-0 h-0 border-l-[6px] border-l-transparent border-r-[6px] border-r-transparent border-t-[8px] border-t-white drop-shadow-sm z-0 relative"></div>
-        </div>
-      `,
-      className: '!bg-transparent !border-0', 
-      // Increased size to prevent any overflow clipping (shadows, borders)
-      iconSize: [60, 70], 
-      // Centered horizontally (30), positioned so arrow tip is at the lat/lng (approx 62px down)
-      iconAnchor: [30, 62], 
-      popupAnchor: [0, -60]
-    });
+        `,
+        className: '!bg-transparent !border-0',
+        // Increased size to prevent any overflow clipping (shadows, borders)
+        iconSize: [60, 70],
+        // Centered horizontally (30), positioned so arrow tip is at the lat/lng (approx 62px down)
+        iconAnchor: [30, 62],
+        popupAnchor: [0, -60]
+      });
+      iconCache.current.set(key, icon);
+    }
+    return icon;
+  };
+
+  const handleSelectBasemap = (id: BasemapId) => {
+    setBasemap(id);
+    setStoredBasemap(id);
+  };
+
+  const handleCustomUrlChange = (url: string) => {
+    setCustomUrl(url);
+    setCustomTileUrl(url);
+  };
+
+  const onlineBasemap = ONLINE_BASEMAPS.find(option => option.id === basemap) ?? ONLINE_BASEMAPS[0];
+
+  const renderTiles = () => {
+    if (basemap === 'local' && localSource) {
+      return <LocalTileLayer source={localSource} />;
+    }
+    if (basemap === 'custom' && customUrl) {
+      return <TileLayer key={customUrl} url={customUrl} maxNativeZoom={19} maxZoom={22} />;
+    }
+    return (
+      <TileLayer
+        key={onlineBasemap.id}
+        attribution={onlineBasemap.attribution}
+        url={onlineBasemap.url}
+        maxNativeZoom={onlineBasemap.maxZoom}
+        maxZoom={22}
+      />
+    );
+  };
+
+  const renderMarker = (item: ProcessedImage) => {
+    const selected = Boolean(selectedIds?.has(item.id));
+    return (
+      <Marker
+        key={item.id}
+        position={[item.latitude!, item.longitude!]}
+        icon={item.source === 'estimated'
+          ? (selected ? selectedEstimatedIcon : estimatedIcon)
+          : getPhotoIcon(thumbnails.get(item.id) ?? item.previewUrl, selected)}
+        zIndexOffset={selected ? 1000 : 0}
+        draggable={Boolean(onEdit) && !isSelectingArea}
+        eventHandlers={{
+          dragend: event => handleDragEnd(item.id, event.target as L.Marker)
+        }}
+      >
+        <Popup className="custom-popup">
+          <div className="flex flex-col gap-2 min-w-[220px] max-w-[280px]">
+            <div className="w-full rounded-lg overflow-hidden bg-slate-100 border border-slate-200">
+              <img
+                src={item.previewUrl}
+                alt={item.fileName}
+                className="w-full h-auto max-h-[250px] object-contain block"
+              />
+            </div>
+            <div>
+              <h4 className="font-semibold text-slate-800 text-sm truncate" title={getRelativePath(item)}>{item.fileName}</h4>
+              {item.source === 'estimated' && (
+                <span className="inline-block mt-1 px-1.5 py-0.5 rounded text-[10px] font-medium text-amber-700 border border-dashed border-amber-400">Estimated</span>
+              )}
+              {item.manuallyVerified && (
+                <span className="inline-block mt-1 px-1.5 py-0.5 rounded text-[10px] font-medium text-emerald-700 border border-emerald-200 bg-emerald-50">Verified</span>
+              )}
+              <p className="text-xs text-slate-600 line-clamp-3 mt-1 leading-relaxed">{item.address}</p>
+              <div className="flex gap-2 mt-2 text-[10px] text-slate-400 font-mono border-t border-slate-100 pt-1">
+                <span>{item.latitude?.toFixed(5)}</span>
+                <span>{item.longitude?.toFixed(5)}</span>
+              </div>
+            </div>
+          </div>
+        </Popup>
+      </Marker>
+    );
   };
 
   const toggleFullscreen = () => {
@@ -80,61 +268,172 @@ export const MapView: React.FC<MapViewProps> = ({ data }) => {
         ${isFullscreen ? 'fixed inset-0 z-50 rounded-none h-screen w-screen' : 'relative rounded-xl w-full'}
       `}
     >
-      <div className="px-6 py-4 border-b border-slate-200 bg-slate-50 flex items-center justify-between shrink-0">
+      <div className="px-6 py-4 border-b border-slate-200 bg-slate-50 flex flex-wrap items-center justify-between gap-3 shrink-0">
         <div className="flex items-center space-x-2">
           <MapPin className="text-slate-500 w-5 h-5" />
           <h3 className="font-semibold text-slate-700">Geographic Distribution</h3>
+          {hasEstimated && (
+            <span className="hidden sm:inline-flex items-center gap-1.5 ml-3 text-xs text-slate-500">
+              <span className="inline-block w-3 h-3 rounded-full border-2 border-dashed border-amber-500" />
+              Estimated location
+            </span>
+          )}
+          {visits.length > 0 && (
+            <span className="hidden sm:inline-flex items-center gap-1.5 ml-3 text-xs text-slate-500">
+              <span className="inline-block w-2.5 h-2.5 rounded-full bg-teal-600" />
+              Visited
+              <span className="inline-block w-2.5 h-2.5 rounded-full bg-rose-600 ml-1" />
+              Planned
+            </span>
+          )}
+          {showTrack && undatedCount > 0 && (
+            <span className="hidden sm:inline ml-3 text-xs text-slate-500">
+              {undatedCount} without a date left out of the track
+            </span>
+          )}
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="flex rounded-lg border border-slate-300 bg-white overflow-hidden text-sm">
+            <button
+              onClick={() => setMode('markers')}
+              className={`flex items-center gap-1.5 px-3 py-1.5 ${mode === 'markers' ? 'bg-indigo-50 text-indigo-700 font-medium' : 'text-slate-600 hover:bg-slate-50'}`}
+              title="Photo markers, grouped when close together"
+            >
+              <MapPin size={16} /> <span className="hidden md:inline">Markers</span>
+            </button>
+            <button
+              onClick={() => setMode('heatmap')}
+              className={`flex items-center gap-1.5 px-3 py-1.5 border-l border-slate-300 ${mode === 'heatmap' ? 'bg-indigo-50 text-indigo-700 font-medium' : 'text-slate-600 hover:bg-slate-50'}`}
+              title="Where photos are concentrated"
+            >
+              <Flame size={16} /> <span className="hidden md:inline">Heatmap</span>
+            </button>
+          </div>
+          <button
+            onClick={() => setShowTrack(!showTrack)}
+            className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm border ${showTrack ? 'border-indigo-300 bg-indigo-50 text-indigo-700 font-medium' : 'border-slate-300 bg-white text-slate-600 hover:bg-slate-50'}`}
+            title="Connect photos in the order they were taken (date and time)"
+          >
+            <Route size={16} /> <span className="hidden md:inline">Track</span>
+          </button>
+          {onAreaSelect && mode === 'markers' && validData.length > 0 && (
+            <button
+              onClick={() => {
+                setIsSelectingArea(!isSelectingArea);
+                setPlacingId(null);
+              }}
+              className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm border ${isSelectingArea ? 'border-amber-300 bg-amber-50 text-amber-700 font-medium' : 'border-slate-300 bg-white text-slate-600 hover:bg-slate-50'}`}
+              title="Draw around photos to select them and show only those in the table"
+            >
+              <Lasso size={16} /> <span className="hidden md:inline">Select area</span>
+            </button>
+          )}
+          <BasemapSwitcher
+            activeId={basemap}
+            customUrl={customUrl}
+            localSource={localSource}
+            onSelect={handleSelectBasemap}
+            onCustomUrlChange={handleCustomUrlChange}
+            onLocalSourceChange={setLocalSource}
+          />
+          {canPlace && (
+            <label className="flex items-center gap-2 text-xs text-slate-500">
+              <Crosshair size={16} className={placingId ? 'text-indigo-600' : ''} />
+              <select
+                value={placingId ?? ''}
+                onChange={e => {
+                  setPlacingId(e.target.value || null);
+                  setIsSelectingArea(false);
+                }}
+                className="max-w-[14rem] px-2 py-1.5 text-sm border border-slate-300 rounded-lg bg-white text-slate-700 focus:outline-none focus:ring-2 focus:ring-indigo-300"
+              >
+                <option value="">Place photo ({unlocated.length} without location)</option>
+                {unlocated.map(item => (
+                  <option key={item.id} value={item.id}>{item.fileName}</option>
+                ))}
+              </select>
+            </label>
+          )}
+          <button 
+            onClick={toggleFullscreen}
+            className="p-2 text-slate-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors"
+            title={isFullscreen ? "Exit Fullscreen" : "Fullscreen"}
+          >
+            {isFullscreen ? <Minimize2 size={20} /> : <Maximize2 size={20} />}
+          </button>
         </div>
-        <button 
-          onClick={toggleFullscreen}
-          className="p-2 text-slate-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors"
-          title={isFullscreen ? "Exit Fullscreen" : "Fullscreen"}
-        >
-          {isFullscreen ? <Minimize2 size={20} /> : <Maximize2 size={20} />}
-        </button>
       </div>
       
-      <div className={`w-full relative z-0 ${isFullscreen ? 'flex-1' : 'h-[500px]'}`}>
+      <div className={`w-full relative z-0 ${isFullscreen ? 'flex-1' : 'h-[500px]'} ${placingId || isSelectingArea ? '[&_.leaflet-container]:cursor-crosshair' : ''}`}>
+        {placingId && (
+          <div className="absolute top-3 left-1/2 -translate-x-1/2 z-[1000] px-3 py-1.5 rounded-full bg-indigo-600 text-white text-xs shadow-lg pointer-events-none">
+            Click on the map to place the selected photo
+          </div>
+        )}
+        {isSelectingArea && (
+          <div className="absolute top-3 left-1/2 -translate-x-1/2 z-[1000] px-3 py-1.5 rounded-full bg-amber-500 text-white text-xs shadow-lg pointer-events-none">
+            Hold the mouse button and draw around the photos to select
+          </div>
+        )}
         <MapContainer 
           center={[0, 0]} 
           zoom={2} 
           style={{ height: '100%', width: '100%' }}
           scrollWheelZoom={true}
         >
-          <TileLayer
-            attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
-            url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
-          />
-          
+          {renderTiles()}
+
           <MapController markers={validData} isFullscreen={isFullscreen} />
+          <FocusController focus={focus} markers={validData} />
+          {placingId && <PlacementHandler onPlace={handlePlace} />}
+          {isSelectingArea && onAreaSelect && mode === 'markers' && (
+            <LassoSelect
+              items={validData}
+              onSelect={ids => {
+                onAreaSelect(ids);
+                setIsSelectingArea(false);
+              }}
+            />
+          )}
 
-          {validData.map((item, index) => (
-            <Marker 
-              key={`${item.fileName}-${index}`} 
-              position={[item.latitude!, item.longitude!]}
-              icon={createCustomIcon(item.previewUrl)}
+          {referenceLayers.flatMap(layer => layer.polygons.map((polygon, index) => (
+            <Polygon
+              key={`${layer.id}:area:${index}`}
+              positions={polygon.rings.map(ring => ring.map(([lng, lat]) => [lat, lng] as [number, number]))}
+              pathOptions={{ color: '#0d9488', weight: 2, dashArray: '6 4', fillOpacity: 0.06 }}
+              interactive={false}
+            />
+          )))}
+          {visits.map(visit => (
+            <CircleMarker
+              key={visit.point.id}
+              center={[visit.point.latitude, visit.point.longitude]}
+              radius={6}
+              pathOptions={{ color: '#fff', weight: 2, fillColor: visit.photoCount > 0 ? '#0d9488' : '#e11d48', fillOpacity: 1 }}
             >
-              <Popup className="custom-popup">
-                <div className="flex flex-col gap-2 min-w-[220px] max-w-[280px]">
-                  <div className="w-full rounded-lg overflow-hidden bg-slate-100 border border-slate-200">
-                    <img 
-                      src={item.previewUrl} 
-                      alt={item.fileName} 
-                      className="w-full h-auto max-h-[250px] object-contain block" 
-                    />
-                  </div>
-                  <div>
-                    <h4 className="font-semibold text-slate-800 text-sm truncate">{item.fileName}</h4>
-                    <p className="text-xs text-slate-600 line-clamp-3 mt-1 leading-relaxed">{item.address}</p>
-                    <div className="flex gap-2 mt-2 text-[10px] text-slate-400 font-mono border-t border-slate-100 pt-1">
-                      <span>{item.latitude?.toFixed(5)}</span>
-                      <span>{item.longitude?.toFixed(5)}</span>
-                    </div>
-                  </div>
-                </div>
-              </Popup>
-            </Marker>
+              <Tooltip direction="top">
+                {visit.point.name}: {visit.photoCount > 0
+                  ? `${visit.photoCount} photo${visit.photoCount === 1 ? '' : 's'}`
+                  : `not visited${visit.nearestDistance !== null ? `, closest photo ${formatDistance(visit.nearestDistance)}` : ''}`}
+              </Tooltip>
+            </CircleMarker>
           ))}
+
+          {track.length >= 2 && (
+            <>
+              <Polyline positions={track.map(item => [item.latitude!, item.longitude!] as [number, number])} pathOptions={{ color: '#4f46e5', weight: 3, opacity: 0.8 }} />
+              <CircleMarker center={[track[0].latitude!, track[0].longitude!]} radius={7} pathOptions={{ color: '#fff', weight: 2, fillColor: '#16a34a', fillOpacity: 1 }}>
+                <Tooltip direction="top">Start: {formatTaken(track[0])}</Tooltip>
+              </CircleMarker>
+              <CircleMarker center={[track[track.length - 1].latitude!, track[track.length - 1].longitude!]} radius={7} pathOptions={{ color: '#fff', weight: 2, fillColor: '#dc2626', fillOpacity: 1 }}>
+                <Tooltip direction="top">End: {formatTaken(track[track.length - 1])}</Tooltip>
+              </CircleMarker>
+            </>
+          )}
+
+          {mode === 'heatmap'
+            ? <HeatmapLayer points={heatPoints} />
+            : <ClusteredMarkers items={validData} renderMarker={renderMarker} onSinglesChange={requestThumbnails} highlightedIds={selectedIds} />}
         </MapContainer>
       </div>
     </div>
@@ -0,0 +1,182 @@
+import React, { useRef, useState } from 'react';
+import { Target, Upload, Loader2, Trash2, AlertCircle } from 'lucide-react';
+import { ProcessedImage, ReferenceLayer, ReferenceTolerance } from '../types';
+import { REFERENCE_FILE_ACCEPT, importReferenceFile } from '../services/referenceLayers';
+import { PointVisit, formatDistance } from '../services/referenceCheck';
+
+interface ReferencePanelProps {
+  layers: ReferenceLayer[];
+  tolerance: ReferenceTolerance;
+  visits: PointVisit[];
+  data: ProcessedImage[]; // Rows with `reference` filled in
+  onAddLayer: (layer: ReferenceLayer) => Promise<void>;
+  onRemoveLayer: (id: string) => void;
+  onToleranceChange: (tolerance: ReferenceTolerance) => void;
+}
+
+const ToleranceInput: React.FC<{ label: string; value: number; onChange: (value: number) => void }> = ({ label, value, onChange }) => (
+  <label className="flex items-center gap-2 text-sm text-slate-600">
+    {label}
+    <input
+      type="number"
+      min={0}
+      step={5}
+      value={value}
+      onChange={e => {
+        const next = Number(e.target.value);
+        if (Number.isFinite(next) && next >= 0) onChange(next);
+      }}
+      className="w-20 px-2 py-1 border border-slate-300 rounded-lg text-sm text-right font-mono focus:outline-none focus:ring-2 focus:ring-indigo-300"
+    />
+    m
+  </label>
+);
+
+// Planned points and project boundaries to check the photos against, with
+// the tolerances and a summary of which points still need a visit
+export const ReferencePanel: React.FC<ReferencePanelProps> = ({
+  layers,
+  tolerance,
+  visits,
+  data,
+  onAddLayer,
+  onRemoveLayer,
+  onToleranceChange
+}) => {
+  const [isImporting, setIsImporting] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleFiles = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    if (files.length === 0) return;
+
+    setIsImporting(true);
+    const failed: string[] = [];
+    for (const file of files) {
+      try {
+        await onAddLayer(await importReferenceFile(file));
+      } catch (error) {
+        console.error("Reference import failed:", error);
+        failed.push(error instanceof Error ? error.message : String(error));
+      }
+    }
+    setErrors(failed);
+    setIsImporting(false);
+  };
+
+  const pointCount = layers.reduce((sum, layer) => sum + layer.points.length, 0);
+  const polygonCount = layers.reduce((sum, layer) => sum + layer.polygons.length, 0);
+  const unvisited = visits.filter(visit => visit.photoCount === 0);
+  const checked = data.filter(row => row.reference);
+  const outside = checked.filter(row => row.reference!.insideBoundary === false).length;
+
+  return (
+    <div className="bg-white shadow-sm border border-slate-200 rounded-xl overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-200 bg-slate-50 flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <Target className="text-slate-500 w-5 h-5" />
+          <h3 className="font-semibold text-slate-700">Reference Layers</h3>
+        </div>
+        <div className="flex flex-wrap items-center gap-4">
+          {layers.length > 0 && (
+            <>
+              {pointCount > 0 && <ToleranceInput label="Visited within" value={tolerance.point} onChange={point => onToleranceChange({ ...tolerance, point })} />}
+              {polygonCount > 0 && <ToleranceInput label="Boundary tolerance" value={tolerance.boundary} onChange={boundary => onToleranceChange({ ...tolerance, boundary })} />}
+            </>
+          )}
+          <button
+            onClick={() => inputRef.current?.click()}
+            disabled={isImporting}
+            className="flex items-center space-x-2 px-4 py-2 rounded-lg text-sm font-medium bg-white text-slate-700 border border-slate-300 hover:bg-slate-50 hover:text-indigo-600 hover:border-indigo-300 disabled:opacity-50 transition-colors"
+            title="GeoJSON, KML/KMZ, zipped Shapefile or CSV with latitude and longitude columns, in WGS84"
+          >
+            {isImporting ? <Loader2 size={16} className="animate-spin" /> : <Upload size={16} />}
+            <span>Import layer</span>
+          </button>
+          <input ref={inputRef} type="file" accept={REFERENCE_FILE_ACCEPT} multiple className="hidden" onChange={handleFiles} />
+        </div>
+      </div>
+
+      <div className="px-6 py-4 space-y-4 text-sm">
+        {errors.map((error, index) => (
+          <div key={index} className="flex items-start gap-2 p-3 rounded-lg bg-red-50 text-red-700 border border-red-200">
+            <AlertCircle size={16} className="mt-0.5 shrink-0" />
+            <p>{error}</p>
+          </div>
+        ))}
+
+        {layers.length === 0 ? (
+          <p className="text-slate-500">
+            Import the planned survey points or the project boundary to see how far each photo is from its point and whether it was taken inside the area.
+          </p>
+        ) : (
+          <>
+            <ul className="flex flex-wrap gap-2">
+              {layers.map(layer => (
+                <li key={layer.id} className="inline-flex items-center gap-2 pl-3 pr-1 py-1 rounded-full bg-slate-100 text-slate-700">
+                  <span className="font-medium">{layer.name}</span>
+                  <span className="text-xs text-slate-500">
+                    {[
+                      layer.points.length > 0 && `${layer.points.length} point${layer.points.length === 1 ? '' : 's'}`,
+                      layer.polygons.length > 0 && `${layer.polygons.length} area${layer.polygons.length === 1 ? '' : 's'}`
+                    ].filter(Boolean).join(', ')}
+                  </span>
+                  <button
+                    onClick={() => onRemoveLayer(layer.id)}
+                    className="p-1 rounded-full text-slate-400 hover:text-red-600 hover:bg-red-50"
+                    title="Remove layer"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            <div className="flex flex-wrap gap-x-6 gap-y-1 text-slate-600">
+              {pointCount > 0 && (
+                <span>
+                  <strong className="text-slate-800">{pointCount - unvisited.length}</strong> of {pointCount} planned points visited
+                </span>
+              )}
+              {polygonCount > 0 && (
+                <span className={outside > 0 ? 'text-red-700' : ''}>
+                  <strong>{outside}</strong> of {checked.length} located photos outside the boundary
+                </span>
+              )}
+            </div>
+
+            {unvisited.length > 0 && (
+              <div>
+                <p className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-1">Not visited yet</p>
+                <div className="max-h-48 overflow-y-auto border border-slate-200 rounded-lg">
+                  <table className="w-full text-left text-xs">
+                    <thead className="bg-slate-50 text-slate-500 sticky top-0">
+                      <tr>
+                        <th className="px-3 py-1.5 font-semibold">Point</th>
+                        <th className="px-3 py-1.5 font-semibold">Layer</th>
+                        <th className="px-3 py-1.5 font-semibold">Coordinates</th>
+                        <th className="px-3 py-1.5 font-semibold">Closest photo</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100 text-slate-700">
+                      {unvisited.map(visit => (
+                        <tr key={visit.point.id}>
+                          <td className="px-3 py-1.5 font-medium">{visit.point.name}</td>
+                          <td className="px-3 py-1.5 text-slate-500">{visit.layer}</td>
+                          <td className="px-3 py-1.5 font-mono">{visit.point.latitude.toFixed(6)}, {visit.point.longitude.toFixed(6)}</td>
+                          <td className="px-3 py-1.5 font-mono">{formatDistance(visit.nearestDistance)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,38 @@
+import React from 'react';
+import { AlertCircle, X } from 'lucide-react';
+import { RejectedFile } from '../services/inputConversion';
+
+interface RejectedFilesProps {
+  files: RejectedFile[];
+  onDismiss: () => void;
+}
+
+export const RejectedFiles: React.FC<RejectedFilesProps> = ({ files, onDismiss }) => {
+  if (files.length === 0) return null;
+
+  return (
+    <div className="bg-red-50 border border-red-200 rounded-2xl overflow-hidden">
+      <div className="px-6 py-3 flex items-center justify-between border-b border-red-200">
+        <div className="flex items-center gap-2 text-red-700">
+          <AlertCircle size={18} />
+          <h3 className="font-semibold text-sm">{files.length} file(s) could not be added</h3>
+        </div>
+        <button
+          onClick={onDismiss}
+          className="p-1 text-red-500 hover:text-red-700 hover:bg-red-100 rounded-full transition-colors"
+          title="Dismiss"
+        >
+          <X size={16} />
+        </button>
+      </div>
+      <ul className="px-6 py-3 space-y-1 max-h-48 overflow-y-auto text-sm">
+        {files.map((file, index) => (
+          <li key={`${file.name}-${index}`} className="flex gap-2">
+            <span className="font-medium text-slate-800 truncate max-w-[40%]">{file.name}</span>
+            <span className="text-red-700">{file.reason}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -1,14 +1,67 @@
-import React, { useState, useMemo } from 'react';
-import { MapPin, AlertCircle, Copy, Check, FileSpreadsheet, X, ZoomIn } from 'lucide-react';
-import { ProcessedImage } from '../types';
+import React, { useState, useMemo, useRef } from 'react';
+import { MapPin, AlertCircle, Copy, Check, FileSpreadsheet, X, ZoomIn, Loader2, RotateCcw, Download, BadgeCheck, AlertTriangle, Folder, Search, ArrowUp, ArrowDown, ArrowUpDown, Trash2, Lasso } from 'lucide-react';
+import { AuthenticityCheck, ExtraFieldDefinition, LocationEdit, LocationSource, ProcessedImage, ReferenceCheck, ResultStatus, RiskLevel } from '../types';
+import { ExportMenu } from './ExportMenu';
+import { EditableField } from './EditableField';
+import { parseDateInput, parseLatitudeInput, parseLongitudeInput, parseTimeInput } from '../services/corrections';
+import { ADDRESS_FIELDS } from '../services/reverseGeocoder';
+import { canGeotag, downloadGeotaggedCopy } from '../services/exifWriter';
+import { folderOf, getRelativePath } from '../services/sourceFiles';
+import { formatExtraValue } from '../services/extractionTemplates';
+import { formatDistance } from '../services/referenceCheck';
+import { RISK_LABELS, RISK_LEVEL_LABELS, formatRiskSignals } from '../services/authenticity';
+import { DEFAULT_SORT, EMPTY_FILTERS, ResultFilters, SortKey, SortState, filterResults, isFiltering, sortResults } from '../services/resultFilters';
 
 interface ResultsTableProps {
   data: ProcessedImage[];
+  extraFields?: ExtraFieldDefinition[]; // Template fields, shown after the built-in columns
+  onRetryFailed?: () => void;
+  onEdit?: (id: string, edit: LocationEdit) => void;
+  onReanalyze?: (id: string) => void; // Ask the model again, bypassing the result cache
+  // Checked rows, shared with the map so they can be highlighted there
+  selectedIds?: Set<string>;
+  onSelectionChange?: (ids: Set<string>) => void;
+  areaIds?: Set<string> | null; // Rows inside the area drawn on the map; null shows all
+  onClearArea?: () => void;
+  onRetry?: (ids: string[]) => void;
+  onDelete?: (ids: string[]) => void;
 }
 
+const StatusBadge: React.FC<{ item: ProcessedImage }> = ({ item }) => {
+  switch (item.status) {
+    case ResultStatus.PENDING:
+      return (
+        <span className="inline-flex items-center gap-1 text-xs font-medium text-slate-500">
+          <Loader2 size={12} className="animate-spin" />
+          Pending
+        </span>
+      );
+    case ResultStatus.FAILED:
+      return (
+        <span title={item.error} className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium bg-red-50 text-red-700 border border-red-200">
+          <AlertCircle size={12} />
+          Failed
+        </span>
+      );
+    case ResultStatus.LOW_CONFIDENCE:
+      return (
+        <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-amber-50 text-amber-700 border border-amber-200">
+          Low confidence
+        </span>
+      );
+    default:
+      return (
+        <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium bg-green-50 text-green-700 border border-green-200">
+          <Check size={12} />
+          OK
+        </span>
+      );
+  }
+};
+
 const formatCoordinate = (value: number | null, type: 'lat' | 'lng'): string => {
-  // Check for strict null/undefined or the 0 placeholder from service
-  if (value === null || value === undefined || value === 0) return '--';
+  // 0 is a real coordinate (equator / prime meridian); only null means missing
+  if (value === null || value === undefined) return '--';
 
   const absoluteValue = Math.abs(value);
   const degrees = absoluteValue.toFixed(6);
@@ -23,32 +76,300 @@ const formatCoordinate = (value: number | null, type: 'lat' | 'lng'): string =>
   return `${degrees}° ${direction}`;
 };
 
-export const ResultsTable: React.FC<ResultsTableProps> = ({ data }) => {
+const SOURCE_STYLES: Record<LocationSource, { label: string; className: string }> = {
+  exif: { label: 'EXIF', className: 'bg-sky-50 text-sky-700 border border-sky-200' },
+  watermark: { label: 'Watermark', className: 'bg-indigo-50 text-indigo-700 border border-indigo-200' },
+  estimated: { label: 'Estimated', className: 'bg-white text-amber-700 border border-dashed border-amber-400' },
+  manual: { label: 'Manual', className: 'bg-emerald-50 text-emerald-700 border border-emerald-200' }
+};
+
+const SourceBadge: React.FC<{ item: ProcessedImage }> = ({ item }) => {
+  if (!item.source) return <span className="text-sm text-slate-400">--</span>;
+  const style = SOURCE_STYLES[item.source];
+  return (
+    <div className="flex flex-col items-start gap-1">
+      <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${style.className}`}>
+        {style.label}
+      </span>
+      {item.confidence !== null && (
+        <span className="text-[10px] text-slate-400 font-mono">{Math.round(item.confidence * 100)}% conf.</span>
+      )}
+    </div>
+  );
+};
+
+const VerifiedBadge: React.FC = () => (
+  <span className="inline-flex items-center gap-1 mt-1 text-[10px] font-medium text-emerald-700" title="Corrected by hand">
+    <BadgeCheck size={12} />
+    Verified
+  </span>
+);
+
+// Village to province, the levels reports are grouped by
+const formatAdminArea = (item: ProcessedImage): string | null => {
+  if (!item.geocoded) return null;
+  const { village, district, city, province } = item.geocoded;
+  return [village, district, city, province].filter(Boolean).join(', ') || null;
+};
+
+const MismatchIcon: React.FC = () => (
+  <span title="The address does not mention the geocoded area" className="inline-flex text-amber-500">
+    <AlertTriangle size={14} />
+  </span>
+);
+
+const PointCheck: React.FC<{ check: ReferenceCheck | undefined }> = ({ check }) => {
+  if (!check || check.atPoint === null) return <span className="text-slate-400">--</span>;
+  return (
+    <div className="flex flex-col items-start">
+      <span className={`font-mono ${check.atPoint ? 'text-emerald-700' : 'text-red-600'}`}>{formatDistance(check.pointDistance)}</span>
+      <span className="text-xs text-slate-400 truncate max-w-[10rem]" title={check.nearestPoint ?? ''}>{check.nearestPoint}</span>
+    </div>
+  );
+};
+
+const BoundaryCheck: React.FC<{ check: ReferenceCheck | undefined }> = ({ check }) => {
+  if (!check || check.insideBoundary === null) return <span className="text-slate-400">--</span>;
+  const isInside = check.boundaryDistance === 0;
+  const label = isInside ? 'Inside' : check.insideBoundary ? 'At edge' : 'Outside';
+  const className = isInside
+    ? 'bg-emerald-50 text-emerald-700 border border-emerald-200'
+    : check.insideBoundary
+      ? 'bg-amber-50 text-amber-700 border border-amber-200'
+      : 'bg-red-50 text-red-700 border border-red-200';
+  return (
+    <div className="flex flex-col items-start gap-0.5" title={check.boundary ?? ''}>
+      <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${className}`}>{label}</span>
+      {!isInside && <span className="text-[10px] text-slate-400 font-mono">{formatDistance(check.boundaryDistance)} out</span>}
+    </div>
+  );
+};
+
+const RISK_STYLES: Record<RiskLevel, string> = {
+  none: 'bg-emerald-50 text-emerald-700 border border-emerald-200',
+  low: 'bg-slate-100 text-slate-600 border border-slate-200',
+  medium: 'bg-amber-50 text-amber-700 border border-amber-200',
+  high: 'bg-red-50 text-red-700 border border-red-200'
+};
+
+const RiskBadge: React.FC<{ check: AuthenticityCheck | undefined }> = ({ check }) => {
+  if (!check) return <span className="text-slate-400" title="Not checked; processed before the authenticity checks">--</span>;
+  return (
+    <div className="flex flex-col items-start gap-0.5" title={check.signals.map(signal => signal.detail).join('\n')}>
+      <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${RISK_STYLES[check.level]}`}>{RISK_LEVEL_LABELS[check.level]}</span>
+      {check.signals.length > 0 && (
+        <span className="text-[10px] text-slate-500 truncate max-w-[9rem]">{check.signals.map(signal => RISK_LABELS[signal.kind]).join(', ')}</span>
+      )}
+    </div>
+  );
+};
+
+const HEADER_CLASS = 'px-6 py-3 text-xs font-bold text-slate-500 uppercase tracking-wider';
+
+const SortHeader: React.FC<{
+  label: string;
+  sortKey: SortKey;
+  sort: SortState;
+  onSort: (key: SortKey) => void;
+  className?: string;
+  title?: string;
+}> = ({ label, sortKey, sort, onSort, className = '', title }) => {
+  const active = sort.key === sortKey;
+  const Icon = !active ? ArrowUpDown : sort.direction === 'asc' ? ArrowUp : ArrowDown;
+  return (
+    <th className={`${HEADER_CLASS} ${className}`} title={title} aria-sort={active ? (sort.direction === 'asc' ? 'ascending' : 'descending') : undefined}>
+      <button onClick={() => onSort(sortKey)} className={`inline-flex items-center gap-1 uppercase tracking-wider hover:text-indigo-600 ${active ? 'text-indigo-600' : ''}`}>
+        {label}
+        <Icon size={12} className={active ? '' : 'opacity-40'} />
+      </button>
+    </th>
+  );
+};
+
+// Rows are at least this tall (48px thumbnail plus padding); folder headings are shorter
+const ROW_HEIGHT = 73;
+const FOLDER_ROW_HEIGHT = 33;
+const VIRTUALIZE_AFTER = 150; // Rows rendered in full below this
+const OVERSCAN_PX = 600;
+
+type DisplayRow =
+  | { kind: 'folder'; folder: string }
+  | { kind: 'photo'; item: ProcessedImage; index: number };
+
+const estimatedHeight = (row: DisplayRow) => (row.kind === 'folder' ? FOLDER_ROW_HEIGHT : ROW_HEIGHT);
+
+// Renders only the rows around the visible part of the scroll container, with
+// spacer rows standing in for the rest. Heights are estimated from the minimum
+// row height, so taller rows only ever over-fill the window, never leave gaps.
+const useVirtualRows = (rows: DisplayRow[], scrollRef: React.RefObject<HTMLDivElement>) => {
+  const [viewport, setViewport] = useState({ top: 0, height: 800 });
+  const enabled = rows.length > VIRTUALIZE_AFTER;
+
+  const onScroll = () => {
+    const element = scrollRef.current;
+    if (element) setViewport({ top: element.scrollTop, height: element.clientHeight });
+  };
+
+  const offsets = useMemo(() => {
+    const result = new Array<number>(rows.length + 1);
+    result[0] = 0;
+    rows.forEach((row, index) => {
+      result[index + 1] = result[index] + estimatedHeight(row);
+    });
+    return result;
+  }, [rows]);
+
+  if (!enabled) return { start: 0, end: rows.length, before: 0, after: 0, onScroll };
+
+  const from = Math.max(0, viewport.top - OVERSCAN_PX);
+  const to = viewport.top + viewport.height + OVERSCAN_PX;
+  let start = 0;
+  while (start < rows.length && offsets[start + 1] <= from) start++;
+  let end = start;
+  while (end < rows.length && offsets[end] < to) end++;
+
+  return {
+    start,
+    end,
+    before: offsets[start],
+    after: offsets[rows.length] - offsets[end],
+    onScroll
+  };
+};
+
+const NO_SELECTION = new Set<string>();
+
+const formatOriginal = (value: string | number | null) => (value === null || value === '' ? '--' : String(value));
+
+export const ResultsTable: React.FC<ResultsTableProps> = ({
+  data,
+  extraFields = [],
+  onRetryFailed,
+  onEdit,
+  onReanalyze,
+  selectedIds = NO_SELECTION,
+  onSelectionChange,
+  areaIds = null,
+  onClearArea,
+  onRetry,
+  onDelete
+}) => {
   const [copied, setCopied] = useState(false);
-  const [selectedImage, setSelectedImage] = useState<ProcessedImage | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [sort, setSort] = useState<SortState>(DEFAULT_SORT);
+  const [filters, setFilters] = useState<ResultFilters>(EMPTY_FILTERS);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const lastCheckedRef = useRef<number | null>(null);
+
+  // Looked up from `data` so edits made in the modal show up immediately
+  const selectedImage = selectedId ? data.find(item => item.id === selectedId) ?? null : null;
 
-  const sortedData = useMemo(() => {
-    return [...data].sort((a, b) => 
-      a.fileName.localeCompare(b.fileName, undefined, { numeric: true, sensitivity: 'base' })
-    );
-  }, [data]);
+  const sortedData = useMemo(
+    () => sortResults(filterResults(data, filters, areaIds), sort),
+    [data, filters, areaIds, sort]
+  );
 
-  if (sortedData.length === 0) return null;
+  const hasFolders = useMemo(() => new Set(data.map(item => folderOf(getRelativePath(item)))).size > 1, [data]);
+  // Folder headings only make sense while rows are in path order
+  const groupByFolder = hasFolders && sort.key === 'path';
+
+  const displayRows = useMemo(() => {
+    const rows: DisplayRow[] = [];
+    sortedData.forEach((item, index) => {
+      const folder = folderOf(getRelativePath(item));
+      if (groupByFolder && (index === 0 || folderOf(getRelativePath(sortedData[index - 1])) !== folder)) {
+        rows.push({ kind: 'folder', folder });
+      }
+      rows.push({ kind: 'photo', item, index });
+    });
+    return rows;
+  }, [sortedData, groupByFolder]);
+
+  const virtual = useVirtualRows(displayRows, scrollRef);
+
+  const selectedRows = useMemo(() => data.filter(item => selectedIds.has(item.id)), [data, selectedIds]);
+  const allShownSelected = sortedData.length > 0 && sortedData.every(item => selectedIds.has(item.id));
+
+  const failedCount = useMemo(() => data.filter(item => item.status === ResultStatus.FAILED).length, [data]);
+
+  // Reference columns only appear once layers are loaded
+  const hasPointCheck = useMemo(() => data.some(item => item.reference && item.reference.atPoint !== null), [data]);
+  const hasBoundaryCheck = useMemo(() => data.some(item => item.reference && item.reference.insideBoundary !== null), [data]);
+  const hasRisk = useMemo(() => data.some(item => item.authenticity), [data]);
+  const columnCount = 11 + (hasPointCheck ? 1 : 0) + (hasBoundaryCheck ? 1 : 0) + (hasRisk ? 1 : 0) + extraFields.length;
+
+  if (data.length === 0) return null;
+
+  const updateFilters = (changes: Partial<ResultFilters>) => setFilters(prev => ({ ...prev, ...changes }));
+
+  // A second click on the active column flips the direction
+  const handleSort = (key: SortKey) =>
+    setSort(prev => (prev.key === key ? { key, direction: prev.direction === 'asc' ? 'desc' : 'asc' } : { key, direction: 'asc' }));
+
+  // Shift-click extends from the last checked row over the rows shown in between
+  const handleCheck = (index: number, shiftKey: boolean) => {
+    if (!onSelectionChange) return;
+    const next = new Set(selectedIds);
+    const check = !selectedIds.has(sortedData[index].id);
+    const last = lastCheckedRef.current;
+    const [from, to] = shiftKey && last !== null && last < sortedData.length ? [Math.min(last, index), Math.max(last, index)] : [index, index];
+    sortedData.slice(from, to + 1).forEach(item => (check ? next.add(item.id) : next.delete(item.id)));
+    lastCheckedRef.current = index;
+    onSelectionChange(next);
+  };
+
+  const handleCheckAll = () => {
+    if (!onSelectionChange) return;
+    const next = new Set(selectedIds);
+    sortedData.forEach(item => (allShownSelected ? next.delete(item.id) : next.add(item.id)));
+    onSelectionChange(next);
+  };
+
+  const handleDeleteSelected = () => {
+    if (!onDelete || selectedRows.length === 0) return;
+    if (!window.confirm(`Remove ${selectedRows.length} photo(s) and their results from this session?`)) return;
+    onDelete(selectedRows.map(item => item.id));
+  };
+
+  const retryable = selectedRows.filter(item => item.status !== ResultStatus.PENDING && item.source !== 'exif');
+
+  const isEditable = (item: ProcessedImage) => Boolean(onEdit) && item.status !== ResultStatus.PENDING;
+
+  // Builds an EditableField commit handler that rejects input the parser refuses
+  const commitWith = <T,>(item: ProcessedImage, field: keyof LocationEdit, parse: (text: string) => T | undefined) =>
+    (text: string): boolean => {
+      const value = parse(text);
+      if (value === undefined || !onEdit) return false;
+      onEdit(item.id, { [field]: value } as LocationEdit);
+      return true;
+    };
+
+  const toText = (value: number | null) => (value === null ? '' : String(value));
 
   const handleCopy = () => {
-    const headers = ['File Name', 'Address', 'Latitude', 'Longitude', 'Date', 'Time'];
+    const headers = [
+      'File Name', 'Folder', 'Address', 'Latitude', 'Longitude', 'Date', 'Time',
+      ...(hasPointCheck ? ['Nearest Point', 'Distance (m)'] : []),
+      ...(hasBoundaryCheck ? ['Inside Boundary'] : []),
+      ...(hasRisk ? ['Risk', 'Risk Signals'] : []),
+      ...extraFields.map(field => field.name)
+    ];
     const tsvRows = sortedData.map(item => {
-      const lat = formatCoordinate(item.latitude, 'lat');
-      const lng = formatCoordinate(item.longitude, 'lng');
       const cleanAddress = (item.address || '').replace(/[\t\n\r]/g, ' ').trim();
       
+      // Signed decimal degrees so spreadsheets read the coordinates as numbers
       return [
         item.fileName,
+        folderOf(getRelativePath(item)),
         cleanAddress,
-        lat === '--' ? '' : lat,
-        lng === '--' ? '' : lng,
+        item.latitude ?? '',
+        item.longitude ?? '',
         item.date || '',
-        item.time || ''
+        item.time || '',
+        ...(hasPointCheck ? [item.reference?.nearestPoint ?? '', item.reference?.pointDistance != null ? Math.round(item.reference.pointDistance) : ''] : []),
+        ...(hasBoundaryCheck ? [item.reference?.insideBoundary == null ? '' : item.reference.insideBoundary ? 'yes' : 'no'] : []),
+        ...(hasRisk ? [item.authenticity ? RISK_LEVEL_LABELS[item.authenticity.level] : '', formatRiskSignals(item.authenticity).replace(/[\t\n\r]/g, ' ')] : []),
+        ...extraFields.map(field => String(item.extra?.[field.name] ?? '').replace(/[\t\n\r]/g, ' '))
       ].join('\t');
     });
 
@@ -65,85 +386,306 @@ export const ResultsTable: React.FC<ResultsTableProps> = ({ data }) => {
       <div className="w-full bg-white shadow-sm border border-slate-200 rounded-xl overflow-hidden">
         <div className="px-6 py-4 border-b border-slate-200 flex justify-between items-center bg-slate-50">
           <h3 className="font-semibold text-slate-700">Extraction Results</h3>
-          <button
-            onClick={handleCopy}
-            className={`
-              flex items-center space-x-2 px-4 py-2 rounded-lg text-sm font-medium transition-all duration-200
-              ${copied 
-                ? 'bg-green-100 text-green-700 border border-green-200' 
-                : 'bg-white text-slate-700 border border-slate-300 hover:bg-slate-50 hover:text-indigo-600 hover:border-indigo-300'
-              }
-            `}
-          >
-            {copied ? (
-              <>
-                <Check size={16} />
-                <span>Copied for Excel</span>
-              </>
-            ) : (
-              <>
-                <FileSpreadsheet size={16} />
-                <span>Copy Table</span>
-              </>
+          <div className="flex items-center space-x-2">
+            {failedCount > 0 && onRetryFailed && (
+              <button
+                onClick={onRetryFailed}
+                className="flex items-center space-x-2 px-4 py-2 rounded-lg text-sm font-medium bg-white text-red-600 border border-red-200 hover:bg-red-50 transition-all duration-200"
+              >
+                <RotateCcw size={16} />
+                <span>Retry failed ({failedCount})</span>
+              </button>
             )}
-          </button>
+            <ExportMenu data={sortedData} extraFields={extraFields} label={sortedData.length < data.length ? `Export ${sortedData.length}` : 'Export'} />
+            <button
+              onClick={handleCopy}
+              className={`
+                flex items-center space-x-2 px-4 py-2 rounded-lg text-sm font-medium transition-all duration-200
+                ${copied 
+                  ? 'bg-green-100 text-green-700 border border-green-200' 
+                  : 'bg-white text-slate-700 border border-slate-300 hover:bg-slate-50 hover:text-indigo-600 hover:border-indigo-300'
+                }
+              `}
+            >
+              {copied ? (
+                <>
+                  <Check size={16} />
+                  <span>Copied for Excel</span>
+                </>
+              ) : (
+                <>
+                  <FileSpreadsheet size={16} />
+                  <span>Copy Table</span>
+                </>
+              )}
+            </button>
+          </div>
         </div>
         
-        <div className="overflow-x-auto">
+        <div className="px-6 py-3 border-b border-slate-200 flex flex-wrap items-center gap-3 text-sm">
+          <label className="relative flex-1 min-w-[12rem] max-w-sm">
+            <Search size={16} className="absolute left-2.5 top-1/2 -translate-y-1/2 text-slate-400" />
+            <input
+              type="search"
+              value={filters.search}
+              onChange={e => updateFilters({ search: e.target.value })}
+              placeholder="Search file, address, area, fields..."
+              className="w-full pl-8 pr-3 py-1.5 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-300"
+            />
+          </label>
+          <label className="flex items-center gap-1.5 text-slate-600">
+            <input type="checkbox" checked={filters.missingCoordinates} onChange={e => updateFilters({ missingCoordinates: e.target.checked })} className="rounded border-slate-300 text-indigo-600" />
+            No coordinates
+          </label>
+          <label className="flex items-center gap-1.5 text-slate-600">
+            <input type="checkbox" checked={filters.estimatedOnly} onChange={e => updateFilters({ estimatedOnly: e.target.checked })} className="rounded border-slate-300 text-indigo-600" />
+            Estimated only
+          </label>
+          <span className="flex items-center gap-1.5 text-slate-600">
+            Date
+            <input type="date" value={filters.dateFrom} onChange={e => updateFilters({ dateFrom: e.target.value })} className="px-2 py-1 border border-slate-300 rounded-lg text-xs" />
+            to
+            <input type="date" value={filters.dateTo} onChange={e => updateFilters({ dateTo: e.target.value })} className="px-2 py-1 border border-slate-300 rounded-lg text-xs" />
+          </span>
+          {areaIds && (
+            <span className="inline-flex items-center gap-1.5 pl-2.5 pr-1 py-1 rounded-full bg-indigo-50 text-indigo-700 text-xs font-medium">
+              <Lasso size={12} />
+              Map area ({areaIds.size})
+              {onClearArea && (
+                <button onClick={onClearArea} className="p-0.5 rounded-full hover:bg-indigo-100" title="Show rows outside the area again">
+                  <X size={12} />
+                </button>
+              )}
+            </span>
+          )}
+          {isFiltering(filters) && (
+            <button onClick={() => setFilters(EMPTY_FILTERS)} className="text-xs font-medium text-indigo-600 hover:underline">
+              Clear filters
+            </button>
+          )}
+          <span className="ml-auto text-xs text-slate-500">
+            {sortedData.length === data.length ? `${data.length} photos` : `${sortedData.length} of ${data.length} photos`}
+          </span>
+        </div>
+
+        {selectedRows.length > 0 && (
+          <div className="px-6 py-2 border-b border-indigo-100 bg-indigo-50 flex flex-wrap items-center gap-3 text-sm">
+            <span className="font-medium text-indigo-800">{selectedRows.length} selected</span>
+            <ExportMenu data={selectedRows} extraFields={extraFields} label="Export selected" />
+            {onRetry && retryable.length > 0 && (
+              <button
+                onClick={() => onRetry(retryable.map(item => item.id))}
+                className="flex items-center space-x-2 px-4 py-2 rounded-lg text-sm font-medium bg-white text-slate-700 border border-slate-300 hover:bg-slate-50 hover:text-indigo-600 hover:border-indigo-300 transition-colors"
+                title="Send the selected photos to the model again (EXIF locations are kept)"
+              >
+                <RotateCcw size={16} />
+                <span>Retry ({retryable.length})</span>
+              </button>
+            )}
+            {onDelete && (
+              <button
+                onClick={handleDeleteSelected}
+                className="flex items-center space-x-2 px-4 py-2 rounded-lg text-sm font-medium bg-white text-red-600 border border-red-200 hover:bg-red-50 transition-colors"
+              >
+                <Trash2 size={16} />
+                <span>Delete</span>
+              </button>
+            )}
+            <button onClick={() => onSelectionChange?.(new Set())} className="ml-auto text-xs font-medium text-indigo-700 hover:underline">
+              Clear selection
+            </button>
+          </div>
+        )}
+
+        <div ref={scrollRef} onScroll={virtual.onScroll} className="overflow-auto max-h-[70vh]">
           <table className="w-full text-left border-collapse">
-            <thead>
+            <thead className="sticky top-0 z-10">
               <tr className="bg-slate-50 border-b border-slate-200 text-left">
-                <th className="px-6 py-3 text-xs font-bold text-slate-500 uppercase tracking-wider w-16">#</th>
-                <th className="px-6 py-3 text-xs font-bold text-slate-500 uppercase tracking-wider w-24">Photo</th>
-                <th className="px-6 py-3 text-xs font-bold text-slate-500 uppercase tracking-wider">File Name</th>
-                <th className="px-6 py-3 text-xs font-bold text-slate-500 uppercase tracking-wider">Address</th>
-                <th className="px-6 py-3 text-xs font-bold text-slate-500 uppercase tracking-wider w-32">Latitude</th>
-                <th className="px-6 py-3 text-xs font-bold text-slate-500 uppercase tracking-wider w-32">Longitude</th>
-                <th className="px-6 py-3 text-xs font-bold text-slate-500 uppercase tracking-wider w-28">Date</th>
-                <th className="px-6 py-3 text-xs font-bold text-slate-500 uppercase tracking-wider w-24">Time</th>
+                <th className="pl-6 py-3 w-10">
+                  <input
+                    type="checkbox"
+                    checked={allShownSelected}
+                    onChange={handleCheckAll}
+                    disabled={!onSelectionChange || sortedData.length === 0}
+                    className="rounded border-slate-300 text-indigo-600"
+                    title="Select all rows shown"
+                  />
+                </th>
+                <th className={`${HEADER_CLASS} w-16`}>#</th>
+                <th className={`${HEADER_CLASS} w-24`}>Photo</th>
+                <SortHeader label="File Name" sortKey={hasFolders ? 'path' : 'fileName'} sort={sort} onSort={handleSort} />
+                <th className={`${HEADER_CLASS} w-32`}>Status</th>
+                <SortHeader label="Source" sortKey="confidence" sort={sort} onSort={handleSort} className="w-28" title="Sort by confidence" />
+                <SortHeader label="Address" sortKey="address" sort={sort} onSort={handleSort} />
+                <th className={`${HEADER_CLASS} w-32`}>Latitude</th>
+                <th className={`${HEADER_CLASS} w-32`}>Longitude</th>
+                <SortHeader label="Date" sortKey="taken" sort={sort} onSort={handleSort} className="w-28" title="Sort by date and time" />
+                <th className={`${HEADER_CLASS} w-24`}>Time</th>
+                {hasPointCheck && (
+                  <SortHeader label="Planned Point" sortKey="distance" sort={sort} onSort={handleSort} className="whitespace-nowrap" title="Distance to the nearest planned point" />
+                )}
+                {hasBoundaryCheck && (
+                  <th className={`${HEADER_CLASS} w-28`}>Boundary</th>
+                )}
+                {hasRisk && (
+                  <SortHeader label="Risk" sortKey="risk" sort={sort} onSort={handleSort} className="w-32" title="Signs that the photo may be edited, reused or not from a camera" />
+                )}
+                {extraFields.map(field => (
+                  <th key={field.name} className={`${HEADER_CLASS} whitespace-nowrap`} title={field.description}>
+                    {field.name}
+                  </th>
+                ))}
               </tr>
             </thead>
             <tbody className="divide-y divide-slate-100">
-              {sortedData.map((item, index) => (
-                <tr key={`${item.fileName}-${index}`} className="hover:bg-slate-50 transition-colors">
-                  <td className="px-6 py-3 text-sm text-slate-400 font-mono">
-                    {index + 1}
-                  </td>
-                  <td className="px-6 py-3">
-                    <button 
-                      onClick={() => setSelectedImage(item)}
-                      className="group relative h-12 w-12 rounded bg-slate-100 border border-slate-200 overflow-hidden focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2"
-                    >
-                      <img 
-                        src={item.previewUrl} 
-                        alt="" 
-                        className="h-full w-full object-cover transition-transform duration-300 group-hover:scale-110"
+              {virtual.before > 0 && <tr aria-hidden="true" style={{ height: virtual.before }} />}
+              {displayRows.slice(virtual.start, virtual.end).map(row => {
+                if (row.kind === 'folder') {
+                  return (
+                    <tr key={`folder:${row.folder}`} className="bg-slate-50/70">
+                      <td colSpan={columnCount} className="px-6 py-2 text-xs font-semibold text-slate-500">
+                        <span className="inline-flex items-center gap-1.5">
+                          <Folder size={14} />
+                          {row.folder || 'Top level'}
+                        </span>
+                      </td>
+                    </tr>
+                  );
+                }
+                const { item, index } = row;
+                const isChecked = selectedIds.has(item.id);
+                return (
+                  <tr key={item.id} className={`transition-colors ${isChecked ? 'bg-indigo-50/70 hover:bg-indigo-50' : 'hover:bg-slate-50'}`}>
+                    <td className="pl-6 py-3">
+                      <input
+                        type="checkbox"
+                        checked={isChecked}
+                        onChange={() => undefined}
+                        onClick={e => handleCheck(index, e.shiftKey)}
+                        disabled={!onSelectionChange}
+                        className="rounded border-slate-300 text-indigo-600"
+                        aria-label={`Select ${item.fileName}`}
                       />
-                      <div className="absolute inset-0 bg-black/0 group-hover:bg-black/10 transition-colors flex items-center justify-center">
-                        <ZoomIn size={16} className="text-white opacity-0 group-hover:opacity-100 drop-shadow-sm" />
+                    </td>
+                    <td className="px-6 py-3 text-sm text-slate-400 font-mono">
+                      {index + 1}
+                    </td>
+                    <td className="px-6 py-3">
+                      <button 
+                        onClick={() => setSelectedId(item.id)}
+                        className="group relative h-12 w-12 rounded bg-slate-100 border border-slate-200 overflow-hidden focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2"
+                      >
+                        <img 
+                          src={item.previewUrl} 
+                          alt="" 
+                          className="h-full w-full object-cover transition-transform duration-300 group-hover:scale-110"
+                        />
+                        <div className="absolute inset-0 bg-black/0 group-hover:bg-black/10 transition-colors flex items-center justify-center">
+                          <ZoomIn size={16} className="text-white opacity-0 group-hover:opacity-100 drop-shadow-sm" />
+                        </div>
+                      </button>
+                    </td>
+                    <td className="px-6 py-3 text-sm font-medium text-slate-900 select-all">
+                      {item.fileName}
+                    </td>
+                    <td className="px-6 py-3 whitespace-nowrap">
+                      <div className="flex flex-col items-start">
+                        <StatusBadge item={item} />
+                        {item.manuallyVerified && <VerifiedBadge />}
                       </div>
-                    </button>
-                  </td>
-                  <td className="px-6 py-3 text-sm font-medium text-slate-900 select-all">
-                    {item.fileName}
-                  </td>
-                  <td className="px-6 py-3 text-sm text-slate-700 select-all">
-                    {item.address}
-                  </td>
-                  <td className="px-6 py-3 text-sm text-slate-700 font-mono select-all whitespace-nowrap">
-                     {formatCoordinate(item.latitude, 'lat')}
-                  </td>
-                  <td className="px-6 py-3 text-sm text-slate-700 font-mono select-all whitespace-nowrap">
-                     {formatCoordinate(item.longitude, 'lng')}
-                  </td>
-                  <td className="px-6 py-3 text-sm text-slate-700 font-mono select-all whitespace-nowrap">
-                     {item.date || '--'}
-                  </td>
-                  <td className="px-6 py-3 text-sm text-slate-700 font-mono select-all whitespace-nowrap">
-                     {item.time || '--'}
+                    </td>
+                    <td className="px-6 py-3 whitespace-nowrap">
+                      <SourceBadge item={item} />
+                    </td>
+                    <td className="px-6 py-3 text-sm text-slate-700">
+                      <EditableField
+                        value={item.address || ''}
+                        display={item.status === ResultStatus.FAILED
+                          ? <span className="text-red-600">{item.error}</span>
+                          : (
+                            <>
+                              <span className="inline-flex items-start gap-1">
+                                {item.addressMismatch && <MismatchIcon />}
+                                <span>{item.address || '--'}</span>
+                              </span>
+                              {formatAdminArea(item) && (
+                                <span className="block mt-0.5 text-xs text-slate-400">{formatAdminArea(item)}</span>
+                              )}
+                            </>
+                          )}
+                        onCommit={commitWith(item, 'address', text => text)}
+                        disabled={!isEditable(item)}
+                        placeholder="Address"
+                        inputClassName="min-w-[12rem]"
+                      />
+                    </td>
+                    <td className={`px-6 py-3 text-sm font-mono whitespace-nowrap ${item.source === 'estimated' ? 'text-amber-700 italic' : 'text-slate-700'}`}>
+                      <EditableField
+                        value={toText(item.latitude)}
+                        display={formatCoordinate(item.latitude, 'lat')}
+                        onCommit={commitWith(item, 'latitude', parseLatitudeInput)}
+                        disabled={!isEditable(item)}
+                        placeholder="-6.2088"
+                      />
+                    </td>
+                    <td className={`px-6 py-3 text-sm font-mono whitespace-nowrap ${item.source === 'estimated' ? 'text-amber-700 italic' : 'text-slate-700'}`}>
+                      <EditableField
+                        value={toText(item.longitude)}
+                        display={formatCoordinate(item.longitude, 'lng')}
+                        onCommit={commitWith(item, 'longitude', parseLongitudeInput)}
+                        disabled={!isEditable(item)}
+                        placeholder="106.8456"
+                      />
+                    </td>
+                    <td className="px-6 py-3 text-sm text-slate-700 font-mono whitespace-nowrap">
+                      <EditableField
+                        value={item.date || ''}
+                        display={item.date || '--'}
+                        onCommit={commitWith(item, 'date', parseDateInput)}
+                        disabled={!isEditable(item)}
+                        placeholder="YYYY-MM-DD"
+                      />
+                    </td>
+                    <td className="px-6 py-3 text-sm text-slate-700 font-mono whitespace-nowrap">
+                      <EditableField
+                        value={item.time || ''}
+                        display={item.time || '--'}
+                        onCommit={commitWith(item, 'time', parseTimeInput)}
+                        disabled={!isEditable(item)}
+                        placeholder="HH:MM"
+                      />
+                    </td>
+                    {hasPointCheck && (
+                      <td className="px-6 py-3 text-sm whitespace-nowrap">
+                        <PointCheck check={item.reference} />
+                      </td>
+                    )}
+                    {hasBoundaryCheck && (
+                      <td className="px-6 py-3 whitespace-nowrap">
+                        <BoundaryCheck check={item.reference} />
+                      </td>
+                    )}
+                    {hasRisk && (
+                      <td className="px-6 py-3 whitespace-nowrap">
+                        <RiskBadge check={item.authenticity} />
+                      </td>
+                    )}
+                    {extraFields.map(field => (
+                      <td key={field.name} className="px-6 py-3 text-sm text-slate-700 whitespace-nowrap">
+                        {formatExtraValue(item.extra?.[field.name])}
+                      </td>
+                    ))}
+                  </tr>
+                );
+              })}
+              {virtual.after > 0 && <tr aria-hidden="true" style={{ height: virtual.after }} />}
+              {sortedData.length === 0 && (
+                <tr>
+                  <td colSpan={columnCount} className="px-6 py-8 text-center text-sm text-slate-500">
+                    No photos match the search and filters.
                   </td>
                 </tr>
-              ))}
+              )}
             </tbody>
           </table>
         </div>
@@ -153,22 +695,50 @@ export const ResultsTable: React.FC<ResultsTableProps> = ({ data }) => {
       {selectedImage && (
         <div 
           className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-in fade-in duration-200"
-          onClick={() => setSelectedImage(null)}
+          onClick={() => setSelectedId(null)}
         >
           <div 
             className="relative max-w-4xl w-full max-h-[90vh] bg-white rounded-2xl shadow-2xl overflow-hidden flex flex-col animate-in zoom-in-95 duration-200"
             onClick={e => e.stopPropagation()}
           >
             <div className="flex justify-between items-center px-6 py-4 border-b border-slate-200 bg-white z-10">
-              <h3 className="text-lg font-semibold text-slate-800 truncate pr-4">
+              <h3 className="text-lg font-semibold text-slate-800 truncate pr-4" title={getRelativePath(selectedImage)}>
                 {selectedImage.fileName}
+                {folderOf(getRelativePath(selectedImage)) && (
+                  <span className="block text-xs font-normal text-slate-400 truncate">{folderOf(getRelativePath(selectedImage))}</span>
+                )}
               </h3>
-              <button 
-                onClick={() => setSelectedImage(null)}
-                className="p-2 -mr-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-full transition-colors"
-              >
-                <X size={24} />
-              </button>
+              <div className="flex items-center gap-2">
+                {onReanalyze && selectedImage.status !== ResultStatus.PENDING && selectedImage.source !== 'exif' && (
+                  <button
+                    onClick={() => {
+                      if (selectedImage.manuallyVerified && !window.confirm("Re-analyzing replaces your manual corrections. Continue?")) return;
+                      onReanalyze(selectedImage.id);
+                    }}
+                    className="flex items-center space-x-2 px-3 py-1.5 rounded-lg text-sm font-medium bg-white text-slate-700 border border-slate-300 hover:bg-slate-50 hover:text-indigo-600 hover:border-indigo-300 transition-colors"
+                    title="Send this photo to the model again instead of using the cached result"
+                  >
+                    <RotateCcw size={16} />
+                    <span>Re-analyze</span>
+                  </button>
+                )}
+                {canGeotag(selectedImage) && (
+                  <button
+                    onClick={() => downloadGeotaggedCopy(selectedImage).catch(error => console.error("Geotag Error:", error))}
+                    className="flex items-center space-x-2 px-3 py-1.5 rounded-lg text-sm font-medium bg-white text-slate-700 border border-slate-300 hover:bg-slate-50 hover:text-indigo-600 hover:border-indigo-300 transition-colors"
+                    title="Download a copy with GPS and date written into its EXIF"
+                  >
+                    <Download size={16} />
+                    <span>Geotagged copy</span>
+                  </button>
+                )}
+                <button 
+                  onClick={() => setSelectedId(null)}
+                  className="p-2 -mr-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-full transition-colors"
+                >
+                  <X size={24} />
+                </button>
+              </div>
             </div>
             
             <div className="flex-1 overflow-auto p-6 bg-slate-100 flex items-center justify-center min-h-[300px]">
@@ -181,26 +751,176 @@ export const ResultsTable: React.FC<ResultsTableProps> = ({ data }) => {
             
             <div className="px-6 py-4 bg-white border-t border-slate-200">
               <div className="grid grid-cols-2 md:grid-cols-4 gap-6 text-sm">
-                <div className="col-span-2 md:col-span-4">
+                {selectedImage.error && (
+                  <div className="col-span-2 md:col-span-4 flex items-start gap-2 p-3 rounded-lg bg-red-50 text-red-700 border border-red-200">
+                    <AlertCircle size={16} className="mt-0.5 shrink-0" />
+                    <p>{selectedImage.error}</p>
+                  </div>
+                )}
+                <div className="col-span-2 md:col-span-3">
                   <span className="text-xs font-bold text-slate-400 uppercase tracking-wider block mb-1">Address</span>
-                  <p className="text-slate-700">{selectedImage.address}</p>
+                  <EditableField
+                    value={selectedImage.address || ''}
+                    display={<p className="text-slate-700">{selectedImage.address || '--'}</p>}
+                    onCommit={commitWith(selectedImage, 'address', text => text)}
+                    disabled={!isEditable(selectedImage)}
+                    placeholder="Address"
+                  />
+                </div>
+                <div>
+                  <span className="text-xs font-bold text-slate-400 uppercase tracking-wider block mb-1">Source</span>
+                  <SourceBadge item={selectedImage} />
+                  {selectedImage.manuallyVerified && <VerifiedBadge />}
                 </div>
                 <div>
                   <span className="text-xs font-bold text-slate-400 uppercase tracking-wider block mb-1">Latitude</span>
-                  <p className="text-slate-700 font-mono text-base">{formatCoordinate(selectedImage.latitude, 'lat')}</p>
+                  <EditableField
+                    value={toText(selectedImage.latitude)}
+                    display={<p className="text-slate-700 font-mono text-base">{formatCoordinate(selectedImage.latitude, 'lat')}</p>}
+                    onCommit={commitWith(selectedImage, 'latitude', parseLatitudeInput)}
+                    disabled={!isEditable(selectedImage)}
+                    placeholder="-6.2088"
+                  />
                 </div>
                 <div>
                   <span className="text-xs font-bold text-slate-400 uppercase tracking-wider block mb-1">Longitude</span>
-                  <p className="text-slate-700 font-mono text-base">{formatCoordinate(selectedImage.longitude, 'lng')}</p>
+                  <EditableField
+                    value={toText(selectedImage.longitude)}
+                    display={<p className="text-slate-700 font-mono text-base">{formatCoordinate(selectedImage.longitude, 'lng')}</p>}
+                    onCommit={commitWith(selectedImage, 'longitude', parseLongitudeInput)}
+                    disabled={!isEditable(selectedImage)}
+                    placeholder="106.8456"
+                  />
                 </div>
                 <div>
                   <span className="text-xs font-bold text-slate-400 uppercase tracking-wider block mb-1">Date</span>
-                  <p className="text-slate-700 font-mono text-base">{selectedImage.date || '--'}</p>
+                  <EditableField
+                    value={selectedImage.date || ''}
+                    display={<p className="text-slate-700 font-mono text-base">{selectedImage.date || '--'}</p>}
+                    onCommit={commitWith(selectedImage, 'date', parseDateInput)}
+                    disabled={!isEditable(selectedImage)}
+                    placeholder="YYYY-MM-DD"
+                  />
                 </div>
                 <div>
                   <span className="text-xs font-bold text-slate-400 uppercase tracking-wider block mb-1">Time</span>
-                  <p className="text-slate-700 font-mono text-base">{selectedImage.time || '--'}</p>
+                  <EditableField
+                    value={selectedImage.time || ''}
+                    display={<p className="text-slate-700 font-mono text-base">{selectedImage.time || '--'}</p>}
+                    onCommit={commitWith(selectedImage, 'time', parseTimeInput)}
+                    disabled={!isEditable(selectedImage)}
+                    placeholder="HH:MM"
+                  />
                 </div>
+                {selectedImage.geocoded && (
+                  <div className="col-span-2 md:col-span-4">
+                    <span className="text-xs font-bold text-slate-400 uppercase tracking-wider flex items-center gap-1 mb-1">
+                      Administrative area
+                      {selectedImage.addressMismatch && <MismatchIcon />}
+                    </span>
+                    <dl className="grid grid-cols-2 md:grid-cols-4 gap-x-6 gap-y-1 text-xs text-slate-600">
+                      {ADDRESS_FIELDS.map(field => (
+                        <div key={field.key}>
+                          <dt className="inline text-slate-400">{field.label}: </dt>
+                          <dd className="inline">{selectedImage.geocoded![field.key] || '--'}</dd>
+                        </div>
+                      ))}
+                    </dl>
+                  </div>
+                )}
+                {selectedImage.reference && (
+                  <div className="col-span-2 md:col-span-4">
+                    <span className="text-xs font-bold text-slate-400 uppercase tracking-wider block mb-1">Reference check</span>
+                    <dl className="grid grid-cols-2 md:grid-cols-4 gap-x-6 gap-y-1 text-xs text-slate-600">
+                      {selectedImage.reference.atPoint !== null && (
+                        <div className="col-span-2">
+                          <dt className="inline text-slate-400">Nearest planned point: </dt>
+                          <dd className="inline">{selectedImage.reference.nearestPoint}, {formatDistance(selectedImage.reference.pointDistance)}{selectedImage.reference.atPoint ? '' : ' (beyond tolerance)'}</dd>
+                        </div>
+                      )}
+                      {selectedImage.reference.insideBoundary !== null && (
+                        <div className="col-span-2">
+                          <dt className="inline text-slate-400">Boundary: </dt>
+                          <dd className="inline">
+                            {selectedImage.reference.boundaryDistance === 0
+                              ? `Inside ${selectedImage.reference.boundary}`
+                              : `${formatDistance(selectedImage.reference.boundaryDistance)} outside ${selectedImage.reference.boundary}${selectedImage.reference.insideBoundary ? ' (within tolerance)' : ''}`}
+                          </dd>
+                        </div>
+                      )}
+                    </dl>
+                  </div>
+                )}
+                {selectedImage.authenticity && (
+                  <div className="col-span-2 md:col-span-4">
+                    <span className="text-xs font-bold text-slate-400 uppercase tracking-wider block mb-1">Authenticity</span>
+                    <div className="flex flex-wrap items-center gap-2 mb-1">
+                      <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${RISK_STYLES[selectedImage.authenticity.level]}`}>
+                        {RISK_LEVEL_LABELS[selectedImage.authenticity.level]} risk
+                      </span>
+                      {selectedImage.authenticity.signals.length === 0 && <span className="text-xs text-slate-500">No signs of editing or reuse found</span>}
+                    </div>
+                    {selectedImage.authenticity.signals.length > 0 && (
+                      <ul className="space-y-0.5 text-xs text-slate-600 mb-1">
+                        {selectedImage.authenticity.signals.map(signal => (
+                          <li key={signal.kind}>
+                            <span className="font-medium text-slate-700">{RISK_LABELS[signal.kind]}:</span> {signal.detail}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                    {selectedImage.evidence && (
+                      <dl className="grid grid-cols-2 md:grid-cols-4 gap-x-6 gap-y-1 text-xs text-slate-600">
+                        <div>
+                          <dt className="inline text-slate-400">Camera: </dt>
+                          <dd className="inline">{[selectedImage.evidence.make, selectedImage.evidence.model].filter(Boolean).join(' ') || '--'}</dd>
+                        </div>
+                        <div>
+                          <dt className="inline text-slate-400">Software: </dt>
+                          <dd className="inline">{selectedImage.evidence.software || '--'}</dd>
+                        </div>
+                        <div>
+                          <dt className="inline text-slate-400">Size: </dt>
+                          <dd className="inline">{selectedImage.evidence.width && selectedImage.evidence.height ? `${selectedImage.evidence.width}×${selectedImage.evidence.height}` : '--'}</dd>
+                        </div>
+                        <div>
+                          <dt className="inline text-slate-400">Camera GPS: </dt>
+                          <dd className="inline font-mono">
+                            {selectedImage.evidence.gpsLatitude !== null && selectedImage.evidence.gpsLongitude !== null
+                              ? `${selectedImage.evidence.gpsLatitude.toFixed(6)}, ${selectedImage.evidence.gpsLongitude.toFixed(6)}`
+                              : '--'}
+                          </dd>
+                        </div>
+                      </dl>
+                    )}
+                  </div>
+                )}
+                {extraFields.length > 0 && (
+                  <div className="col-span-2 md:col-span-4">
+                    <span className="text-xs font-bold text-slate-400 uppercase tracking-wider block mb-1">Template fields</span>
+                    <dl className="grid grid-cols-2 md:grid-cols-4 gap-x-6 gap-y-1 text-xs text-slate-600">
+                      {extraFields.map(field => (
+                        <div key={field.name}>
+                          <dt className="inline text-slate-400">{field.name}: </dt>
+                          <dd className="inline">{formatExtraValue(selectedImage.extra?.[field.name])}</dd>
+                        </div>
+                      ))}
+                    </dl>
+                  </div>
+                )}
+                {selectedImage.originalValues && (
+                  <div className="col-span-2 md:col-span-4 p-3 rounded-lg bg-slate-50 border border-slate-200">
+                    <span className="text-xs font-bold text-slate-400 uppercase tracking-wider block mb-2">Original values (before manual correction)</span>
+                    <dl className="grid grid-cols-2 md:grid-cols-4 gap-x-6 gap-y-1 text-xs text-slate-600">
+                      <div className="col-span-2 md:col-span-4"><dt className="inline text-slate-400">Address: </dt><dd className="inline">{formatOriginal(selectedImage.originalValues.address)}</dd></div>
+                      <div><dt className="inline text-slate-400">Lat: </dt><dd className="inline font-mono">{formatOriginal(selectedImage.originalValues.latitude)}</dd></div>
+                      <div><dt className="inline text-slate-400">Lng: </dt><dd className="inline font-mono">{formatOriginal(selectedImage.originalValues.longitude)}</dd></div>
+                      <div><dt className="inline text-slate-400">Date: </dt><dd className="inline font-mono">{formatOriginal(selectedImage.originalValues.date)}</dd></div>
+                      <div><dt className="inline text-slate-400">Time: </dt><dd className="inline font-mono">{formatOriginal(selectedImage.originalValues.time)}</dd></div>
+                      <div className="col-span-2 md:col-span-4"><dt className="inline text-slate-400">Source: </dt><dd className="inline">{selectedImage.originalValues.source ? SOURCE_STYLES[selectedImage.originalValues.source].label : '--'}</dd></div>
+                    </dl>
+                  </div>
+                )}
               </div>
             </div>
           </div>
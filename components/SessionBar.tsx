@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { FolderOpen, Plus, Trash2, Pencil, Check } from 'lucide-react';
+import { Session, SessionSummary } from '../services/storageService';
+
+interface SessionBarProps {
+  sessions: SessionSummary[];
+  currentSession: Session | null;
+  disabled?: boolean;
+  onOpen: (id: string) => void;
+  onCreate: () => void;
+  onRename: (name: string) => void;
+  onDelete: () => void;
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric' });
+
+export const SessionBar: React.FC<SessionBarProps> = ({
+  sessions,
+  currentSession,
+  disabled,
+  onOpen,
+  onCreate,
+  onRename,
+  onDelete
+}) => {
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [draftName, setDraftName] = useState('');
+
+  const startRename = () => {
+    if (!currentSession) return;
+    setDraftName(currentSession.name);
+    setIsRenaming(true);
+  };
+
+  const commitRename = () => {
+    const name = draftName.trim();
+    if (name && name !== currentSession?.name) onRename(name);
+    setIsRenaming(false);
+  };
+
+  const handleDelete = () => {
+    if (!currentSession) return;
+    if (window.confirm(`Delete session "${currentSession.name}" and all of its photos?`)) {
+      onDelete();
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl px-6 py-4 shadow-sm border border-slate-200 flex flex-wrap items-center gap-3">
+      <FolderOpen className="text-slate-500 w-5 h-5 shrink-0" />
+
+      {isRenaming ? (
+        <div className="flex items-center gap-2">
+          <input
+            autoFocus
+            value={draftName}
+            onChange={e => setDraftName(e.target.value)}
+            onKeyDown={e => {
+              if (e.key === 'Enter') commitRename();
+              if (e.key === 'Escape') setIsRenaming(false);
+            }}
+            className="px-3 py-1.5 text-sm border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+          <button
+            onClick={commitRename}
+            className="p-1.5 text-slate-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors"
+            title="Save name"
+          >
+            <Check size={16} />
+          </button>
+        </div>
+      ) : (
+        <select
+          value={currentSession?.id ?? ''}
+          onChange={e => onOpen(e.target.value)}
+          disabled={disabled || sessions.length === 0}
+          className="min-w-[220px] px-3 py-1.5 text-sm text-slate-700 bg-white border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-50"
+        >
+          {!currentSession && <option value="">No session yet</option>}
+          {sessions.map(session => (
+            <option key={session.id} value={session.id}>
+              {session.name} ({session.imageCount} photos, {formatDate(session.updatedAt)})
+            </option>
+          ))}
+        </select>
+      )}
+
+      <div className="flex items-center gap-1 ml-auto">
+        {currentSession && !isRenaming && (
+          <button
+            onClick={startRename}
+            disabled={disabled}
+            className="p-2 text-slate-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors disabled:opacity-50"
+            title="Rename session"
+          >
+            <Pencil size={16} />
+          </button>
+        )}
+        {currentSession && (
+          <button
+            onClick={handleDelete}
+            disabled={disabled}
+            className="p-2 text-slate-500 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-50"
+            title="Delete session"
+          >
+            <Trash2 size={16} />
+          </button>
+        )}
+        <button
+          onClick={onCreate}
+          disabled={disabled}
+          className="flex items-center space-x-2 px-3 py-1.5 rounded-lg text-sm font-medium bg-white text-slate-700 border border-slate-300 hover:bg-slate-50 hover:text-indigo-600 hover:border-indigo-300 transition-colors disabled:opacity-50"
+        >
+          <Plus size={16} />
+          <span>New Session</span>
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,243 @@
+import React, { useState } from 'react';
+import { X, Eye, EyeOff, Loader2, CheckCircle2, AlertCircle } from 'lucide-react';
+import { AppSettings, GeminiConnection, SETTINGS_LIMITS } from '../services/settingsService';
+import { GEMINI_MODELS } from '../services/geminiRequest';
+import { testGeminiConnection } from '../services/geminiService';
+
+interface SettingsPanelProps {
+  settings: AppSettings;
+  providerLabel: string;
+  usesGemini: boolean; // Connection and model only apply to the Gemini provider
+  onSave: (settings: AppSettings) => void;
+  onClose: () => void;
+}
+
+type TestState = { status: 'idle' | 'testing' | 'ok' } | { status: 'failed'; message: string };
+
+const CONNECTIONS: { id: GeminiConnection; label: string; hint: string }[] = [
+  { id: 'direct', label: 'My own API key', hint: 'Photos go straight from this browser to Google.' },
+  { id: 'proxy', label: 'Team server', hint: 'Photos go through your team\'s extraction server, which holds the key.' }
+];
+
+const inputClass = 'mt-1 w-full px-3 py-2 border border-slate-300 rounded-lg text-slate-800 bg-white focus:outline-none focus:ring-2 focus:ring-indigo-300';
+
+// Edits a copy of the settings; nothing changes until "Save"
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, providerLabel, usesGemini, onSave, onClose }) => {
+  const [draft, setDraft] = useState<AppSettings>(settings);
+  const [showKey, setShowKey] = useState(false);
+  const [test, setTest] = useState<TestState>({ status: 'idle' });
+
+  const update = (changes: Partial<AppSettings>) => {
+    setDraft(prev => ({ ...prev, ...changes }));
+    if (changes.temperature === undefined && changes.maxImagesPerBatch === undefined && changes.concurrency === undefined) {
+      setTest({ status: 'idle' });
+    }
+  };
+
+  const handleTest = async () => {
+    setTest({ status: 'testing' });
+    const failure = await testGeminiConnection({ ...draft, apiKey: draft.apiKey.trim(), proxyToken: draft.proxyToken.trim() });
+    setTest(failure ? { status: 'failed', message: failure } : { status: 'ok' });
+  };
+
+  // A model typed into .env.local that is not in the list still shows up
+  const models = GEMINI_MODELS.some(model => model.id === draft.model)
+    ? GEMINI_MODELS
+    : [...GEMINI_MODELS, { id: draft.model, label: draft.model }];
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm"
+      onClick={onClose}
+    >
+      <div
+        className="relative max-w-lg w-full max-h-[90vh] bg-white rounded-2xl shadow-2xl overflow-hidden flex flex-col"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center px-6 py-4 border-b border-slate-200">
+          <h3 className="text-lg font-semibold text-slate-800">Settings</h3>
+          <button
+            onClick={onClose}
+            className="p-2 -mr-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-full transition-colors"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-5 text-sm">
+          {!usesGemini && (
+            <p className="px-3 py-2 rounded-lg bg-slate-50 border border-slate-200 text-slate-500">
+              This build uses the {providerLabel} provider, so the Gemini connection and model below are not used. An API key, if set, is sent to that endpoint.
+            </p>
+          )}
+
+          <div className="grid grid-cols-2 gap-2">
+            {CONNECTIONS.map(connection => (
+              <button
+                key={connection.id}
+                type="button"
+                onClick={() => update({ connection: connection.id })}
+                className={`text-left px-3 py-2 rounded-lg border ${draft.connection === connection.id ? 'border-indigo-400 bg-indigo-50 ring-1 ring-indigo-300' : 'border-slate-300 hover:bg-slate-50'}`}
+              >
+                <span className="block font-medium text-slate-800">{connection.label}</span>
+                <span className="block text-xs text-slate-500">{connection.hint}</span>
+              </button>
+            ))}
+          </div>
+
+          {draft.connection === 'proxy' ? (
+            <div className="space-y-4">
+              <label className="block text-slate-600">
+                Server URL
+                <input
+                  value={draft.proxyUrl}
+                  onChange={e => update({ proxyUrl: e.target.value })}
+                  placeholder="/api/extract"
+                  spellCheck={false}
+                  className={`${inputClass} font-mono`}
+                />
+              </label>
+              <label className="block text-slate-600">
+                Access token
+                <input
+                  type="password"
+                  value={draft.proxyToken}
+                  onChange={e => update({ proxyToken: e.target.value })}
+                  placeholder="Token from your administrator"
+                  autoComplete="off"
+                  spellCheck={false}
+                  className={`${inputClass} font-mono`}
+                />
+              </label>
+              <label className="block text-slate-600">
+                Your name <span className="text-slate-400">(only for a shared team token)</span>
+                <input
+                  value={draft.proxyUser}
+                  onChange={e => update({ proxyUser: e.target.value })}
+                  placeholder="Used for quotas and the server log"
+                  className={inputClass}
+                />
+              </label>
+            </div>
+          ) : (
+            <div>
+              <label className="block text-slate-600">
+                {usesGemini ? 'Gemini API key' : 'API key'}
+                <div className="relative">
+                  <input
+                    type={showKey ? 'text' : 'password'}
+                    value={draft.apiKey}
+                    onChange={e => update({ apiKey: e.target.value })}
+                    placeholder="Paste your key"
+                    autoComplete="off"
+                    spellCheck={false}
+                    className={`${inputClass} pr-10 font-mono`}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setShowKey(value => !value)}
+                    className="absolute right-2 top-1/2 -translate-y-1/2 mt-0.5 p-1 text-slate-400 hover:text-slate-600"
+                    title={showKey ? 'Hide key' : 'Show key'}
+                  >
+                    {showKey ? <EyeOff size={16} /> : <Eye size={16} />}
+                  </button>
+                </div>
+              </label>
+              <p className="mt-1 text-xs text-slate-400">
+                Stored only in this browser and sent only to {usesGemini ? 'Google' : 'the extraction endpoint'}.{' '}
+                {usesGemini && (
+                  <a href="https://aistudio.google.com/apikey" target="_blank" rel="noreferrer" className="text-indigo-600 hover:underline">
+                    Get a key
+                  </a>
+                )}
+              </p>
+            </div>
+          )}
+
+          <label className="block text-slate-600">
+            Model
+            <select value={draft.model} onChange={e => update({ model: e.target.value })} className={inputClass}>
+              {models.map(model => (
+                <option key={model.id} value={model.id}>{model.label}</option>
+              ))}
+            </select>
+          </label>
+
+          <div className="flex items-center gap-3">
+            <button
+              onClick={handleTest}
+              disabled={test.status === 'testing'}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-slate-600 border border-slate-300 hover:bg-slate-50 disabled:opacity-50"
+            >
+              {test.status === 'testing' && <Loader2 size={14} className="animate-spin" />}
+              Test connection
+            </button>
+            {test.status === 'ok' && (
+              <span className="flex items-center gap-1 text-green-700"><CheckCircle2 size={14} /> Key and model work</span>
+            )}
+            {test.status === 'failed' && (
+              <span className="flex items-start gap-1 text-red-600 break-words min-w-0"><AlertCircle size={14} className="shrink-0 mt-0.5" /> {test.message}</span>
+            )}
+          </div>
+
+          <label className="block text-slate-600">
+            Temperature: {draft.temperature.toFixed(1)}
+            <input
+              type="range"
+              min={SETTINGS_LIMITS.temperature.min}
+              max={SETTINGS_LIMITS.temperature.max}
+              step={0.1}
+              value={draft.temperature}
+              onChange={e => update({ temperature: Number(e.target.value) })}
+              className="mt-2 w-full accent-indigo-600"
+            />
+            <span className="text-xs text-slate-400">Lower values keep answers factual; 0.2 works well for reading stamps.</span>
+          </label>
+
+          <div className="grid grid-cols-2 gap-4">
+            <label className="block text-slate-600">
+              Photos per batch
+              <input
+                type="number"
+                min={SETTINGS_LIMITS.maxImagesPerBatch.min}
+                max={SETTINGS_LIMITS.maxImagesPerBatch.max}
+                value={draft.maxImagesPerBatch}
+                onChange={e => update({ maxImagesPerBatch: Number(e.target.value) })}
+                className={inputClass}
+              />
+            </label>
+            <label className="block text-slate-600">
+              Parallel requests
+              <input
+                type="number"
+                min={SETTINGS_LIMITS.concurrency.min}
+                max={SETTINGS_LIMITS.concurrency.max}
+                value={draft.concurrency}
+                onChange={e => update({ concurrency: Number(e.target.value) })}
+                className={inputClass}
+              />
+            </label>
+          </div>
+          <p className="text-xs text-slate-400">
+            Smaller batches give more reliable per-photo answers; more parallel requests finish sooner but hit rate limits earlier.
+          </p>
+        </div>
+
+        <div className="px-6 py-4 border-t border-slate-200 bg-slate-50 flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 rounded-lg text-sm font-medium text-slate-600 hover:bg-slate-100"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onSave(draft)}
+            className="px-4 py-2 rounded-lg text-sm font-medium bg-indigo-600 text-white hover:bg-indigo-700"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,194 @@
+import React, { useState } from 'react';
+import { Plus, Trash2, X, Copy } from 'lucide-react';
+import { ExtraFieldDefinition, ExtraFieldType, ExtractionTemplate } from '../types';
+import {
+  DEFAULT_TEMPLATE_ID,
+  EXTRA_FIELD_TYPES,
+  createTemplateId,
+  isTemplateValid,
+  validateFieldName
+} from '../services/extractionTemplates';
+
+interface TemplateEditorProps {
+  templates: ExtractionTemplate[];
+  initialId: string;
+  onSave: (templates: ExtractionTemplate[], selectedId: string) => void;
+  onClose: () => void;
+}
+
+// Edits a copy of the templates; nothing changes until "Save"
+export const TemplateEditor: React.FC<TemplateEditorProps> = ({ templates, initialId, onSave, onClose }) => {
+  const [drafts, setDrafts] = useState<ExtractionTemplate[]>(templates);
+  const [selectedId, setSelectedId] = useState(initialId);
+
+  const selected = drafts.find(template => template.id === selectedId) ?? drafts[0];
+  const isDefault = selected.id === DEFAULT_TEMPLATE_ID;
+  const allValid = drafts.every(isTemplateValid);
+
+  const updateSelected = (changes: Partial<ExtractionTemplate>) =>
+    setDrafts(prev => prev.map(template => (template.id === selected.id ? { ...template, ...changes } : template)));
+
+  const updateField = (index: number, changes: Partial<ExtraFieldDefinition>) =>
+    updateSelected({ fields: selected.fields.map((field, other) => (other === index ? { ...field, ...changes } : field)) });
+
+  const addTemplate = (source?: ExtractionTemplate) => {
+    const template: ExtractionTemplate = source
+      ? { id: createTemplateId(), name: `${source.name} (copy)`, fields: source.fields.map(field => ({ ...field })) }
+      : { id: createTemplateId(), name: 'New template', fields: [] };
+    setDrafts(prev => [...prev, template]);
+    setSelectedId(template.id);
+  };
+
+  const deleteSelected = () => {
+    if (isDefault) return;
+    setDrafts(prev => prev.filter(template => template.id !== selected.id));
+    setSelectedId(DEFAULT_TEMPLATE_ID);
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm"
+      onClick={onClose}
+    >
+      <div
+        className="relative max-w-4xl w-full max-h-[90vh] bg-white rounded-2xl shadow-2xl overflow-hidden flex flex-col"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center px-6 py-4 border-b border-slate-200">
+          <h3 className="text-lg font-semibold text-slate-800">Extraction templates</h3>
+          <button
+            onClick={onClose}
+            className="p-2 -mr-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-full transition-colors"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto flex flex-col md:flex-row">
+          <div className="md:w-56 shrink-0 border-b md:border-b-0 md:border-r border-slate-200 p-3 space-y-1">
+            {drafts.map(template => (
+              <button
+                key={template.id}
+                onClick={() => setSelectedId(template.id)}
+                className={`w-full text-left px-3 py-2 rounded-lg text-sm truncate ${template.id === selected.id ? 'bg-indigo-50 text-indigo-700 font-medium' : 'text-slate-700 hover:bg-slate-50'} ${isTemplateValid(template) ? '' : 'text-red-600'}`}
+              >
+                {template.name || 'Untitled'}
+                <span className="ml-1 text-xs text-slate-400">({template.fields.length})</span>
+              </button>
+            ))}
+            <button
+              onClick={() => addTemplate()}
+              className="w-full flex items-center gap-2 px-3 py-2 rounded-lg text-sm text-indigo-600 hover:bg-indigo-50"
+            >
+              <Plus size={14} /> New template
+            </button>
+          </div>
+
+          <div className="flex-1 p-6 space-y-5">
+            <div className="flex items-end gap-3">
+              <label className="flex-1 text-sm text-slate-600">
+                Name
+                <input
+                  value={selected.name}
+                  onChange={e => updateSelected({ name: e.target.value })}
+                  className="mt-1 w-full px-3 py-2 border border-slate-300 rounded-lg text-slate-800 focus:outline-none focus:ring-2 focus:ring-indigo-300"
+                />
+              </label>
+              <button
+                onClick={() => addTemplate(selected)}
+                className="flex items-center gap-1.5 px-3 py-2 rounded-lg text-sm text-slate-600 border border-slate-300 hover:bg-slate-50"
+                title="Duplicate this template"
+              >
+                <Copy size={14} /> Duplicate
+              </button>
+              {!isDefault && (
+                <button
+                  onClick={deleteSelected}
+                  className="flex items-center gap-1.5 px-3 py-2 rounded-lg text-sm text-red-600 border border-red-200 hover:bg-red-50"
+                >
+                  <Trash2 size={14} /> Delete
+                </button>
+              )}
+            </div>
+
+            <div>
+              <p className="text-sm text-slate-500 mb-3">
+                Address, coordinates, date and time are always extracted. Fields added here are read from the same photo,
+                shown as extra columns in the results and included in CSV, Excel and GeoJSON exports.
+              </p>
+              {selected.fields.length === 0 ? (
+                <p className="text-sm text-slate-400 italic">No extra fields.</p>
+              ) : (
+                <div className="space-y-3">
+                  {selected.fields.map((field, index) => {
+                    const nameError = validateFieldName(
+                      field.name,
+                      selected.fields.filter((_, other) => other !== index).map(other => other.name)
+                    );
+                    return (
+                      <div key={index} className="flex flex-wrap md:flex-nowrap items-start gap-2">
+                        <div className="w-full md:w-44">
+                          <input
+                            value={field.name}
+                            onChange={e => updateField(index, { name: e.target.value.trim() })}
+                            placeholder="fieldName"
+                            className={`w-full px-2 py-1.5 border rounded-lg text-sm font-mono focus:outline-none focus:ring-2 ${nameError ? 'border-red-400 focus:ring-red-200' : 'border-slate-300 focus:ring-indigo-300'}`}
+                          />
+                          {nameError && <p className="mt-1 text-xs text-red-600">{nameError}</p>}
+                        </div>
+                        <select
+                          value={field.type}
+                          onChange={e => updateField(index, { type: e.target.value as ExtraFieldType })}
+                          className="px-2 py-1.5 border border-slate-300 rounded-lg text-sm bg-white focus:outline-none focus:ring-2 focus:ring-indigo-300"
+                        >
+                          {EXTRA_FIELD_TYPES.map(type => (
+                            <option key={type.id} value={type.id}>{type.label}</option>
+                          ))}
+                        </select>
+                        <input
+                          value={field.description}
+                          onChange={e => updateField(index, { description: e.target.value })}
+                          placeholder="What the model should look for"
+                          className="flex-1 min-w-[12rem] px-2 py-1.5 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-300"
+                        />
+                        <button
+                          onClick={() => updateSelected({ fields: selected.fields.filter((_, other) => other !== index) })}
+                          className="p-2 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-lg"
+                          title="Remove field"
+                        >
+                          <Trash2 size={14} />
+                        </button>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+              <button
+                onClick={() => updateSelected({ fields: [...selected.fields, { name: '', type: 'text', description: '' }] })}
+                className="mt-3 flex items-center gap-1.5 text-sm font-medium text-indigo-600 hover:text-indigo-700"
+              >
+                <Plus size={14} /> Add field
+              </button>
+            </div>
+          </div>
+        </div>
+
+        <div className="px-6 py-4 border-t border-slate-200 bg-slate-50 flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 rounded-lg text-sm font-medium text-slate-600 hover:bg-slate-100"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onSave(drafts, selected.id)}
+            disabled={!allValid}
+            className="px-4 py-2 rounded-lg text-sm font-medium bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50"
+          >
+            Save and use "{selected.name || 'Untitled'}"
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,61 @@
+import React, { useState } from 'react';
+import { ListChecks, Settings2 } from 'lucide-react';
+import { ExtractionTemplate } from '../types';
+import { TemplateEditor } from './TemplateEditor';
+
+interface TemplateSelectorProps {
+  templates: ExtractionTemplate[];
+  activeId: string;
+  disabled?: boolean;
+  onSelect: (id: string) => void;
+  onSave: (templates: ExtractionTemplate[], selectedId: string) => void;
+}
+
+export const TemplateSelector: React.FC<TemplateSelectorProps> = ({ templates, activeId, disabled, onSelect, onSave }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const active = templates.find(template => template.id === activeId);
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 text-sm">
+      <ListChecks className="text-slate-500 w-5 h-5 shrink-0" />
+      <label className="flex items-center gap-2 text-slate-600">
+        Extract
+        <select
+          value={activeId}
+          onChange={e => onSelect(e.target.value)}
+          disabled={disabled}
+          className="px-2 py-1.5 border border-slate-300 rounded-lg bg-white text-slate-700 focus:outline-none focus:ring-2 focus:ring-indigo-300 disabled:opacity-50"
+        >
+          {templates.map(template => (
+            <option key={template.id} value={template.id}>{template.name}</option>
+          ))}
+        </select>
+      </label>
+      {active && active.fields.length > 0 && (
+        <span className="text-xs text-slate-400 truncate max-w-md">
+          + {active.fields.map(field => field.name).join(', ')}
+        </span>
+      )}
+      <button
+        onClick={() => setIsEditing(true)}
+        disabled={disabled}
+        className="ml-auto flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-slate-600 border border-slate-300 hover:bg-slate-50 hover:text-indigo-600 disabled:opacity-50 transition-colors"
+      >
+        <Settings2 size={14} />
+        Edit templates
+      </button>
+
+      {isEditing && (
+        <TemplateEditor
+          templates={templates}
+          initialId={activeId}
+          onSave={(next, selectedId) => {
+            onSave(next, selectedId);
+            setIsEditing(false);
+          }}
+          onClose={() => setIsEditing(false)}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,417 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { CalendarClock, ZoomOut, Flag } from 'lucide-react';
+import { TimelineSettings, TimeZoneSetting } from '../types';
+import {
+  ANOMALY_LABELS,
+  AnomalyKind,
+  FIXED_ZONES,
+  Timeline as TimelineData,
+  TimelineEntry,
+  axisOffset,
+  formatInstant,
+  formatOffset
+} from '../services/timeline';
+
+interface TimelineProps {
+  timeline: TimelineData;
+  settings: TimelineSettings;
+  onSettingsChange: (settings: TimelineSettings) => void;
+  selectedIds: Set<string>; // Shared with the table and the map
+  onSelectionChange: (ids: Set<string>) => void;
+  onFocus: (id: string) => void; // Centres the map on the photo
+}
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+const TICK_STEPS = [MINUTE, 5 * MINUTE, 15 * MINUTE, 30 * MINUTE, HOUR, 3 * HOUR, 6 * HOUR, 12 * HOUR, DAY, 2 * DAY, 7 * DAY, 30 * DAY, 91 * DAY, 365 * DAY];
+const TICK_SPACING = 110; // Minimum pixels between axis labels
+
+const PLOT_HEIGHT = 150;
+const AXIS_Y = 112;
+const MARGIN_X = 16;
+const DOT_RADIUS = 5;
+const LANE_HEIGHT = 12;
+const LANE_COUNT = 7;
+
+// Kinds that mark the photo itself; gaps are drawn as bands between photos
+const DOT_KINDS: AnomalyKind[] = ['speed', 'future', 'clock'];
+
+const KIND_STYLES: Record<AnomalyKind, string> = {
+  speed: 'bg-red-50 text-red-700 border-red-200',
+  future: 'bg-fuchsia-50 text-fuchsia-700 border-fuchsia-200',
+  clock: 'bg-orange-50 text-orange-700 border-orange-200',
+  gap: 'bg-slate-100 text-slate-600 border-slate-300'
+};
+
+const zoneValue = (zone: TimeZoneSetting) => String(zone);
+const parseZone = (value: string): TimeZoneSetting => (value === 'auto' || value === 'device' ? value : Number(value));
+
+const SettingInput: React.FC<{ label: string; unit: string; value: number; title: string; onChange: (value: number) => void }> = ({ label, unit, value, title, onChange }) => (
+  <label className="flex items-center gap-2 text-sm text-slate-600" title={title}>
+    {label}
+    <input
+      type="number"
+      min={0}
+      value={value}
+      onChange={e => {
+        const next = Number(e.target.value);
+        if (Number.isFinite(next) && next >= 0) onChange(next);
+      }}
+      className="w-16 px-2 py-1 border border-slate-300 rounded-lg text-sm text-right font-mono focus:outline-none focus:ring-2 focus:ring-indigo-300"
+    />
+    {unit}
+  </label>
+);
+
+// Callback ref, as the plot only mounts once some photo has a date
+const useElementWidth = () => {
+  const [element, setElement] = useState<HTMLDivElement | null>(null);
+  const [width, setWidth] = useState(0);
+  useEffect(() => {
+    if (!element) return;
+    setWidth(element.clientWidth);
+    const observer = new ResizeObserver(() => setWidth(element.clientWidth));
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [element]);
+  return [setElement, width] as const;
+};
+
+// Ticks on round times of the axis zone, far enough apart for their labels
+const buildTicks = (start: number, end: number, width: number, offset: number) => {
+  const maxTicks = Math.max(2, Math.floor(width / TICK_SPACING));
+  const step = TICK_STEPS.find(candidate => (end - start) / candidate <= maxTicks) ?? TICK_STEPS[TICK_STEPS.length - 1];
+  const shift = offset * MINUTE;
+  const ticks: { at: number; time: string; date: string | null }[] = [];
+  let previousDate = '';
+  for (let at = Math.ceil((start + shift) / step) * step - shift; at <= end; at += step) {
+    const [date, time] = formatInstant(at, offset).split(' ');
+    ticks.push({ at, time: step < DAY ? time : date, date: step < DAY && date !== previousDate ? date : null });
+    previousDate = date;
+  }
+  return ticks;
+};
+
+// Photos along a time axis, with the checks for impossible travel, future
+// timestamps, stamps that disagree with the camera clock and long gaps
+export const Timeline: React.FC<TimelineProps> = ({ timeline, settings, onSettingsChange, selectedIds, onSelectionChange, onFocus }) => {
+  const { entries, anomalies, undatedCount } = timeline;
+  const [zoom, setZoom] = useState<[number, number] | null>(null);
+  const [brush, setBrush] = useState<{ from: number; to: number } | null>(null);
+  const [kindFilter, setKindFilter] = useState<AnomalyKind | null>(null);
+  const [containerRef, width] = useElementWidth();
+
+  const offset = axisOffset(entries, settings.timeZone);
+  const entryById = useMemo(() => new Map(entries.map((entry, index) => [entry.row.id, { entry, index }])), [entries]);
+  const flaggedKinds = useMemo(() => {
+    const kinds = new Map<string, AnomalyKind[]>();
+    anomalies.forEach(anomaly => kinds.set(anomaly.id, [...(kinds.get(anomaly.id) ?? []), anomaly.kind]));
+    return kinds;
+  }, [anomalies]);
+
+  // The whole span with a little room on both sides; an hour each way for a single moment
+  const [fullStart, fullEnd] = useMemo(() => {
+    if (entries.length === 0) return [0, 0];
+    const first = entries[0].instant;
+    const last = entries[entries.length - 1].instant;
+    const padding = last === first ? HOUR : (last - first) * 0.02;
+    return [first - padding, last + padding];
+  }, [entries]);
+  const [start, end] = zoom ?? [fullStart, fullEnd];
+  const plotWidth = Math.max(0, width - 2 * MARGIN_X);
+  const toX = (instant: number) => MARGIN_X + ((instant - start) / (end - start)) * plotWidth;
+  const toInstant = (x: number) => start + ((x - MARGIN_X) / plotWidth) * (end - start);
+
+  // Dots stacked upwards from the axis wherever they would overlap
+  const dots = useMemo(() => {
+    const laneEnds = new Array<number>(LANE_COUNT).fill(-Infinity);
+    return entries
+      .filter(entry => entry.instant >= start && entry.instant <= end)
+      .map(entry => {
+        const x = MARGIN_X + ((entry.instant - start) / (end - start)) * plotWidth;
+        let lane = laneEnds.findIndex(laneEnd => laneEnd < x - 2 * DOT_RADIUS - 1);
+        if (lane === -1) lane = laneEnds.indexOf(Math.min(...laneEnds));
+        laneEnds[lane] = x;
+        return { entry, x, y: AXIS_Y - 10 - lane * LANE_HEIGHT };
+      });
+  }, [entries, start, end, plotWidth]);
+  const dotById = new Map(dots.map(dot => [dot.entry.row.id, dot]));
+
+  const ticks = plotWidth > 0 && entries.length > 0 ? buildTicks(start, end, plotWidth, offset) : [];
+  const now = Date.now();
+
+  const visibleAnomalies = anomalies
+    .filter(anomaly => !kindFilter || anomaly.kind === kindFilter)
+    .sort((a, b) => (entryById.get(a.id)?.index ?? -1) - (entryById.get(b.id)?.index ?? -1));
+  const kindCounts = anomalies.reduce<Partial<Record<AnomalyKind, number>>>((counts, anomaly) => {
+    counts[anomaly.kind] = (counts[anomaly.kind] ?? 0) + 1;
+    return counts;
+  }, {});
+
+  const handleDotClick = (event: React.MouseEvent, entry: TimelineEntry) => {
+    event.stopPropagation();
+    const id = entry.row.id;
+    if (event.shiftKey || event.metaKey || event.ctrlKey) {
+      const next = new Set(selectedIds);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      onSelectionChange(next);
+    } else {
+      onSelectionChange(new Set([id]));
+    }
+    onFocus(id);
+  };
+
+  // Dragging across the plot zooms into that stretch of time
+  const pointerX = (event: React.MouseEvent<SVGSVGElement>) => event.clientX - event.currentTarget.getBoundingClientRect().left;
+  const handleMouseUp = () => {
+    if (brush && Math.abs(brush.to - brush.from) > 5) {
+      const from = toInstant(Math.min(brush.from, brush.to));
+      const to = toInstant(Math.max(brush.from, brush.to));
+      setZoom([from, to]);
+    }
+    setBrush(null);
+  };
+
+  const entryLabel = (entry: TimelineEntry) => {
+    const kinds = flaggedKinds.get(entry.row.id) ?? [];
+    return [
+      `${entry.row.fileName}: ${formatInstant(entry.instant, entry.offset)} ${formatOffset(entry.offset)}`,
+      ...kinds.map(kind => ANOMALY_LABELS[kind])
+    ].join('\n');
+  };
+
+  const selectFlagged = () => onSelectionChange(new Set(visibleAnomalies.map(anomaly => anomaly.id)));
+
+  return (
+    <div className="bg-white shadow-sm border border-slate-200 rounded-xl overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-200 bg-slate-50 flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <CalendarClock className="text-slate-500 w-5 h-5" />
+          <h3 className="font-semibold text-slate-700">Timeline</h3>
+        </div>
+        <div className="flex flex-wrap items-center gap-4">
+          <label className="flex items-center gap-2 text-sm text-slate-600" title="Stamps print local time without a zone; this decides which zone they are read in">
+            Time zone
+            <select
+              value={zoneValue(settings.timeZone)}
+              onChange={e => onSettingsChange({ ...settings, timeZone: parseZone(e.target.value) })}
+              className="px-2 py-1 text-sm border border-slate-300 rounded-lg bg-white text-slate-700 focus:outline-none focus:ring-2 focus:ring-indigo-300"
+            >
+              <option value="auto">From photo location</option>
+              <option value="device">This computer</option>
+              {FIXED_ZONES.map(zone => (
+                <option key={zone.offset} value={zone.offset}>{zone.label}</option>
+              ))}
+            </select>
+          </label>
+          <SettingInput
+            label="Max speed"
+            unit="km/h"
+            value={settings.maxSpeedKmh}
+            title="Faster travel between consecutive located photos is flagged; 0 turns the check off"
+            onChange={maxSpeedKmh => onSettingsChange({ ...settings, maxSpeedKmh })}
+          />
+          <SettingInput
+            label="Gaps over"
+            unit="h"
+            value={settings.gapHours}
+            title="Longer breaks between consecutive photos are flagged; 0 turns the check off"
+            onChange={gapHours => onSettingsChange({ ...settings, gapHours })}
+          />
+          <SettingInput
+            label="Clock tolerance"
+            unit="min"
+            value={settings.clockToleranceMinutes}
+            title="Allowed difference between the stamped time and the camera's own clock"
+            onChange={clockToleranceMinutes => onSettingsChange({ ...settings, clockToleranceMinutes })}
+          />
+        </div>
+      </div>
+
+      <div className="px-6 py-4 space-y-4 text-sm">
+        {entries.length === 0 ? (
+          <p className="text-slate-500">No photo has a date yet. Dates come from the stamp or, failing that, the camera's own clock.</p>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center gap-2">
+              {(Object.keys(ANOMALY_LABELS) as AnomalyKind[]).map(kind => (
+                <button
+                  key={kind}
+                  onClick={() => setKindFilter(kindFilter === kind ? null : kind)}
+                  disabled={!kindCounts[kind]}
+                  className={`px-2.5 py-1 rounded-full border text-xs font-medium disabled:opacity-40 ${KIND_STYLES[kind]} ${kindFilter === kind ? 'ring-2 ring-indigo-300' : ''}`}
+                >
+                  {ANOMALY_LABELS[kind]}: {kindCounts[kind] ?? 0}
+                </button>
+              ))}
+              <span className="text-xs text-slate-500 ml-auto">
+                Axis in {formatOffset(offset)}
+                {undatedCount > 0 && `, ${undatedCount} without a date left out`}
+              </span>
+              {zoom && (
+                <button
+                  onClick={() => setZoom(null)}
+                  className="flex items-center gap-1 px-2 py-1 rounded-lg text-xs text-slate-600 border border-slate-300 hover:bg-slate-50"
+                >
+                  <ZoomOut size={14} /> Show all
+                </button>
+              )}
+            </div>
+
+            <div ref={containerRef} className="w-full select-none">
+              {width > 0 && (
+                <svg
+                  width={width}
+                  height={PLOT_HEIGHT}
+                  className="cursor-crosshair"
+                  onMouseDown={event => {
+                    const x = pointerX(event);
+                    setBrush({ from: x, to: x });
+                  }}
+                  onMouseMove={event => {
+                    if (brush) setBrush({ ...brush, to: pointerX(event) });
+                  }}
+                  onMouseUp={handleMouseUp}
+                  onMouseLeave={() => setBrush(null)}
+                >
+                  {now < end && (
+                    <g>
+                      <rect x={Math.max(MARGIN_X, toX(now))} y={0} width={Math.max(0, width - MARGIN_X - Math.max(MARGIN_X, toX(now)))} height={AXIS_Y} fill="#c026d3" fillOpacity={0.06} />
+                      {now > start && (
+                        <>
+                          <line x1={toX(now)} x2={toX(now)} y1={0} y2={AXIS_Y} stroke="#c026d3" strokeDasharray="4 3" />
+                          <text x={toX(now) + 4} y={10} fontSize={10} fill="#a21caf">now</text>
+                        </>
+                      )}
+                    </g>
+                  )}
+
+                  {anomalies.filter(anomaly => anomaly.kind === 'gap').map(anomaly => {
+                    const from = entryById.get(anomaly.previousId!)?.entry.instant;
+                    const to = entryById.get(anomaly.id)?.entry.instant;
+                    if (from === undefined || to === undefined || to < start || from > end) return null;
+                    const x1 = Math.max(MARGIN_X, toX(from));
+                    const x2 = Math.min(width - MARGIN_X, toX(to));
+                    return (
+                      <rect key={`gap:${anomaly.id}`} x={x1} y={0} width={Math.max(0, x2 - x1)} height={AXIS_Y} fill="#94a3b8" fillOpacity={0.15}>
+                        <title>{anomaly.detail}</title>
+                      </rect>
+                    );
+                  })}
+
+                  <line x1={MARGIN_X} x2={width - MARGIN_X} y1={AXIS_Y} y2={AXIS_Y} stroke="#cbd5e1" />
+                  {ticks.map(tick => (
+                    <g key={tick.at} transform={`translate(${toX(tick.at)},${AXIS_Y})`}>
+                      <line y2={5} stroke="#94a3b8" />
+                      <text y={18} fontSize={10} textAnchor="middle" fill="#64748b">{tick.time}</text>
+                      {tick.date && <text y={31} fontSize={10} textAnchor="middle" fill="#94a3b8">{tick.date}</text>}
+                    </g>
+                  ))}
+
+                  {anomalies.filter(anomaly => anomaly.kind === 'speed').map(anomaly => {
+                    const from = dotById.get(anomaly.previousId!);
+                    const to = dotById.get(anomaly.id);
+                    if (!from || !to) return null;
+                    return (
+                      <line key={`speed:${anomaly.id}`} x1={from.x} y1={from.y} x2={to.x} y2={to.y} stroke="#dc2626" strokeWidth={2}>
+                        <title>{anomaly.detail}</title>
+                      </line>
+                    );
+                  })}
+
+                  {dots.map(({ entry, x, y }) => {
+                    const kinds = flaggedKinds.get(entry.row.id) ?? [];
+                    const flagged = kinds.some(kind => DOT_KINDS.includes(kind));
+                    const selected = selectedIds.has(entry.row.id);
+                    return (
+                      <circle
+                        key={entry.row.id}
+                        cx={x}
+                        cy={y}
+                        r={DOT_RADIUS}
+                        fill={flagged ? '#dc2626' : entry.hasTime ? '#4f46e5' : '#a5b4fc'}
+                        stroke={selected ? '#f59e0b' : '#fff'}
+                        strokeWidth={selected ? 3 : 1.5}
+                        className="cursor-pointer"
+                        onMouseDown={event => event.stopPropagation()}
+                        onClick={event => handleDotClick(event, entry)}
+                      >
+                        <title>{entryLabel(entry)}</title>
+                      </circle>
+                    );
+                  })}
+
+                  {brush && (
+                    <rect
+                      x={Math.min(brush.from, brush.to)}
+                      y={0}
+                      width={Math.abs(brush.to - brush.from)}
+                      height={AXIS_Y}
+                      fill="#6366f1"
+                      fillOpacity={0.12}
+                      stroke="#6366f1"
+                    />
+                  )}
+                </svg>
+              )}
+            </div>
+            <p className="text-xs text-slate-500">
+              Click a photo to select it and show it on the map (shift-click adds to the selection); drag across the axis to zoom in.
+              Pale dots have a date but no time.
+            </p>
+
+            {visibleAnomalies.length > 0 && (
+              <div>
+                <div className="flex items-center justify-between mb-1">
+                  <p className="text-xs font-bold text-slate-400 uppercase tracking-wider">Flagged</p>
+                  <button
+                    onClick={selectFlagged}
+                    className="flex items-center gap-1 text-xs text-indigo-600 hover:text-indigo-800"
+                  >
+                    <Flag size={12} /> Select these photos
+                  </button>
+                </div>
+                <div className="max-h-56 overflow-y-auto border border-slate-200 rounded-lg">
+                  <table className="w-full text-left text-xs">
+                    <thead className="bg-slate-50 text-slate-500 sticky top-0">
+                      <tr>
+                        <th className="px-3 py-1.5 font-semibold">Check</th>
+                        <th className="px-3 py-1.5 font-semibold">Photo</th>
+                        <th className="px-3 py-1.5 font-semibold">Taken</th>
+                        <th className="px-3 py-1.5 font-semibold">Detail</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100 text-slate-700">
+                      {visibleAnomalies.map((anomaly, index) => {
+                        const entry = entryById.get(anomaly.id)?.entry;
+                        return (
+                          <tr
+                            key={`${anomaly.kind}:${anomaly.id}:${index}`}
+                            onClick={() => {
+                              onSelectionChange(new Set(anomaly.previousId ? [anomaly.previousId, anomaly.id] : [anomaly.id]));
+                              onFocus(anomaly.id);
+                            }}
+                            className={`cursor-pointer hover:bg-indigo-50/50 ${selectedIds.has(anomaly.id) ? 'bg-amber-50' : ''}`}
+                          >
+                            <td className="px-3 py-1.5">
+                              <span className={`px-2 py-0.5 rounded-full border whitespace-nowrap ${KIND_STYLES[anomaly.kind]}`}>{ANOMALY_LABELS[anomaly.kind]}</span>
+                            </td>
+                            <td className="px-3 py-1.5 font-medium">{entry?.row.fileName ?? anomaly.id}</td>
+                            <td className="px-3 py-1.5 font-mono whitespace-nowrap">{entry ? formatInstant(entry.instant, entry.offset) : '--'}</td>
+                            <td className="px-3 py-1.5 text-slate-600">{anomaly.detail}</td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,181 @@
+import { ExtraFieldDefinition } from "../types.js";
+import { InvalidResponseError } from "../services/extractionProvider.js";
+import { EXTRA_FIELD_TYPES, validateFieldName } from "../services/extractionTemplates.js";
+import { InlineImage, requestGeminiBatch } from "../services/geminiRequest.js";
+import {
+  PROXY_MAX_IMAGES,
+  ProxyErrorCode,
+  ProxyExtractRequest,
+  ProxyExtractResponse,
+  ProxyStatusResponse
+} from "../services/proxyProtocol.js";
+import { describeError, getErrorStatus } from "../services/retry.js";
+import { validateBatchResponse } from "../services/validation.js";
+import { ProxyConfig, authenticate, checkProxyConfig } from "./proxyConfig.js";
+import { QuotaStore, createMemoryQuotaStore } from "./quota.js";
+
+// The /api/extract endpoint, written against the Fetch API Request/Response so
+// the same code runs as a Vercel function (api/extract.ts) and in the standalone
+// Node server (server/standalone.ts).
+//
+//   GET  -> ProxyStatusResponse: checks the token, spends nothing
+//   POST -> ProxyExtractResponse for a ProxyExtractRequest body
+//
+// Retrying and re-splitting stay in the browser (batchExtractor.ts); the proxy
+// makes one model call per request and reports failures with a status the
+// client's retry logic understands.
+
+const DEFAULT_TEMPERATURE = 0.2;
+const MAX_FIELDS = 30;
+
+class BadRequestError extends Error {}
+
+const json = (status: number, body: unknown): Response =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' }
+  });
+
+const fail = (status: number, code: ProxyErrorCode, error: string): Response => json(status, { error, code });
+
+interface LogEntry {
+  user: string | null;
+  method: string;
+  status: number;
+  images?: number;
+  model?: string;
+  code?: ProxyErrorCode;
+  error?: string;
+}
+
+// One JSON line per request on stdout, which is where Vercel and most process
+// managers collect logs. Image data and tokens are never logged.
+const logRequest = (entry: LogEntry, startedAt: number) => {
+  console.log(JSON.stringify({ time: new Date().toISOString(), ...entry, durationMs: Date.now() - startedAt }));
+};
+
+const isInlineData = (value: unknown): value is { data: string; mimeType: string } => {
+  const candidate = value as { data?: unknown; mimeType?: unknown };
+  return Boolean(candidate) &&
+    typeof candidate.data === 'string' && candidate.data.length > 0 &&
+    typeof candidate.mimeType === 'string' && candidate.mimeType.startsWith('image/');
+};
+
+const parseImages = (value: unknown): InlineImage[] => {
+  if (!Array.isArray(value) || value.length === 0) throw new BadRequestError("images must be a non-empty array");
+  if (value.length > PROXY_MAX_IMAGES) throw new BadRequestError(`At most ${PROXY_MAX_IMAGES} images per request`);
+  return value.map((image, index) => {
+    if (!isInlineData(image)) throw new BadRequestError(`images[${index}] needs base64 data and an image/* mimeType`);
+    const stampCrop = (image as InlineImage).stampCrop;
+    if (stampCrop && !isInlineData(stampCrop)) throw new BadRequestError(`images[${index}].stampCrop is malformed`);
+    return { data: image.data, mimeType: image.mimeType, stampCrop: stampCrop ?? null };
+  });
+};
+
+const FIELD_TYPE_IDS = new Set<string>(EXTRA_FIELD_TYPES.map(type => type.id));
+
+// Field descriptions go into the prompt, so they are checked like the editor checks them
+const parseFields = (value: unknown): ExtraFieldDefinition[] => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.length > MAX_FIELDS) throw new BadRequestError(`fields must be an array of at most ${MAX_FIELDS}`);
+  const names: string[] = [];
+  return value.map((field, index) => {
+    const { name, type, description } = (field ?? {}) as Partial<ExtraFieldDefinition>;
+    const nameError = typeof name === 'string' ? validateFieldName(name, names) : "Name is required";
+    if (nameError) throw new BadRequestError(`fields[${index}]: ${nameError}`);
+    if (typeof type !== 'string' || !FIELD_TYPE_IDS.has(type)) throw new BadRequestError(`fields[${index}]: unknown type`);
+    names.push(name);
+    return { name, type, description: typeof description === 'string' ? description.slice(0, 500) : '' };
+  });
+};
+
+const parseRequest = (body: unknown, config: ProxyConfig): ProxyExtractRequest => {
+  const candidate = (body ?? {}) as Partial<ProxyExtractRequest>;
+  const model = candidate.model ?? config.allowedModels[0];
+  if (!config.allowedModels.includes(model)) {
+    throw new BadRequestError(`Model "${model}" is not allowed on this server`);
+  }
+  const temperature = typeof candidate.temperature === 'number' && candidate.temperature >= 0 && candidate.temperature <= 2
+    ? candidate.temperature
+    : DEFAULT_TEMPERATURE;
+  return { model, temperature, images: parseImages(candidate.images), fields: parseFields(candidate.fields) };
+};
+
+export const createExtractHandler = (config: ProxyConfig, quotas: QuotaStore = createMemoryQuotaStore()) =>
+  async (request: Request): Promise<Response> => {
+    const startedAt = Date.now();
+    const log: LogEntry = { user: null, method: request.method, status: 200 };
+    const respond = (response: Response) => {
+      log.status = response.status;
+      logRequest(log, startedAt);
+      return response;
+    };
+    const reject = (status: number, code: ProxyErrorCode, error: string) => {
+      log.code = code;
+      log.error = error;
+      return respond(fail(status, code, error));
+    };
+
+    const configError = checkProxyConfig(config);
+    if (configError) return reject(500, 'not_configured', configError);
+
+    const user = authenticate(config, request);
+    log.user = user;
+    if (!user) return reject(401, 'unauthorized', "Missing or unknown access token");
+
+    if (request.method === 'GET') {
+      const status: ProxyStatusResponse = {
+        user,
+        models: config.allowedModels,
+        quota: await quotas.peek(user, config.dailyImageQuota)
+      };
+      return respond(json(200, status));
+    }
+    if (request.method !== 'POST') return reject(405, 'bad_request', "Use GET or POST");
+
+    let extractRequest: ProxyExtractRequest;
+    try {
+      extractRequest = parseRequest(await request.json(), config);
+    } catch (error) {
+      const message = error instanceof BadRequestError ? error.message : "Body is not valid JSON";
+      return reject(400, 'bad_request', message);
+    }
+    const imageCount = extractRequest.images.length;
+    log.images = imageCount;
+    log.model = extractRequest.model;
+
+    const { allowed, usage } = await quotas.consume(user, imageCount, config.dailyImageQuota);
+    if (!allowed) {
+      // Not 429: that status means "try again shortly" to the client, and this lasts until tomorrow
+      return reject(403, 'quota_exceeded', `Daily quota of ${usage.limit} images reached (${usage.used} used); it resets at ${usage.resetsAt}`);
+    }
+
+    // Only images with a usable result count against the quota. The client asks
+    // again for the rest, so charging them here would charge them twice.
+    let items;
+    try {
+      items = await requestGeminiBatch(config.geminiApiKey, extractRequest);
+    } catch (error) {
+      await quotas.refund(user, imageCount);
+      if (error instanceof InvalidResponseError) {
+        return reject(502, 'invalid_response', error.message);
+      }
+      const status = getErrorStatus(error);
+      // Rate limits and outages keep their status so the client backs off and retries
+      const forwarded = status === 429 || (status !== undefined && status >= 500 && status < 600) ? status : 502;
+      return reject(forwarded, 'upstream_error', describeError(error));
+    }
+
+    const batch = validateBatchResponse(items, imageCount, extractRequest.fields);
+    if (batch.valid === false) {
+      await quotas.refund(user, imageCount);
+      return reject(502, 'invalid_response', batch.reason);
+    }
+    const invalidCount = batch.items.filter(result => result.valid === false).length;
+    if (invalidCount > 0) await quotas.refund(user, invalidCount);
+
+    const response: ProxyExtractResponse = {
+      items: batch.items.map((result, index) => (result.valid === true ? result.item : items[index]))
+    };
+    return respond(json(200, response));
+  };
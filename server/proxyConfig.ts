@@ -0,0 +1,85 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import { GEMINI_MODELS } from "../services/geminiRequest.js";
+
+// Settings of the extraction proxy, read from the server's environment. None of
+// these are ever sent to the browser.
+export interface ProxyConfig {
+  geminiApiKey: string;
+  users: { name: string; token: string }[]; // Personal tokens, one per user
+  sharedSecret: string | null; // One token for everyone; users name themselves
+  sharedUsers: string[]; // Names accepted with the shared secret; anyone else counts as "shared"
+  dailyImageQuota: number | null; // Images per user per UTC day; null is unlimited
+  allowedModels: string[];
+}
+
+type Env = Record<string, string | undefined>;
+
+const DEFAULT_DAILY_IMAGE_QUOTA = 1000;
+
+const splitList = (value: string | undefined): string[] =>
+  (value ?? '').split(',').map(part => part.trim()).filter(Boolean);
+
+// PROXY_TOKENS="alice:3f9c...,bob:a71e..."
+const parseUsers = (value: string | undefined): { name: string; token: string }[] =>
+  splitList(value).flatMap(entry => {
+    const separator = entry.indexOf(':');
+    if (separator <= 0 || separator === entry.length - 1) {
+      console.warn(`Ignoring malformed PROXY_TOKENS entry "${entry.slice(0, separator > 0 ? separator : 8)}..."`);
+      return [];
+    }
+    return [{ name: entry.slice(0, separator), token: entry.slice(separator + 1) }];
+  });
+
+export const readProxyConfig = (env: Env = process.env): ProxyConfig => {
+  const quota = Number(env.PROXY_DAILY_IMAGE_QUOTA ?? DEFAULT_DAILY_IMAGE_QUOTA);
+  const models = splitList(env.PROXY_ALLOWED_MODELS);
+  return {
+    geminiApiKey: env.GEMINI_API_KEY ?? '',
+    users: parseUsers(env.PROXY_TOKENS),
+    sharedSecret: env.PROXY_SHARED_SECRET || null,
+    sharedUsers: splitList(env.PROXY_SHARED_USERS),
+    // 0 turns the quota off; anything unreadable keeps the default
+    dailyImageQuota: quota === 0 ? null : Number.isFinite(quota) && quota > 0 ? Math.floor(quota) : DEFAULT_DAILY_IMAGE_QUOTA,
+    allowedModels: models.length > 0 ? models : GEMINI_MODELS.map(model => model.id)
+  };
+};
+
+// Returns why the proxy cannot serve requests, or null when it can. Without any
+// token configured it refuses everything rather than running open.
+export const checkProxyConfig = (config: ProxyConfig): string | null => {
+  if (!config.geminiApiKey) return "GEMINI_API_KEY is not set on the server";
+  if (config.users.length === 0 && !config.sharedSecret) return "Neither PROXY_TOKENS nor PROXY_SHARED_SECRET is set on the server";
+  return null;
+};
+
+// Hashing first gives both sides the same length, which timingSafeEqual requires
+const sameSecret = (a: string, b: string): boolean =>
+  timingSafeEqual(createHash('sha256').update(a).digest(), createHash('sha256').update(b).digest());
+
+const SHARED_USER = 'shared';
+
+// Names from the X-User header end up in logs, so only a plain subset is kept
+const cleanUserName = (value: string | null): string =>
+  (value ?? '').replace(/[^\w.@-]/g, '').slice(0, 64);
+
+// Resolves the user behind a request's bearer token, or null when it is not accepted
+export const authenticate = (config: ProxyConfig, request: Request): string | null => {
+  const match = (request.headers.get('authorization') ?? '').match(/^Bearer\s+(.+)$/i);
+  if (!match) return null;
+  const token = match[1].trim();
+
+  // Every entry is compared so the time taken does not reveal which one matched
+  let user: string | null = null;
+  for (const entry of config.users) {
+    if (sameSecret(token, entry.token)) user = entry.name;
+  }
+  if (user) return user;
+
+  // Anyone holding the secret can send any name, so only listed names get a quota
+  // of their own. Others share one, rather than starting afresh under a new name.
+  if (config.sharedSecret && sameSecret(token, config.sharedSecret)) {
+    const name = cleanUserName(request.headers.get('x-user'));
+    return config.sharedUsers.includes(name) ? name : SHARED_USER;
+  }
+  return null;
+};
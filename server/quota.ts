@@ -0,0 +1,49 @@
+import { QuotaUsage } from "../services/proxyProtocol.js";
+
+// Per-user daily image quotas for the extraction proxy. Days are UTC.
+export interface QuotaStore {
+  // Adds `count` images to today's usage unless that would go over `limit`
+  consume: (user: string, count: number, limit: number | null) => Promise<{ allowed: boolean; usage: QuotaUsage }>;
+  // Gives back images that got no usable result: failed requests, invalid output
+  refund: (user: string, count: number) => Promise<void>;
+  peek: (user: string, limit: number | null) => Promise<QuotaUsage>;
+}
+
+const dayKey = (time: Date) => time.toISOString().slice(0, 10);
+
+const nextUtcMidnight = (time: Date) =>
+  new Date(Date.UTC(time.getUTCFullYear(), time.getUTCMonth(), time.getUTCDate() + 1)).toISOString();
+
+// Counts live in process memory. That is exact for the standalone server, but on
+// Vercel each function instance keeps its own counts and loses them when it is
+// recycled, so there the quota is a soft limit.
+export const createMemoryQuotaStore = (now: () => Date = () => new Date()): QuotaStore => {
+  const usage = new Map<string, { day: string; used: number }>();
+
+  const current = (user: string): { day: string; used: number } => {
+    const day = dayKey(now());
+    const entry = usage.get(user);
+    if (entry && entry.day === day) return entry;
+    const fresh = { day, used: 0 };
+    usage.set(user, fresh);
+    return fresh;
+  };
+
+  const describe = (used: number, limit: number | null): QuotaUsage => ({ used, limit, resetsAt: nextUtcMidnight(now()) });
+
+  return {
+    consume: async (user, count, limit) => {
+      const entry = current(user);
+      if (limit !== null && entry.used + count > limit) {
+        return { allowed: false, usage: describe(entry.used, limit) };
+      }
+      entry.used += count;
+      return { allowed: true, usage: describe(entry.used, limit) };
+    },
+    refund: async (user, count) => {
+      const entry = current(user);
+      entry.used = Math.max(0, entry.used - count);
+    },
+    peek: async (user, limit) => describe(current(user).used, limit)
+  };
+};
@@ -0,0 +1,121 @@
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { readFile, stat } from "node:fs/promises";
+import { extname, join, normalize, resolve, sep } from "node:path";
+import { DEFAULT_PROXY_URL } from "../services/proxyProtocol.js";
+import { createExtractHandler } from "./extractHandler.js";
+import { checkProxyConfig, readProxyConfig } from "./proxyConfig.js";
+
+// Standalone server for on-prem use: serves the built app from STATIC_DIR and the
+// extraction proxy at /api/extract from one origin.
+//
+//   npm run build && npm run build:server
+//   GEMINI_API_KEY=... PROXY_TOKENS=alice:... npm run start:server
+
+const PORT = Number(process.env.PORT) || 8787;
+const HOST = process.env.HOST || '0.0.0.0';
+const STATIC_DIR = resolve(process.env.STATIC_DIR || 'dist');
+const MAX_BODY_BYTES = (Number(process.env.PROXY_MAX_BODY_MB) || 20) * 1024 * 1024;
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript',
+  '.mjs': 'text/javascript',
+  '.css': 'text/css',
+  '.json': 'application/json',
+  '.wasm': 'application/wasm',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.ico': 'image/x-icon',
+  '.geojson': 'application/geo+json'
+};
+
+const config = readProxyConfig();
+const handleExtract = createExtractHandler(config);
+
+class BodyTooLargeError extends Error {}
+
+const readBody = (request: IncomingMessage): Promise<Buffer> =>
+  new Promise((resolveBody, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    request.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new BodyTooLargeError());
+        request.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    request.on('end', () => resolveBody(Buffer.concat(chunks)));
+    request.on('error', reject);
+  });
+
+// Node's request/response to the Fetch API objects the handler expects, and back
+const serveExtract = async (request: IncomingMessage, response: ServerResponse) => {
+  const headers = new Headers();
+  Object.entries(request.headers).forEach(([name, value]) => {
+    if (typeof value === 'string') headers.set(name, value);
+    else if (Array.isArray(value)) headers.set(name, value.join(', '));
+  });
+
+  let body: Uint8Array | undefined;
+  if (request.method === 'POST') {
+    try {
+      body = await readBody(request);
+    } catch (error) {
+      const tooLarge = error instanceof BodyTooLargeError;
+      response.writeHead(tooLarge ? 413 : 400, { 'Content-Type': 'application/json' });
+      response.end(JSON.stringify({ error: tooLarge ? "Request body is too large" : "Could not read request body", code: 'bad_request' }));
+      return;
+    }
+  }
+
+  const result = await handleExtract(new Request(`http://${request.headers.host ?? 'localhost'}${request.url}`, {
+    method: request.method,
+    headers,
+    body: body as BodyInit | undefined
+  }));
+  response.writeHead(result.status, Object.fromEntries(result.headers.entries()));
+  response.end(Buffer.from(await result.arrayBuffer()));
+};
+
+// Static files with the single-page-app fallback that vercel.json gives the deployed app
+const serveStatic = async (request: IncomingMessage, response: ServerResponse) => {
+  if (request.method !== 'GET' && request.method !== 'HEAD') {
+    response.writeHead(405).end();
+    return;
+  }
+  const pathname = decodeURIComponent(new URL(request.url ?? '/', 'http://localhost').pathname);
+  let file = normalize(join(STATIC_DIR, pathname));
+  if (file !== STATIC_DIR && !file.startsWith(STATIC_DIR + sep)) {
+    response.writeHead(403).end();
+    return;
+  }
+
+  const info = await stat(file).catch(() => null);
+  if (!info || info.isDirectory()) file = join(STATIC_DIR, 'index.html');
+
+  try {
+    const content = await readFile(file);
+    response.writeHead(200, { 'Content-Type': CONTENT_TYPES[extname(file)] ?? 'application/octet-stream' });
+    response.end(request.method === 'HEAD' ? undefined : content);
+  } catch {
+    response.writeHead(404, { 'Content-Type': 'text/plain' }).end(`Not found. Run "npm run build" to create ${STATIC_DIR}.`);
+  }
+};
+
+const server = createServer((request, response) => {
+  const isExtract = (request.url ?? '').split('?')[0] === DEFAULT_PROXY_URL;
+  (isExtract ? serveExtract(request, response) : serveStatic(request, response)).catch(error => {
+    console.error("Request failed:", error);
+    if (!response.headersSent) response.writeHead(500);
+    response.end();
+  });
+});
+
+server.listen(PORT, HOST, () => {
+  console.log(`ARUNDAYA GEOPIX server on http://${HOST}:${PORT} (app from ${STATIC_DIR})`);
+  const problem = checkProxyConfig(config);
+  if (problem) console.warn(`Extraction proxy is disabled: ${problem}`);
+});
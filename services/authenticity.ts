@@ -0,0 +1,148 @@
+import { AuthenticityCheck, PhotoEvidence, ProcessedImage, RiskLevel, RiskSignal, RiskSignalKind } from "../types";
+import { EmbeddedMetadata, hasUsableCoordinates, readImageSize } from "./metadataService";
+import { DuplicateGroup } from "./imageHash";
+import { distanceMeters, formatDistance } from "./referenceCheck";
+
+// Signs that a photo is not what it claims to be: metadata removed or rewritten
+// by an editor, a stamp that disagrees with the GPS the camera recorded, the
+// same picture turning up at different places, screenshots, and files without
+// a camera. None of them proves tampering on its own; together they rank which
+// photos an auditor should look at first.
+
+// Stamps round their coordinates and phones write GPS before the fix settles
+const LOCATION_TOLERANCE = 200; // Metres
+
+const EDITOR_PATTERN =
+  /photoshop|lightroom|gimp|snapseed|picsart|canva|pixlr|affinity|paint\.net|pixelmator|luminar|capture one|polarr|vsco|facetune|meitu|photoscape|fotor|lightx|inshot|remini|photodirector|acdsee|darktable|rawtherapee/i;
+const SCREENSHOT_NAME_PATTERN = /screenshot|screen[ _-]?shot|screen[ _-]?capture|tangkapan[ _-]?layar|^scr_|^ss_/i;
+
+// Common monitor resolutions; phone screens are recognised by their shape instead
+const DESKTOP_SCREENS = new Set(['1920x1080', '1366x768', '1536x864', '1440x900', '1280x720', '1280x800', '1600x900', '2560x1440', '2880x1800', '3840x2160']);
+// Cameras shoot 4:3, 3:2, 16:9 or square; anything longer is a phone screen (18:9 and up)
+const PHONE_SCREEN_RATIO = 1.95;
+
+export const RISK_LABELS: Record<RiskSignalKind, string> = {
+  stripped: 'No metadata',
+  edited: 'Edited',
+  gpsMismatch: 'Stamp vs GPS',
+  reused: 'Reused picture',
+  screenshot: 'Screenshot',
+  noCamera: 'No camera info'
+};
+
+// How much each sign weighs: 3 makes a photo high risk by itself
+const SIGNAL_WEIGHTS: Record<RiskSignalKind, number> = {
+  edited: 3,
+  gpsMismatch: 3,
+  reused: 3,
+  screenshot: 2,
+  stripped: 2,
+  noCamera: 1
+};
+
+export const RISK_LEVEL_LABELS: Record<RiskLevel, string> = {
+  none: 'None',
+  low: 'Low',
+  medium: 'Medium',
+  high: 'High'
+};
+
+const LEVEL_ORDER: RiskLevel[] = ['none', 'low', 'medium', 'high'];
+
+// 0-3, for sorting
+export const riskRank = (level: RiskLevel): number => LEVEL_ORDER.indexOf(level);
+
+// Reads what the file says about itself, from its headers only. The stamp of a
+// photo with embedded GPS is read later, in its own scheduled task.
+export const collectEvidence = async (file: File, metadata: EmbeddedMetadata | null): Promise<PhotoEvidence> => {
+  const size = await readImageSize(file);
+  const hasGps = hasUsableCoordinates(metadata);
+  return {
+    hasMetadata: metadata !== null,
+    make: metadata?.make ?? '',
+    model: metadata?.model ?? '',
+    software: metadata?.software ?? '',
+    gpsLatitude: hasGps ? metadata!.latitude : null,
+    gpsLongitude: hasGps ? metadata!.longitude : null,
+    stampLatitude: null,
+    stampLongitude: null,
+    width: size?.width ?? null,
+    height: size?.height ?? null,
+    mimeType: file.type
+  };
+};
+
+const screenshotReason = (row: ProcessedImage, evidence: PhotoEvidence): string | null => {
+  if (SCREENSHOT_NAME_PATTERN.test(row.fileName)) return 'File name says screenshot';
+  if (/screenshot/i.test(evidence.software)) return `Saved by ${evidence.software}`;
+  // A camera always records itself; the shape tests only count without one
+  if (evidence.make || evidence.model) return null;
+  if (evidence.mimeType === 'image/png') return 'PNG without camera data';
+  if (evidence.width && evidence.height) {
+    const long = Math.max(evidence.width, evidence.height);
+    const short = Math.min(evidence.width, evidence.height);
+    if (long / short >= PHONE_SCREEN_RATIO) return `Phone screen shape (${evidence.width}×${evidence.height})`;
+    if (DESKTOP_SCREENS.has(`${long}x${short}`)) return `Monitor resolution (${evidence.width}×${evidence.height})`;
+  }
+  return null;
+};
+
+const isLocated = (row: ProcessedImage) => row.latitude !== null && row.longitude !== null;
+
+const reusedReason = (row: ProcessedImage, copies: ProcessedImage[]): string | null => {
+  if (!isLocated(row)) return null;
+  const others = copies.filter(copy => copy.id !== row.id);
+  let farthest: ProcessedImage | null = null;
+  let farthestDistance = LOCATION_TOLERANCE;
+  for (const copy of others) {
+    if (!isLocated(copy)) continue;
+    const distance = distanceMeters(row.latitude!, row.longitude!, copy.latitude!, copy.longitude!);
+    if (distance > farthestDistance) {
+      farthest = copy;
+      farthestDistance = distance;
+    }
+  }
+  if (!farthest) return null;
+  return `Same picture as ${farthest.fileName}, ${formatDistance(farthestDistance)} away${others.length > 1 ? ` (${others.length} copies)` : ''}`;
+};
+
+export const assessAuthenticity = (row: ProcessedImage, evidence: PhotoEvidence, copies: ProcessedImage[]): AuthenticityCheck => {
+  const signals: RiskSignal[] = [];
+  const add = (kind: RiskSignalKind, detail: string | null) => {
+    if (detail) signals.push({ kind, detail });
+  };
+
+  add('stripped', evidence.hasMetadata ? null : 'No EXIF or XMP; removed by an app or editor, or never written');
+  add('edited', EDITOR_PATTERN.test(evidence.software) ? `Saved by ${evidence.software}` : null);
+  if (evidence.gpsLatitude !== null && evidence.gpsLongitude !== null && evidence.stampLatitude !== null && evidence.stampLongitude !== null) {
+    const distance = distanceMeters(evidence.gpsLatitude, evidence.gpsLongitude, evidence.stampLatitude, evidence.stampLongitude);
+    add('gpsMismatch', distance > LOCATION_TOLERANCE ? `Stamp is ${formatDistance(distance)} from the camera GPS` : null);
+  }
+  add('reused', reusedReason(row, copies));
+  add('screenshot', screenshotReason(row, evidence));
+  add('noCamera', evidence.hasMetadata && !evidence.make && !evidence.model ? 'No camera make or model in the metadata' : null);
+
+  // The strongest sign sets the level; several weaker ones add up to high
+  const weights = signals.map(signal => SIGNAL_WEIGHTS[signal.kind]);
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  const strongest = Math.max(0, ...weights);
+  const level = LEVEL_ORDER[total >= 4 ? 3 : strongest];
+  return { level, signals };
+};
+
+// Copies of the rows with `authenticity` filled in. Rows processed before the
+// checks existed have no evidence and are left as they are.
+export const applyAuthenticityChecks = (rows: ProcessedImage[], contentGroups: DuplicateGroup[]): ProcessedImage[] => {
+  const byId = new Map(rows.map(row => [row.id, row]));
+  const copiesOf = new Map<string, ProcessedImage[]>();
+  contentGroups.forEach(group => {
+    const members = group.ids.map(id => byId.get(id)).filter((row): row is ProcessedImage => row !== undefined);
+    members.forEach(row => copiesOf.set(row.id, members));
+  });
+  return rows.map(row =>
+    row.evidence ? { ...row, authenticity: assessAuthenticity(row, row.evidence, copiesOf.get(row.id) ?? []) } : row
+  );
+};
+
+export const formatRiskSignals = (check: AuthenticityCheck | undefined): string =>
+  check ? check.signals.map(signal => `${RISK_LABELS[signal.kind]}: ${signal.detail}`).join('; ') : '';
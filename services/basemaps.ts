@@ -0,0 +1,101 @@
+import { SourceFile } from "./sourceFiles";
+
+// Background maps for MapView: online tile services, a custom XYZ URL (e.g. a
+// tile server on the site laptop) and tiles read from local files, which keep
+// the map working without internet.
+
+const BASEMAP_KEY = 'arundaya-geopix:basemap';
+const CUSTOM_URL_KEY = 'arundaya-geopix:tile-url';
+
+export type BasemapId = 'osm' | 'satellite' | 'topo' | 'custom' | 'local';
+
+export interface OnlineBasemap {
+  id: BasemapId;
+  label: string;
+  url: string;
+  attribution: string;
+  maxZoom: number;
+}
+
+export const ONLINE_BASEMAPS: OnlineBasemap[] = [
+  {
+    id: 'osm',
+    label: 'Street map',
+    url: 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png',
+    attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors',
+    maxZoom: 19
+  },
+  {
+    id: 'satellite',
+    label: 'Satellite',
+    url: 'https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}',
+    attribution: 'Imagery &copy; Esri, Maxar, Earthstar Geographics and the GIS User Community',
+    maxZoom: 19
+  },
+  {
+    id: 'topo',
+    label: 'Topographic',
+    url: 'https://{s}.tile.opentopomap.org/{z}/{x}/{y}.png',
+    attribution: 'Map data &copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors, SRTM | Style &copy; <a href="https://opentopomap.org">OpenTopoMap</a> (CC-BY-SA)',
+    maxZoom: 17
+  }
+];
+
+// Tiles read from a file picked on this computer (MBTiles or a z/x/y folder).
+// Files cannot be reopened after a reload, so these are never persisted.
+export interface LocalTileSource {
+  name: string;
+  minZoom: number;
+  maxZoom: number;
+  bounds: [number, number, number, number] | null; // west, south, east, north
+  attribution: string;
+  getTile: (z: number, x: number, y: number) => Promise<Blob | null>;
+}
+
+export const getStoredBasemap = (): BasemapId => {
+  const stored = localStorage.getItem(BASEMAP_KEY);
+  // A local source is gone after a reload
+  return stored === 'custom' || ONLINE_BASEMAPS.some(basemap => basemap.id === stored) ? (stored as BasemapId) : 'osm';
+};
+
+export const setStoredBasemap = (id: BasemapId) => localStorage.setItem(BASEMAP_KEY, id);
+
+export const getCustomTileUrl = (): string => localStorage.getItem(CUSTOM_URL_KEY) ?? '';
+
+export const setCustomTileUrl = (url: string) => localStorage.setItem(CUSTOM_URL_KEY, url);
+
+// Leaflet fills in {z}, {x} and {y}; {-y} counts rows from the south (TMS)
+export const isTileUrlTemplate = (url: string): boolean =>
+  /^(https?:\/\/|\/)/.test(url) && url.includes('{z}') && url.includes('{x}') && /\{-?y\}/.test(url);
+
+const TILE_PATH = /(?:^|\/)(\d+)\/(\d+)\/(\d+)\.(png|jpe?g|webp)$/i;
+
+// A folder exported as z/x/y.png (or .jpg/.webp), e.g. by a tile downloader.
+// Rows count from the north, except in gdal2tiles output (marked by its
+// tilemapresource.xml), which counts them from the south.
+export const createFolderTileSource = (files: SourceFile[], name: string): LocalTileSource => {
+  const tms = files.some(({ path }) => /(^|\/)tilemapresource\.xml$/i.test(path));
+  const tiles = new Map<string, File>();
+  let minZoom = Infinity;
+  let maxZoom = -Infinity;
+  files.forEach(({ file, path }) => {
+    const match = path.match(TILE_PATH);
+    if (!match) return;
+    const z = Number(match[1]);
+    tiles.set(`${z}/${match[2]}/${match[3]}`, file);
+    minZoom = Math.min(minZoom, z);
+    maxZoom = Math.max(maxZoom, z);
+  });
+  if (tiles.size === 0) {
+    throw new Error("No tiles found; the folder should contain z/x/y.png files");
+  }
+
+  return {
+    name,
+    minZoom,
+    maxZoom,
+    bounds: null,
+    attribution: '',
+    getTile: async (z, x, y) => tiles.get(`${z}/${x}/${tms ? 2 ** z - 1 - y : y}`) ?? null
+  };
+};
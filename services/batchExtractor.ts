@@ -0,0 +1,67 @@
+import { ExtraFieldDefinition, GeminiResponseItem } from "../types";
+import { ExtractionImage, ExtractionProvider, InvalidResponseError } from "./extractionProvider";
+import { validateBatchResponse } from "./validation";
+import { withRetry, describeError } from "./retry";
+import { SchedulerCancelledError } from "./batchScheduler";
+
+export type ExtractionOutcome =
+  | { ok: true; item: GeminiResponseItem }
+  | { ok: false; error: string };
+
+const failAll = (count: number, error: string): ExtractionOutcome[] =>
+  Array.from({ length: count }, () => ({ ok: false as const, error }));
+
+// Extracts one result per image, validating the model output. A batch whose output
+// cannot be aligned with its images is split in half and re-requested; items that
+// fail validation are re-requested on their own. Recursion ends at single images,
+// so every image ends up with either a validated item or an error.
+export const extractValidatedBatch = async (
+  provider: ExtractionProvider,
+  images: ExtractionImage[],
+  fields: ExtraFieldDefinition[] = []
+): Promise<ExtractionOutcome[]> => {
+  if (images.length === 0) return [];
+
+  let rawItems: GeminiResponseItem[];
+  try {
+    rawItems = await withRetry(() => provider.extractBatch(images, fields));
+  } catch (error) {
+    // Nothing was sent; the caller puts the images back in the queue
+    if (error instanceof SchedulerCancelledError) throw error;
+    // Unusable output is worth another try in smaller pieces; quota or auth errors are not
+    if (error instanceof InvalidResponseError && images.length > 1) {
+      console.warn(`Invalid response for ${images.length} images, splitting batch:`, error.message);
+      return splitAndExtract(provider, images, fields);
+    }
+    return failAll(images.length, describeError(error));
+  }
+
+  const batch = validateBatchResponse(rawItems, images.length, fields);
+  if (batch.valid === false) {
+    if (images.length === 1) return [{ ok: false, error: batch.reason }];
+    console.warn(`${batch.reason}, splitting batch.`);
+    return splitAndExtract(provider, images, fields);
+  }
+
+  const outcomes: ExtractionOutcome[] = batch.items.map(result =>
+    result.valid === true ? { ok: true, item: result.item } : { ok: false, error: result.reason }
+  );
+
+  if (images.length === 1) return outcomes;
+
+  // Re-request only the items that failed validation, each on its own
+  const invalidIndexes = batch.items.flatMap((result, index) => (result.valid ? [] : [index]));
+  for (const index of invalidIndexes) {
+    const [retried] = await extractValidatedBatch(provider, [images[index]], fields);
+    outcomes[index] = retried;
+  }
+
+  return outcomes;
+};
+
+const splitAndExtract = async (provider: ExtractionProvider, images: ExtractionImage[], fields: ExtraFieldDefinition[]): Promise<ExtractionOutcome[]> => {
+  const middle = Math.ceil(images.length / 2);
+  const first = await extractValidatedBatch(provider, images.slice(0, middle), fields);
+  const second = await extractValidatedBatch(provider, images.slice(middle), fields);
+  return [...first, ...second];
+};
@@ -0,0 +1,173 @@
+import { ExtraFieldDefinition } from "../types";
+import { ExtractionImage, ExtractionProvider } from "./extractionProvider";
+
+export type SchedulerState = 'idle' | 'running' | 'paused' | 'cancelled';
+
+export interface SchedulerOptions {
+  concurrency: number;
+  requestsPerMinute: number;
+  tokensPerMinute: number;
+}
+
+// Conservative defaults that stay inside the Gemini free tier for Flash
+export const DEFAULT_SCHEDULER_OPTIONS: SchedulerOptions = {
+  concurrency: 3,
+  requestsPerMinute: 10,
+  tokensPerMinute: 250000
+};
+
+// Rough request cost: a phone photo is a few image tiles, plus the prompt and output
+const ESTIMATED_TOKENS_PER_IMAGE = 1300;
+const ESTIMATED_PROMPT_TOKENS = 400;
+const RATE_WINDOW_MS = 60000;
+
+export const estimateRequestTokens = (imageCount: number): number =>
+  ESTIMATED_PROMPT_TOKENS + imageCount * ESTIMATED_TOKENS_PER_IMAGE;
+
+export interface BatchScheduler {
+  // Runs tasks with at most `concurrency` in flight. Tasks must handle their own
+  // errors. Resolves true when every task started, false if cancelled part way.
+  run: (tasks: Array<() => Promise<void>>) => Promise<boolean>;
+  // Waits until a request of `tokens` fits the per-minute budgets, then records it.
+  // Rejects with SchedulerCancelledError if cancelled while waiting.
+  acquire: (tokens: number) => Promise<void>;
+  // For work before or outside run(): waits out a pause, then resolves false once cancelled
+  proceed: () => Promise<boolean>;
+  // Pause and cancel also apply before run(), while the batch is being prepared
+  pause: () => void;
+  resume: () => void;
+  // Stops starting new tasks; tasks already in flight finish normally
+  cancel: () => void;
+  getState: () => SchedulerState;
+  // Time spent running since run() started, excluding pauses
+  getActiveElapsedMs: () => number;
+}
+
+export class SchedulerCancelledError extends Error {
+  constructor() {
+    super("Cancelled before the request was sent");
+    this.name = 'SchedulerCancelledError';
+  }
+}
+
+export const createBatchScheduler = (options: Partial<SchedulerOptions> = {}): BatchScheduler => {
+  const settings = { ...DEFAULT_SCHEDULER_OPTIONS, ...options };
+  let state: SchedulerState = 'idle';
+  let resumeWaiters: Array<() => void> = [];
+  const requestLog: Array<{ at: number; tokens: number }> = [];
+
+  let startedAt = 0;
+  let pausedAt = 0;
+  let pausedTotalMs = 0;
+
+  const wakeWaiters = () => {
+    resumeWaiters.forEach(wake => wake());
+    resumeWaiters = [];
+  };
+
+  const waitWhilePaused = (): Promise<void> =>
+    state === 'paused' ? new Promise<void>(resolve => resumeWaiters.push(resolve)) : Promise.resolve();
+
+  // A timer that resume() and cancel() cut short
+  const sleep = (ms: number): Promise<void> =>
+    new Promise<void>(resolve => {
+      const timer = setTimeout(resolve, ms);
+      resumeWaiters.push(() => {
+        clearTimeout(timer);
+        resolve();
+      });
+    });
+
+  const proceed = async (): Promise<boolean> => {
+    await waitWhilePaused();
+    return state !== 'cancelled';
+  };
+
+  const acquire = async (tokens: number) => {
+    for (;;) {
+      await waitWhilePaused();
+      if (state === 'cancelled') throw new SchedulerCancelledError();
+
+      const now = Date.now();
+      while (requestLog.length > 0 && now - requestLog[0].at >= RATE_WINDOW_MS) {
+        requestLog.shift();
+      }
+      const tokensUsed = requestLog.reduce((sum, entry) => sum + entry.tokens, 0);
+
+      // An empty window always admits one request, even if it alone exceeds the token budget
+      const fits = requestLog.length < settings.requestsPerMinute && tokensUsed + tokens <= settings.tokensPerMinute;
+      if (requestLog.length === 0 || fits) {
+        requestLog.push({ at: now, tokens });
+        return;
+      }
+
+      await sleep(Math.max(requestLog[0].at + RATE_WINDOW_MS - now, 50));
+    }
+  };
+
+  const run = async (tasks: Array<() => Promise<void>>): Promise<boolean> => {
+    if (state === 'cancelled') return tasks.length === 0;
+    startedAt = Date.now();
+    pausedTotalMs = 0;
+    // Paused while preparing: the pause counts from here
+    if (state === 'paused') pausedAt = startedAt;
+    else state = 'running';
+    let next = 0;
+
+    const worker = async () => {
+      for (;;) {
+        await waitWhilePaused();
+        if (state === 'cancelled' || next >= tasks.length) return;
+        const task = tasks[next++];
+        await task();
+      }
+    };
+
+    const workerCount = Math.max(1, Math.min(settings.concurrency, tasks.length));
+    await Promise.all(Array.from({ length: workerCount }, worker));
+
+    // A cancel that arrives after the last task started changes nothing
+    const completed = next >= tasks.length;
+    state = completed ? 'idle' : 'cancelled';
+    return completed;
+  };
+
+  const pause = () => {
+    if (state !== 'running' && state !== 'idle') return;
+    state = 'paused';
+    pausedAt = Date.now();
+  };
+
+  const resume = () => {
+    if (state !== 'paused') return;
+    state = 'running';
+    pausedTotalMs += Date.now() - pausedAt;
+    wakeWaiters();
+  };
+
+  const cancel = () => {
+    if (state === 'paused' && startedAt) pausedTotalMs += Date.now() - pausedAt;
+    state = 'cancelled';
+    wakeWaiters();
+  };
+
+  const getActiveElapsedMs = () => {
+    if (!startedAt) return 0;
+    const now = Date.now();
+    const currentPause = state === 'paused' ? now - pausedAt : 0;
+    return now - startedAt - pausedTotalMs - currentPause;
+  };
+
+  return { run, acquire, proceed, pause, resume, cancel, getState: () => state, getActiveElapsedMs };
+};
+
+// Wraps a provider so every request, including retries and re-splits, waits for the scheduler's budget
+export const rateLimitProvider = (provider: ExtractionProvider, scheduler: BatchScheduler): ExtractionProvider => ({
+  ...provider,
+  extractBatch: async (images: ExtractionImage[], fields: ExtraFieldDefinition[]) => {
+    // Stamp crops cost about as much as another image
+    const imageCount = images.reduce((count, image) => count + (image.stampCrop ? 2 : 1), 0);
+    await scheduler.acquire(estimateRequestTokens(imageCount));
+    return provider.extractBatch(images, fields);
+  }
+});
@@ -0,0 +1,155 @@
+import { StructuredAddress } from "../types";
+import { GeocodingError, ReverseGeocoder, emptyStructuredAddress } from "./reverseGeocoder";
+
+// Offline lookup against a GeoJSON of administrative polygons served with the
+// app (put it in public/). Either layout works:
+//  - one layer of village polygons whose properties carry every parent level
+//    (e.g. BIG's WADMKD/WADMKC/WADMKK/WADMPR or GADM's NAME_1..NAME_4), or
+//  - separate features per level with `level` and `name` properties.
+const DEFAULT_DATASET_URL = '/admin-boundaries.geojson';
+
+type Ring = number[][];
+type Polygon = Ring[];
+
+interface BoundaryFeature {
+  bbox: [number, number, number, number]; // minLng, minLat, maxLng, maxLat
+  area: number; // Of the bbox; smaller features are the more specific ones
+  polygons: Polygon[];
+  fields: Partial<StructuredAddress>;
+}
+
+// Property names per field, compared lowercase
+const PROPERTY_ALIASES: Record<keyof StructuredAddress, string[]> = {
+  street: ['street', 'jalan'],
+  village: ['village', 'desa', 'kelurahan', 'desa_kel', 'wadmkd', 'name_4'],
+  district: ['district', 'kecamatan', 'wadmkc', 'name_3'],
+  city: ['city', 'regency', 'kabupaten', 'kota', 'kabkot', 'wadmkk', 'name_2'],
+  province: ['province', 'provinsi', 'wadmpr', 'name_1'],
+  postalCode: ['postalcode', 'postal_code', 'postcode', 'kode_pos', 'kodepos'],
+  country: ['country', 'negara', 'name_0']
+};
+
+const readFields = (properties: Record<string, unknown>): Partial<StructuredAddress> => {
+  const lower: Record<string, unknown> = {};
+  Object.entries(properties || {}).forEach(([key, value]) => {
+    lower[key.toLowerCase()] = value;
+  });
+
+  const fields: Partial<StructuredAddress> = {};
+  (Object.keys(PROPERTY_ALIASES) as (keyof StructuredAddress)[]).forEach(field => {
+    const key = PROPERTY_ALIASES[field].find(alias => lower[alias] !== undefined && lower[alias] !== null && lower[alias] !== '');
+    if (key) fields[field] = String(lower[key]).trim();
+  });
+
+  // Per-level layout: { level: 'district', name: 'Coblong' }
+  const level = typeof lower.level === 'string' ? lower.level.toLowerCase() : null;
+  if (level && level in PROPERTY_ALIASES && lower.name) {
+    fields[level as keyof StructuredAddress] = String(lower.name).trim();
+  }
+  return fields;
+};
+
+const toBoundaryFeature = (feature: any): BoundaryFeature | null => {
+  const geometry = feature?.geometry;
+  if (!geometry) return null;
+
+  let polygons: Polygon[];
+  if (geometry.type === 'Polygon') polygons = [geometry.coordinates];
+  else if (geometry.type === 'MultiPolygon') polygons = geometry.coordinates;
+  else return null;
+
+  let minLng = Infinity, minLat = Infinity, maxLng = -Infinity, maxLat = -Infinity;
+  polygons.forEach(polygon => polygon[0]?.forEach(([lng, lat]) => {
+    minLng = Math.min(minLng, lng);
+    maxLng = Math.max(maxLng, lng);
+    minLat = Math.min(minLat, lat);
+    maxLat = Math.max(maxLat, lat);
+  }));
+  if (!Number.isFinite(minLng)) return null;
+
+  return {
+    bbox: [minLng, minLat, maxLng, maxLat],
+    area: (maxLng - minLng) * (maxLat - minLat),
+    polygons,
+    fields: readFields(feature.properties)
+  };
+};
+
+// Ray casting; points exactly on an edge may go either way
+const isInsideRing = (lng: number, lat: number, ring: Ring): boolean => {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if ((yi > lat) !== (yj > lat) && lng < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+const isInsidePolygon = (lng: number, lat: number, polygon: Polygon): boolean =>
+  polygon.length > 0 &&
+  isInsideRing(lng, lat, polygon[0]) &&
+  !polygon.slice(1).some(hole => isInsideRing(lng, lat, hole));
+
+const contains = (feature: BoundaryFeature, lng: number, lat: number): boolean => {
+  const [minLng, minLat, maxLng, maxLat] = feature.bbox;
+  if (lng < minLng || lng > maxLng || lat < minLat || lat > maxLat) return false;
+  return feature.polygons.some(polygon => isInsidePolygon(lng, lat, polygon));
+};
+
+let datasetPromise: Promise<BoundaryFeature[]> | null = null;
+
+const loadDataset = (): Promise<BoundaryFeature[]> => {
+  if (!datasetPromise) {
+    const url = process.env.ADMIN_BOUNDARIES_URL || DEFAULT_DATASET_URL;
+    datasetPromise = fetch(url)
+      .then(async response => {
+        // A missing dataset just means nothing gets geocoded. Dev servers may
+        // answer unknown paths with the SPA's index.html instead of a 404.
+        const isHtml = (response.headers.get('content-type') || '').includes('text/html');
+        if (response.status === 404 || (response.ok && isHtml)) {
+          console.warn(`Administrative boundary dataset not found at ${url}; reverse geocoding is disabled.`);
+          return [];
+        }
+        if (!response.ok) {
+          throw new GeocodingError(`Could not load boundary dataset (${response.status} ${response.statusText})`);
+        }
+        const collection = await response.json();
+        const features = Array.isArray(collection?.features) ? collection.features : [];
+        return features
+          .map(toBoundaryFeature)
+          .filter((feature: BoundaryFeature | null): feature is BoundaryFeature => feature !== null);
+      })
+      .catch(error => {
+        // Allow a later lookup to try again
+        datasetPromise = null;
+        throw error;
+      });
+  }
+  return datasetPromise;
+};
+
+const reverse = async (latitude: number, longitude: number): Promise<StructuredAddress | null> => {
+  const features = await loadDataset();
+  const matches = features
+    .filter(feature => contains(feature, longitude, latitude))
+    .sort((a, b) => a.area - b.area);
+  if (matches.length === 0) return null;
+
+  // The most specific polygon wins for each field
+  const address = emptyStructuredAddress();
+  matches.forEach(feature => {
+    (Object.keys(feature.fields) as (keyof StructuredAddress)[]).forEach(field => {
+      if (address[field] === null) address[field] = feature.fields[field] ?? null;
+    });
+  });
+  return address;
+};
+
+export const boundaryGeocoder: ReverseGeocoder = {
+  id: 'boundaries',
+  label: 'Offline boundaries',
+  reverse
+};
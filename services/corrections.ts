@@ -0,0 +1,65 @@
+import { LocationEdit, OriginalValues, ProcessedImage, ResultStatus } from "../types";
+import { isValidLatitude, isValidLongitude, normalizeDate, normalizeTime } from "./validation";
+import { detectAddressMismatch } from "./reverseGeocoder";
+
+const snapshotOriginal = (row: ProcessedImage): OriginalValues => ({
+  address: row.address,
+  latitude: row.latitude,
+  longitude: row.longitude,
+  date: row.date ?? '',
+  time: row.time ?? '',
+  source: row.source,
+  confidence: row.confidence
+});
+
+// Applies a user correction. The values from before the first edit are kept in
+// `originalValues` for audit; later edits never overwrite them.
+export const applyManualEdit = (row: ProcessedImage, edit: LocationEdit): ProcessedImage => {
+  const coordinatesChanged =
+    (edit.latitude !== undefined && edit.latitude !== row.latitude) ||
+    (edit.longitude !== undefined && edit.longitude !== row.longitude);
+
+  const updated: ProcessedImage = {
+    ...row,
+    ...edit,
+    originalValues: row.originalValues ?? snapshotOriginal(row),
+    manuallyVerified: true,
+    status: ResultStatus.OK,
+    error: undefined
+  };
+
+  if (coordinatesChanged) {
+    updated.source = updated.latitude !== null && updated.longitude !== null ? 'manual' : null;
+    updated.confidence = updated.source ? 1 : null;
+    // Looked up again for the new position
+    updated.geocoded = undefined;
+    updated.addressMismatch = undefined;
+  } else if (edit.address !== undefined) {
+    updated.addressMismatch = detectAddressMismatch(updated.address, updated.geocoded);
+  }
+  return updated;
+};
+
+// Parsers for user input; they return undefined when the text is not acceptable
+
+export const parseLatitudeInput = (text: string): number | null | undefined => {
+  if (text === '') return null;
+  const value = Number(text);
+  return isValidLatitude(value) ? value : undefined;
+};
+
+export const parseLongitudeInput = (text: string): number | null | undefined => {
+  if (text === '') return null;
+  const value = Number(text);
+  return isValidLongitude(value) ? value : undefined;
+};
+
+export const parseDateInput = (text: string): string | undefined => {
+  if (text === '') return '';
+  return normalizeDate(text) || undefined;
+};
+
+export const parseTimeInput = (text: string): string | undefined => {
+  if (text === '') return '';
+  return normalizeTime(text) || undefined;
+};
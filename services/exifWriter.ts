@@ -0,0 +1,298 @@
+import { ProcessedImage } from "../types";
+import { createZip } from "./zip";
+import { getRelativePath } from "./sourceFiles";
+import { downloadBlob } from "./exportService";
+
+// Writes GPS and DateTimeOriginal into a copy of a JPEG. Existing IFD0 and Exif
+// tags are carried over; the old GPS block, interop pointer and embedded
+// thumbnail are replaced or dropped so no stale offsets remain.
+
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_INTEROP_IFD = 0xa005;
+const TAG_DATETIME_ORIGINAL = 0x9003;
+const TAG_MAKE = 0x010f;
+const TAG_MODEL = 0x0110;
+
+const TYPE_BYTE = 1;
+const TYPE_ASCII = 2;
+const TYPE_LONG = 4;
+const TYPE_RATIONAL = 5;
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 };
+
+const EXIF_HEADER = [0x45, 0x78, 0x69, 0x66, 0x00, 0x00]; // "Exif\0\0"
+
+// A tag with its value bytes already encoded in the target byte order
+interface RawEntry {
+  tag: number;
+  type: number;
+  count: number;
+  value: Uint8Array;
+}
+
+export interface GeotagData {
+  latitude: number | null;
+  longitude: number | null;
+  date?: string;
+  time?: string;
+  // Camera, carried over when a converted file is tagged from its original; kept if already present
+  make?: string;
+  model?: string;
+}
+
+const readRawIfd = (view: DataView, tiffStart: number, ifdOffset: number, little: boolean): RawEntry[] => {
+  const entries: RawEntry[] = [];
+  const base = tiffStart + ifdOffset;
+  if (ifdOffset === 0 || base + 2 > view.byteLength) return entries;
+
+  const count = view.getUint16(base, little);
+  for (let i = 0; i < count; i++) {
+    const entry = base + 2 + i * 12;
+    if (entry + 12 > view.byteLength) break;
+    const tag = view.getUint16(entry, little);
+    const type = view.getUint16(entry + 2, little);
+    const components = view.getUint32(entry + 4, little);
+    const size = (TYPE_SIZES[type] ?? 0) * components;
+    if (!TYPE_SIZES[type]) continue;
+
+    const valueOffset = size > 4 ? tiffStart + view.getUint32(entry + 8, little) : entry + 8;
+    if (valueOffset + size > view.byteLength) continue;
+    entries.push({
+      tag,
+      type,
+      count: components,
+      value: new Uint8Array(view.buffer.slice(view.byteOffset + valueOffset, view.byteOffset + valueOffset + size))
+    });
+  }
+  return entries;
+};
+
+const asciiEntry = (tag: number, text: string): RawEntry => {
+  const bytes = new Uint8Array(text.length + 1);
+  for (let i = 0; i < text.length; i++) bytes[i] = text.charCodeAt(i) & 0x7f;
+  return { tag, type: TYPE_ASCII, count: bytes.length, value: bytes };
+};
+
+const rationalEntry = (tag: number, values: Array<[number, number]>, little: boolean): RawEntry => {
+  const view = new DataView(new ArrayBuffer(values.length * 8));
+  values.forEach(([numerator, denominator], i) => {
+    view.setUint32(i * 8, numerator, little);
+    view.setUint32(i * 8 + 4, denominator, little);
+  });
+  return { tag, type: TYPE_RATIONAL, count: values.length, value: new Uint8Array(view.buffer) };
+};
+
+const longEntry = (tag: number, value: number, little: boolean): RawEntry => {
+  const view = new DataView(new ArrayBuffer(4));
+  view.setUint32(0, value, little);
+  return { tag, type: TYPE_LONG, count: 1, value: new Uint8Array(view.buffer) };
+};
+
+// Decimal degrees to [deg, min, sec] rationals, seconds to 1/10000. Rounding the
+// total first carries 59.99999" over into the minutes and degrees instead of 60".
+const toDmsRationals = (decimal: number): Array<[number, number]> => {
+  const total = Math.round(Math.abs(decimal) * 3600 * 10000);
+  const degrees = Math.floor(total / (3600 * 10000));
+  const minutes = Math.floor((total % (3600 * 10000)) / (60 * 10000));
+  const seconds = total % (60 * 10000);
+  return [[degrees, 1], [minutes, 1], [seconds, 10000]];
+};
+
+const buildGpsEntries = (latitude: number, longitude: number, little: boolean): RawEntry[] => [
+  { tag: 0x0000, type: TYPE_BYTE, count: 4, value: new Uint8Array([2, 3, 0, 0]) },
+  asciiEntry(0x0001, latitude < 0 ? 'S' : 'N'),
+  rationalEntry(0x0002, toDmsRationals(latitude), little),
+  asciiEntry(0x0003, longitude < 0 ? 'W' : 'E'),
+  rationalEntry(0x0004, toDmsRationals(longitude), little),
+  asciiEntry(0x0012, 'WGS-84')
+];
+
+const ifdSize = (entries: RawEntry[]): number =>
+  2 + entries.length * 12 + 4 + entries.reduce((sum, e) => sum + (e.value.length > 4 ? e.value.length + (e.value.length % 2) : 0), 0);
+
+// Writes an IFD (entries sorted by tag) followed by its out-of-line values at `offset`
+const writeIfd = (target: DataView, offset: number, entries: RawEntry[], little: boolean) => {
+  const sorted = [...entries].sort((a, b) => a.tag - b.tag);
+  target.setUint16(offset, sorted.length, little);
+  let dataOffset = offset + 2 + sorted.length * 12 + 4;
+
+  sorted.forEach((entry, i) => {
+    const at = offset + 2 + i * 12;
+    target.setUint16(at, entry.tag, little);
+    target.setUint16(at + 2, entry.type, little);
+    target.setUint32(at + 4, entry.count, little);
+    const bytes = new Uint8Array(target.buffer, target.byteOffset);
+    if (entry.value.length <= 4) {
+      bytes.set(entry.value, at + 8);
+    } else {
+      target.setUint32(at + 8, dataOffset, little);
+      bytes.set(entry.value, dataOffset);
+      dataOffset += entry.value.length + (entry.value.length % 2);
+    }
+  });
+  target.setUint32(offset + 2 + sorted.length * 12, 0, little); // no next IFD
+};
+
+const buildTiff = (existing: Uint8Array | null, data: GeotagData): Uint8Array => {
+  let little = true;
+  let ifd0: RawEntry[] = [];
+  let exifIfd: RawEntry[] = [];
+
+  if (existing && existing.length >= 8) {
+    const view = new DataView(existing.buffer, existing.byteOffset, existing.byteLength);
+    const order = view.getUint16(0);
+    if (order === 0x4949 || order === 0x4d4d) {
+      little = order === 0x4949;
+      ifd0 = readRawIfd(view, 0, view.getUint32(4, little), little);
+      const exifPointer = ifd0.find(e => e.tag === TAG_EXIF_IFD);
+      if (exifPointer) {
+        const pointer = new DataView(exifPointer.value.buffer).getUint32(0, little);
+        exifIfd = readRawIfd(view, 0, pointer, little);
+      }
+    }
+  }
+
+  ifd0 = ifd0.filter(e => e.tag !== TAG_EXIF_IFD && e.tag !== TAG_GPS_IFD);
+  exifIfd = exifIfd.filter(e => e.tag !== TAG_INTEROP_IFD);
+
+  if (data.date) {
+    const time = data.time || '00:00';
+    const stamp = `${data.date.replace(/-/g, ':')} ${time.length === 5 ? `${time}:00` : time}`;
+    exifIfd = exifIfd.filter(e => e.tag !== TAG_DATETIME_ORIGINAL);
+    exifIfd.push(asciiEntry(TAG_DATETIME_ORIGINAL, stamp));
+  }
+
+  if (data.make && !ifd0.some(e => e.tag === TAG_MAKE)) ifd0.push(asciiEntry(TAG_MAKE, data.make));
+  if (data.model && !ifd0.some(e => e.tag === TAG_MODEL)) ifd0.push(asciiEntry(TAG_MODEL, data.model));
+
+  const gpsIfd = data.latitude !== null && data.longitude !== null
+    ? buildGpsEntries(data.latitude, data.longitude, little)
+    : [];
+
+  // Layout: header | IFD0 | Exif IFD | GPS IFD. Pointer entries take fixed space, so sizes are known up front.
+  const ifd0Entries = ifd0.length + (exifIfd.length > 0 ? 1 : 0) + (gpsIfd.length > 0 ? 1 : 0);
+  const ifd0Offset = 8;
+  const ifd0Size = ifdSize(ifd0) + (ifd0Entries - ifd0.length) * 12;
+  const exifOffset = ifd0Offset + ifd0Size;
+  const exifSize = exifIfd.length > 0 ? ifdSize(exifIfd) : 0;
+  const gpsOffset = exifOffset + exifSize;
+  const gpsSize = gpsIfd.length > 0 ? ifdSize(gpsIfd) : 0;
+
+  if (exifIfd.length > 0) ifd0.push(longEntry(TAG_EXIF_IFD, exifOffset, little));
+  if (gpsIfd.length > 0) ifd0.push(longEntry(TAG_GPS_IFD, gpsOffset, little));
+
+  const output = new Uint8Array(gpsOffset + gpsSize);
+  const view = new DataView(output.buffer);
+  view.setUint16(0, little ? 0x4949 : 0x4d4d);
+  view.setUint16(2, 42, little);
+  view.setUint32(4, ifd0Offset, little);
+
+  writeIfd(view, ifd0Offset, ifd0, little);
+  if (exifIfd.length > 0) writeIfd(view, exifOffset, exifIfd, little);
+  if (gpsIfd.length > 0) writeIfd(view, gpsOffset, gpsIfd, little);
+  return output;
+};
+
+const isExifSegment = (bytes: Uint8Array, start: number) =>
+  EXIF_HEADER.every((value, i) => bytes[start + i] === value);
+
+// Returns a new JPEG with a rebuilt Exif APP1 segment, or throws if not a JPEG
+export const writeGeotagToJpeg = (source: Uint8Array, data: GeotagData): Uint8Array => {
+  if (source[0] !== 0xff || source[1] !== 0xd8) {
+    throw new Error("Only JPEG files can be geotagged");
+  }
+
+  const view = new DataView(source.buffer, source.byteOffset, source.byteLength);
+  const keptSegments: Uint8Array[] = [];
+  let existingTiff: Uint8Array | null = null;
+  let insertAfter = 0; // index in keptSegments after which APP1 goes (after APP0/JFIF)
+  let offset = 2;
+
+  while (offset + 4 <= source.length && source[offset] === 0xff) {
+    const marker = source[offset + 1];
+    if (marker === 0xda) break; // start of scan: the rest is image data
+    const length = view.getUint16(offset + 2);
+    const segment = source.subarray(offset, offset + 2 + length);
+
+    if (marker === 0xe1 && isExifSegment(source, offset + 4)) {
+      existingTiff = existingTiff ?? source.subarray(offset + 10, offset + 2 + length);
+    } else {
+      keptSegments.push(segment);
+      if (marker === 0xe0 && keptSegments.length === 1) insertAfter = 1;
+    }
+    offset += 2 + length;
+  }
+
+  const tiff = buildTiff(existingTiff, data);
+  const app1Length = 2 + EXIF_HEADER.length + tiff.length;
+  if (app1Length > 0xffff) {
+    throw new Error("Exif data too large to write");
+  }
+  const app1 = new Uint8Array(2 + app1Length);
+  app1.set([0xff, 0xe1, app1Length >> 8, app1Length & 0xff]);
+  app1.set(EXIF_HEADER, 4);
+  app1.set(tiff, 4 + EXIF_HEADER.length);
+
+  const parts = [
+    source.subarray(0, 2),
+    ...keptSegments.slice(0, insertAfter),
+    app1,
+    ...keptSegments.slice(insertAfter),
+    source.subarray(offset)
+  ];
+  const output = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let position = 0;
+  parts.forEach(part => {
+    output.set(part, position);
+    position += part.length;
+  });
+  return output;
+};
+
+export const canGeotag = (row: ProcessedImage): boolean =>
+  (row.originalFile.type === 'image/jpeg' || /\.jpe?g$/i.test(row.fileName)) &&
+  ((row.latitude !== null && row.longitude !== null) || Boolean(row.date));
+
+export const createGeotaggedCopy = async (row: ProcessedImage): Promise<File> => {
+  const source = new Uint8Array(await row.originalFile.arrayBuffer());
+  const tagged = writeGeotagToJpeg(source, row);
+  return new File([tagged as BlobPart], row.fileName, { type: 'image/jpeg', lastModified: row.originalFile.lastModified });
+};
+
+export const downloadGeotaggedCopy = async (row: ProcessedImage) => {
+  downloadBlob(await createGeotaggedCopy(row), row.fileName);
+};
+
+// Bundles geotagged copies under their original folder paths; rows that cannot be
+// tagged are skipped and returned so the caller can report them.
+export const downloadGeotaggedZip = async (rows: ProcessedImage[]): Promise<ProcessedImage[]> => {
+  const skipped: ProcessedImage[] = [];
+  const usedNames = new Set<string>();
+  const entries = [];
+
+  for (const row of rows) {
+    if (!canGeotag(row)) {
+      skipped.push(row);
+      continue;
+    }
+    try {
+      const copy = await createGeotaggedCopy(row);
+      // Same-named files get a numeric suffix instead of overwriting each other
+      const path = getRelativePath(row);
+      let name = path;
+      for (let n = 2; usedNames.has(name.toLowerCase()); n++) {
+        name = path.replace(/(\.[^.]*)?$/, ` (${n})$1`);
+      }
+      usedNames.add(name.toLowerCase());
+      entries.push({ name, data: new Uint8Array(await copy.arrayBuffer()), lastModified: row.originalFile.lastModified });
+    } catch (error) {
+      console.error(`Geotag Error (${row.fileName}):`, error);
+      skipped.push(row);
+    }
+  }
+
+  if (entries.length > 0) {
+    downloadBlob(createZip(entries), 'geotagged-photos.zip');
+  }
+  return skipped;
+};
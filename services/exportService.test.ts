@@ -0,0 +1,179 @@
+import { describe, expect, it, vi } from 'vitest';
+import { JSDOM } from 'jsdom';
+import { ProcessedImage, ResultStatus } from '../types';
+import { toCsv, toGeoJson, toGpx, toKml, toKmz, toXlsx } from './exportService';
+import { readZip } from './zip';
+
+const { DOMParser } = new JSDOM().window;
+
+const row = (overrides: Partial<ProcessedImage>): ProcessedImage => ({
+  id: overrides.fileName ?? 'photo',
+  status: ResultStatus.OK,
+  originalFile: new File([], overrides.fileName ?? 'photo.jpg'),
+  previewUrl: '',
+  fileName: 'photo.jpg',
+  address: '',
+  latitude: null,
+  longitude: null,
+  date: '',
+  time: '',
+  source: 'watermark',
+  confidence: 0.9,
+  ...overrides
+});
+
+// Southern and western hemispheres, text that needs escaping in every format,
+// and dates out of file order
+const ROWS: ProcessedImage[] = [
+  row({ fileName: 'b.jpg', latitude: -6.2088, longitude: 106.8456, date: '2024-03-18', time: '14:05', address: 'Jl. "Merdeka", No. 5\nJakarta & <Pusat>' }),
+  row({ fileName: 'a.jpg', latitude: 40.7128, longitude: -74.006, date: '2024-03-17', time: '09:30', address: "O'Brien's, NY" }),
+  row({ fileName: 'c.jpg', latitude: -33.8688, longitude: -151.2093, date: '2024-03-18', time: '08:00' }),
+  row({ fileName: 'undated.jpg', latitude: 1.5, longitude: 2.5 }),
+  row({ fileName: 'nowhere.jpg', status: ResultStatus.FAILED, source: null, confidence: null, error: 'No location' })
+];
+const LOCATED = ROWS.filter(r => r.latitude !== null);
+
+// RFC 4180: quoted fields may hold commas, doubled quotes and line breaks
+const parseCsv = (text: string): string[][] => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\r' && text[i + 1] === '\n') {
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+      i++;
+    } else {
+      field += char;
+    }
+  }
+  record.push(field);
+  records.push(record);
+  return records;
+};
+
+const parseXml = (text: string) => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  expect(doc.getElementsByTagName('parsererror')).toHaveLength(0);
+  return doc;
+};
+
+const zipText = async (archive: Blob, name: string): Promise<string> => {
+  const entry = (await readZip(archive)).find(candidate => candidate.name === name);
+  expect(entry).toBeDefined();
+  return entry!.data.text();
+};
+
+describe('toCsv', () => {
+  it('round-trips signed coordinates and escaped text', () => {
+    const [header, ...records] = parseCsv(toCsv(ROWS));
+    const column = (name: string) => header.indexOf(name);
+    expect(records).toHaveLength(ROWS.length);
+
+    records.forEach((record, index) => {
+      const source = ROWS[index];
+      expect(record).toHaveLength(header.length);
+      expect(record[column('File Name')]).toBe(source.fileName);
+      expect(record[column('Address')]).toBe(source.address);
+      expect(record[column('Latitude')]).toBe(source.latitude === null ? '' : String(source.latitude));
+      expect(record[column('Longitude')]).toBe(source.longitude === null ? '' : String(source.longitude));
+    });
+    expect(Number(records[2][column('Longitude')])).toBe(-151.2093);
+  });
+});
+
+describe('toXlsx', () => {
+  it('writes coordinates as numeric cells and text as escaped inline strings', async () => {
+    const doc = parseXml(await zipText(toXlsx(ROWS), 'xl/worksheets/sheet1.xml'));
+    const sheetRows = Array.from(doc.getElementsByTagName('row'));
+    expect(sheetRows).toHaveLength(ROWS.length + 1);
+
+    const cellsOf = (sheetRow: Element) => Array.from(sheetRow.getElementsByTagName('c'));
+    const header = cellsOf(sheetRows[0]).map(cell => cell.textContent);
+    const cellAt = (rowIndex: number, name: string) => {
+      const letter = String.fromCharCode(65 + header.indexOf(name));
+      return cellsOf(sheetRows[rowIndex]).find(cell => cell.getAttribute('r') === `${letter}${rowIndex + 1}`);
+    };
+
+    const latitude = cellAt(1, 'Latitude')!;
+    expect(latitude.getAttribute('t')).toBeNull();
+    expect(Number(latitude.getElementsByTagName('v')[0].textContent)).toBe(-6.2088);
+    expect(Number(cellAt(2, 'Longitude')!.textContent)).toBe(-74.006);
+    expect(cellAt(1, 'Address')!.getAttribute('t')).toBe('inlineStr');
+    expect(cellAt(1, 'Address')!.textContent).toBe(ROWS[0].address);
+    expect(cellAt(5, 'Latitude')).toBeUndefined();
+  });
+});
+
+describe('toGeoJson', () => {
+  it('writes [longitude, latitude] for located rows only', () => {
+    const { features } = JSON.parse(toGeoJson(ROWS));
+    expect(features).toHaveLength(LOCATED.length);
+    features.forEach((feature: { geometry: { coordinates: number[] }; properties: { fileName: string; address: string | null } }, index: number) => {
+      expect(feature.geometry.coordinates).toEqual([LOCATED[index].longitude, LOCATED[index].latitude]);
+      expect(feature.properties.fileName).toBe(LOCATED[index].fileName);
+      expect(feature.properties.address).toBe(LOCATED[index].address || null);
+    });
+  });
+});
+
+describe('toKml', () => {
+  it('writes signed lon,lat,0 coordinates and escaped names', () => {
+    const doc = parseXml(toKml([...LOCATED, row({ fileName: 'R&D <1>.jpg', latitude: -1, longitude: -2 })]));
+    const placemarks = Array.from(doc.getElementsByTagName('Placemark'));
+    expect(placemarks).toHaveLength(LOCATED.length + 1);
+
+    const coordinates = placemarks.map(placemark => placemark.getElementsByTagName('coordinates')[0].textContent);
+    expect(coordinates[0]).toBe('106.8456,-6.2088,0');
+    expect(coordinates[2]).toBe('-151.2093,-33.8688,0');
+    expect(placemarks[LOCATED.length].getElementsByTagName('name')[0].textContent).toBe('R&D <1>.jpg');
+    expect(placemarks[0].getElementsByTagName('when')[0].textContent).toBe('2024-03-18T14:05:00');
+    expect(placemarks[3].getElementsByTagName('when')).toHaveLength(0);
+  });
+
+  it('packs the same document into a KMZ', async () => {
+    // Node cannot decode images, so thumbnails are skipped as for photos a browser cannot read
+    const warned = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const archive = await toKmz(ROWS);
+    const warnings = warned.mock.calls.length;
+    warned.mockRestore();
+    expect(warnings).toBe(LOCATED.length);
+
+    const doc = parseXml(await zipText(archive, 'doc.kml'));
+    expect(doc.getElementsByTagName('Placemark')).toHaveLength(LOCATED.length);
+    expect((await readZip(archive)).map(entry => entry.name)).toEqual(['doc.kml']);
+  });
+});
+
+describe('toGpx', () => {
+  it('orders waypoints by date and time, undated last', () => {
+    const doc = parseXml(toGpx(ROWS));
+    const waypoints = Array.from(doc.getElementsByTagName('wpt'));
+    const names = waypoints.map(waypoint => waypoint.getElementsByTagName('name')[0].textContent);
+    expect(names).toEqual(['a.jpg', 'c.jpg', 'b.jpg', 'undated.jpg']);
+
+    const c = waypoints[1];
+    expect(Number(c.getAttribute('lat'))).toBe(-33.8688);
+    expect(Number(c.getAttribute('lon'))).toBe(-151.2093);
+    expect(c.getElementsByTagName('time')[0].textContent).toBe('2024-03-18T08:00:00');
+    expect(waypoints[2].getElementsByTagName('desc')[0].textContent).toBe(ROWS[0].address);
+  });
+});
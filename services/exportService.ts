@@ -0,0 +1,294 @@
+import { ExtraFieldDefinition, ProcessedImage } from "../types";
+import { createZip, ZipEntry } from "./zip";
+import { createThumbnail } from "./imageUtils";
+import { ADDRESS_FIELDS } from "./reverseGeocoder";
+import { folderOf, getRelativePath } from "./sourceFiles";
+import { extraCell } from "./extractionTemplates";
+import { RISK_LEVEL_LABELS, formatRiskSignals } from "./authenticity";
+
+export type ExportFormat = 'csv' | 'xlsx' | 'geojson' | 'kml' | 'kmz' | 'gpx';
+
+export const EXPORT_FORMATS: { id: ExportFormat; label: string }[] = [
+  { id: 'csv', label: 'CSV' },
+  { id: 'xlsx', label: 'Excel (XLSX)' },
+  { id: 'geojson', label: 'GeoJSON' },
+  { id: 'kml', label: 'KML' },
+  { id: 'kmz', label: 'KMZ (with thumbnails)' },
+  { id: 'gpx', label: 'GPX waypoints' }
+];
+
+// Column layout shared by CSV and XLSX. Coordinates stay numeric, signed decimal degrees.
+type Cell = string | number | null;
+
+const TABLE_COLUMNS: { header: string; value: (row: ProcessedImage) => Cell }[] = [
+  { header: 'File Name', value: row => row.fileName },
+  { header: 'Folder', value: row => folderOf(getRelativePath(row)) },
+  { header: 'Address', value: row => row.address || '' },
+  { header: 'Latitude', value: row => row.latitude },
+  { header: 'Longitude', value: row => row.longitude },
+  { header: 'Date', value: row => row.date || '' },
+  { header: 'Time', value: row => row.time || '' },
+  ...ADDRESS_FIELDS.map(field => ({
+    header: field.label,
+    value: (row: ProcessedImage): Cell => row.geocoded?.[field.key] ?? ''
+  })),
+  { header: 'Address Mismatch', value: row => (row.addressMismatch ? 'yes' : '') },
+  { header: 'Source', value: row => row.source ?? '' },
+  { header: 'Confidence', value: row => row.confidence },
+  { header: 'Status', value: row => row.status },
+  { header: 'Verified', value: row => (row.manuallyVerified ? 'yes' : '') },
+  { header: 'Error', value: row => row.error ?? '' }
+];
+
+const yesNo = (value: boolean | null | undefined): Cell => (value === null || value === undefined ? '' : value ? 'yes' : 'no');
+const roundMeters = (value: number | null | undefined): Cell => (value === null || value === undefined ? null : Math.round(value));
+
+// Filled in only while reference layers are loaded
+const REFERENCE_COLUMNS: { header: string; value: (row: ProcessedImage) => Cell }[] = [
+  { header: 'Nearest Point', value: row => row.reference?.nearestPoint ?? '' },
+  { header: 'Distance to Point (m)', value: row => roundMeters(row.reference?.pointDistance) },
+  { header: 'At Point', value: row => yesNo(row.reference?.atPoint) },
+  { header: 'Boundary', value: row => row.reference?.boundary ?? '' },
+  { header: 'Outside Boundary By (m)', value: row => roundMeters(row.reference?.boundaryDistance) },
+  { header: 'Inside Boundary', value: row => yesNo(row.reference?.insideBoundary) }
+];
+
+// Empty for rows processed before the authenticity checks existed
+const AUTHENTICITY_COLUMNS: { header: string; value: (row: ProcessedImage) => Cell }[] = [
+  { header: 'Risk', value: row => (row.authenticity ? RISK_LEVEL_LABELS[row.authenticity.level] : '') },
+  { header: 'Risk Signals', value: row => formatRiskSignals(row.authenticity) },
+  { header: 'Camera', value: row => [row.evidence?.make, row.evidence?.model].filter(Boolean).join(' ') },
+  { header: 'Software', value: row => row.evidence?.software ?? '' }
+];
+
+// Reference and authenticity checks follow the built-in columns when any row has
+// them; template fields go last, headed by their names
+const tableColumns = (fields: ExtraFieldDefinition[], rows: ProcessedImage[]) => [
+  ...TABLE_COLUMNS,
+  ...(rows.some(row => row.reference) ? REFERENCE_COLUMNS : []),
+  ...(rows.some(row => row.authenticity) ? AUTHENTICITY_COLUMNS : []),
+  ...fields.map(field => ({ header: field.name, value: (row: ProcessedImage): Cell => extraCell(row.extra?.[field.name]) }))
+];
+
+const hasCoordinates = (row: ProcessedImage): boolean => row.latitude !== null && row.longitude !== null;
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+// Local timestamp for ordering and GPX <time>; the stamp carries no timezone
+const toIsoTimestamp = (row: ProcessedImage): string | null =>
+  row.date ? `${row.date}T${row.time || '00:00'}:00` : null;
+
+const sortByTimestamp = (rows: ProcessedImage[]): ProcessedImage[] =>
+  [...rows].sort((a, b) => {
+    const ta = toIsoTimestamp(a);
+    const tb = toIsoTimestamp(b);
+    if (ta === tb) return a.fileName.localeCompare(b.fileName, undefined, { numeric: true });
+    if (ta === null) return 1;
+    if (tb === null) return -1;
+    return ta < tb ? -1 : 1;
+  });
+
+// --- CSV ---
+
+const escapeCsv = (value: Cell): string => {
+  if (value === null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: ProcessedImage[], fields: ExtraFieldDefinition[] = []): string => {
+  const columns = tableColumns(fields, rows);
+  const lines = [
+    columns.map(column => escapeCsv(column.header)).join(','),
+    ...rows.map(row => columns.map(column => escapeCsv(column.value(row))).join(','))
+  ];
+  return lines.join('\r\n');
+};
+
+// --- XLSX (single sheet, inline strings, no shared styles) ---
+
+const columnLetter = (index: number): string => {
+  let letter = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letter = String.fromCharCode(65 + ((n - 1) % 26)) + letter;
+  }
+  return letter;
+};
+
+const xlsxCell = (value: Cell, ref: string): string => {
+  if (value === null || value === '') return '';
+  if (typeof value === 'number') return `<c r="${ref}"><v>${value}</v></c>`;
+  return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+};
+
+export const toXlsx = (rows: ProcessedImage[], fields: ExtraFieldDefinition[] = []): Blob => {
+  const columns = tableColumns(fields, rows);
+  const sheetRows = [
+    columns.map(column => column.header),
+    ...rows.map(row => columns.map(column => column.value(row)))
+  ].map((cells, rowIndex) =>
+    `<row r="${rowIndex + 1}">${cells.map((cell, colIndex) => xlsxCell(cell, `${columnLetter(colIndex)}${rowIndex + 1}`)).join('')}</row>`
+  );
+
+  const sheet = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>${sheetRows.join('')}</sheetData></worksheet>`;
+
+  const entries: ZipEntry[] = [
+    {
+      name: '[Content_Types].xml',
+      data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/></Types>`
+    },
+    {
+      name: '_rels/.rels',
+      data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`
+    },
+    {
+      name: 'xl/workbook.xml',
+      data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="Results" sheetId="1" r:id="rId1"/></sheets></workbook>`
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/></Relationships>`
+    },
+    { name: 'xl/worksheets/sheet1.xml', data: sheet }
+  ];
+
+  return new Blob([createZip(entries)], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+};
+
+// --- GeoJSON ---
+
+export const toGeoJson = (rows: ProcessedImage[], fields: ExtraFieldDefinition[] = []): string => {
+  const features = rows.filter(hasCoordinates).map(row => ({
+    type: 'Feature',
+    geometry: { type: 'Point', coordinates: [row.longitude, row.latitude] },
+    properties: {
+      fileName: row.fileName,
+      path: getRelativePath(row),
+      address: row.address || null,
+      date: row.date || null,
+      time: row.time || null,
+      source: row.source,
+      confidence: row.confidence,
+      ...(row.geocoded ?? {}),
+      addressMismatch: row.addressMismatch ?? false,
+      ...(row.reference ?? {}),
+      ...(row.authenticity ? { risk: row.authenticity.level, riskSignals: row.authenticity.signals } : {}),
+      ...Object.fromEntries(fields.map(field => [field.name, row.extra?.[field.name] ?? null]))
+    }
+  }));
+  return JSON.stringify({ type: 'FeatureCollection', features }, null, 2);
+};
+
+// --- KML / KMZ ---
+
+const thumbnailPath = (row: ProcessedImage) => `images/${row.id}.jpg`;
+
+export const toKml = (rows: ProcessedImage[], withThumbnails = false): string => {
+  const placemarks = rows.filter(hasCoordinates).map(row => {
+    const details = [
+      row.address,
+      [row.date, row.time].filter(Boolean).join(' '),
+      row.source ? `Source: ${row.source}` : ''
+    ].filter(Boolean).map(escapeXml).join('<br/>');
+    const image = withThumbnails ? `<img src="${thumbnailPath(row)}" width="256"/><br/>` : '';
+    const timestamp = toIsoTimestamp(row);
+
+    return `    <Placemark>
+      <name>${escapeXml(row.fileName)}</name>
+      <description><![CDATA[${image}${details}]]></description>${timestamp ? `
+      <TimeStamp><when>${timestamp}</when></TimeStamp>` : ''}
+      <Point><coordinates>${row.longitude},${row.latitude},0</coordinates></Point>
+    </Placemark>`;
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+  <Document>
+    <name>ARUNDAYA GEOPIX export</name>
+${placemarks.join('\n')}
+  </Document>
+</kml>`;
+};
+
+export const toKmz = async (rows: ProcessedImage[]): Promise<Blob> => {
+  const located = rows.filter(hasCoordinates);
+  const thumbnails = await Promise.all(located.map(row => createThumbnail(row.originalFile)));
+
+  const entries: ZipEntry[] = [{ name: 'doc.kml', data: toKml(located, true) }];
+  for (let i = 0; i < located.length; i++) {
+    const thumbnail = thumbnails[i];
+    if (thumbnail) {
+      entries.push({ name: thumbnailPath(located[i]), data: new Uint8Array(await thumbnail.arrayBuffer()) });
+    }
+  }
+  return new Blob([createZip(entries)], { type: 'application/vnd.google-earth.kmz' });
+};
+
+// --- GPX ---
+
+export const toGpx = (rows: ProcessedImage[]): string => {
+  const waypoints = sortByTimestamp(rows.filter(hasCoordinates)).map(row => {
+    const timestamp = toIsoTimestamp(row);
+    return `  <wpt lat="${row.latitude}" lon="${row.longitude}">${timestamp ? `
+    <time>${timestamp}</time>` : ''}
+    <name>${escapeXml(row.fileName)}</name>${row.address ? `
+    <desc>${escapeXml(row.address)}</desc>` : ''}
+  </wpt>`;
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="ARUNDAYA GEOPIX" xmlns="http://www.topografix.com/GPX/1/1">
+${waypoints.join('\n')}
+</gpx>`;
+};
+
+// --- Download ---
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// `fields` adds the extraction template's columns to CSV, XLSX and GeoJSON
+export const exportResults = async (format: ExportFormat, rows: ProcessedImage[], fields: ExtraFieldDefinition[] = [], baseName = 'geopix-results') => {
+  let blob: Blob;
+  switch (format) {
+    case 'csv':
+      // BOM so Excel opens UTF-8 addresses correctly
+      blob = new Blob(['\uFEFF', toCsv(rows, fields)], { type: 'text/csv;charset=utf-8' });
+      break;
+    case 'xlsx':
+      blob = toXlsx(rows, fields);
+      break;
+    case 'geojson':
+      blob = new Blob([toGeoJson(rows, fields)], { type: 'application/geo+json' });
+      break;
+    case 'kml':
+      blob = new Blob([toKml(rows)], { type: 'application/vnd.google-earth.kml+xml' });
+      break;
+    case 'kmz':
+      blob = await toKmz(rows);
+      break;
+    case 'gpx':
+      blob = new Blob([toGpx(rows)], { type: 'application/gpx+xml' });
+      break;
+  }
+  downloadBlob(blob, `${baseName}.${format}`);
+};
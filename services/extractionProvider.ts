@@ -0,0 +1,141 @@
+import { ExtraFieldDefinition, ExtraFieldType, GeminiResponseItem } from "../types.js";
+
+export type ExtractionProviderId = 'gemini' | 'openai-compatible' | 'mock';
+
+// One photo as sent to a provider: the upload itself, the image to send (a
+// downscaled copy or the original) and optionally a sharper crop of its stamp
+export interface ExtractionImage {
+  file: File;
+  data: Blob;
+  stampCrop: Blob | null;
+}
+
+export const toExtractionImage = (file: File): ExtractionImage => ({ file, data: file, stampCrop: null });
+
+// A backend that reads location data out of a batch of images, plus the extra
+// fields of the extraction template in use (under "extra").
+// Implementations must return exactly one item per input image, in input order.
+export interface ExtractionProvider {
+  id: ExtractionProviderId;
+  label: string;
+  model: string; // As sent to the backend
+  // Changes whenever the prompt, response schema or sampling settings do, so
+  // cached answers given to an older prompt are not reused
+  promptVersion: string;
+  // Returns why the provider cannot run yet (e.g. no API key), or null when it can
+  checkConfiguration?: () => string | null;
+  // Upload bytes one request may carry, when the backend has a body size limit
+  maxBatchBytes?: number;
+  extractBatch: (images: ExtractionImage[], fields: ExtraFieldDefinition[]) => Promise<GeminiResponseItem[]>;
+}
+
+// Simple FNV-1a string hash; only needs to be stable, not secure
+export const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Short version tag for everything that shapes a provider's answers
+export const fingerprint = (...parts: string[]): string => hashString(parts.join('\u0000')).toString(36);
+
+// Helper to read a file as a base64 data URL
+export const readFileAsDataUrl = (file: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = reject;
+    reader.readAsDataURL(file);
+  });
+};
+
+// Labels placed before each image when stamp crops are attached, so the model
+// can tell a photo from the close-up that belongs to it
+export const photoLabel = (index: number) => `Photo ${index + 1}:`;
+export const stampCropLabel = (index: number) => `Stamp close-up of photo ${index + 1}:`;
+
+export const hasStampCrops = (images: ExtractionImage[]): boolean => images.some(image => image.stampCrop !== null);
+
+const STAMP_CROP_INSTRUCTIONS = `
+    Each photo is preceded by a "Photo N:" label. An image labelled "Stamp close-up of photo N:" is an enlarged crop of that same photo's stamp area.
+    Use it only to read the stamped text; it is not a separate photo and gets no result of its own.
+  `;
+
+const FIELD_TYPE_NAMES: Record<ExtraFieldType, string> = {
+  text: 'string',
+  number: 'number',
+  boolean: 'boolean'
+};
+
+// Describes each template field, e.g. `- "altitude" (number): Altitude in metres`
+const describeExtraFields = (fields: ExtraFieldDefinition[]): string =>
+  fields.map(field => `    - "${field.name}" (${FIELD_TYPE_NAMES[field.type]}): ${field.description || field.name}`).join('\n');
+
+// JSON shape of the "extra" object, for providers without a structured schema
+export const describeExtraShape = (fields: ExtraFieldDefinition[]): string =>
+  `{${fields.map(field => `"${field.name}": ${FIELD_TYPE_NAMES[field.type]} | null`).join(', ')}}`;
+
+const extraFieldInstructions = (fields: ExtraFieldDefinition[]): string => fields.length === 0 ? '' : `
+    Also read the following fields from each image (usually from the same stamp) into its "extra" object.
+    Use null for a field that is not visible; do not guess. Numbers are plain numbers without units.
+${describeExtraFields(fields)}
+  `;
+
+export const buildExtractionPrompt = (imageCount: number, withStampCrops = false, fields: ExtraFieldDefinition[] = []): string => `
+    Analyze these ${imageCount} ${withStampCrops ? 'photos' : 'images'} in order.${withStampCrops ? STAMP_CROP_INSTRUCTIONS : ''}
+    For each image:
+    1. Extract the specific GPS coordinates if they are visible text within the image (e.g., stamped by a GPS camera app).
+    2. If no coordinates are written in the text, try to estimate the coordinates based on the location/landmark shown.
+    3. Identify the likely street address or location name.
+    4. Extract the date and time of the photo if visible (e.g., timestamp watermark). Format date as YYYY-MM-DD and time as HH:mm if possible.
+    5. Set coordinateSource to "watermark" if the coordinates were read from visible text, "estimated" if inferred from the scene or landmarks, or "none" if unknown.
+    6. Set confidence between 0 and 1 for how certain you are that the coordinates are correct.
+
+    Return an array of objects, strictly one object per image, preserving the order of the input images.
+    If you cannot determine location, return null for lat/lng but provide a description in the address field.
+    If date/time is not found, return empty strings for those fields.
+  ` + extraFieldInstructions(fields);
+
+// Thrown by providers when a batch cannot be extracted. `status` carries the
+// HTTP status where there is one, so callers can decide whether to retry.
+export class ExtractionError extends Error {
+  status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'ExtractionError';
+    this.status = status;
+  }
+}
+
+// The model answered, but its output cannot be trusted as-is. Retrying the
+// same request rarely helps; a smaller batch usually does.
+export class InvalidResponseError extends ExtractionError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidResponseError';
+  }
+}
+
+// Parses a model reply into an array of items, or throws if the shape is wrong
+export const parseResponseItems = (text: string | undefined): GeminiResponseItem[] => {
+  if (!text) {
+    throw new InvalidResponseError("Model returned an empty response");
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new InvalidResponseError("Model returned invalid JSON");
+  }
+
+  const items = Array.isArray(parsed) ? parsed : (parsed as { results?: unknown })?.results;
+  if (!Array.isArray(items)) {
+    throw new InvalidResponseError("Model response is not an array of results");
+  }
+  return items;
+};
@@ -0,0 +1,100 @@
+import { ExtraFieldType, ExtraValue, ExtractionTemplate } from "../types.js";
+import { ADDRESS_FIELDS } from "./reverseGeocoder.js";
+
+// Extraction templates: named sets of extra fields the model reads from each
+// photo. Templates live in localStorage; each session remembers the one it uses.
+
+const TEMPLATES_KEY = 'arundaya-geopix:templates';
+const LAST_TEMPLATE_KEY = 'arundaya-geopix:last-template';
+
+// Always present and never deleted, so there is something to fall back to
+export const DEFAULT_TEMPLATE_ID = 'location';
+
+export const EXTRA_FIELD_TYPES: { id: ExtraFieldType; label: string }[] = [
+  { id: 'text', label: 'Text' },
+  { id: 'number', label: 'Number' },
+  { id: 'boolean', label: 'Yes / no' }
+];
+
+export const BUILT_IN_TEMPLATES: ExtractionTemplate[] = [
+  { id: DEFAULT_TEMPLATE_ID, name: 'Location only', fields: [] },
+  {
+    id: 'survey-stamp',
+    name: 'Survey stamp',
+    fields: [
+      { name: 'altitude', type: 'number', description: "Altitude or elevation in metres (Alt, Elevation, Ketinggian)" },
+      { name: 'heading', type: 'number', description: "Compass heading or azimuth in degrees, 0-360 (Heading, Azimuth, Arah)" },
+      { name: 'accuracy', type: 'number', description: "GPS accuracy in metres (Accuracy, Akurasi, ±)" },
+      { name: 'siteCode', type: 'text', description: "Project or site code, e.g. a survey point ID" },
+      { name: 'surveyor', type: 'text', description: "Name of the surveyor or photographer written on the stamp" },
+      { name: 'notes', type: 'text', description: "Any other note or description written on the stamp" }
+    ]
+  }
+];
+
+// Keys the response and the exports already use for themselves
+const RESERVED_NAMES = new Set([
+  'address', 'latitude', 'longitude', 'date', 'time', 'foundCoordinates', 'coordinateSource', 'confidence',
+  'extra', 'fileName', 'path', 'source', 'addressMismatch', 'risk', 'riskSignals', ...ADDRESS_FIELDS.map(field => field.key)
+]);
+
+// Returns why a field name cannot be used, or null when it is fine
+export const validateFieldName = (name: string, otherNames: string[]): string | null => {
+  if (!name) return "Name is required";
+  if (!/^[A-Za-z][A-Za-z0-9_]*$/.test(name)) return "Use letters, digits and underscores, starting with a letter";
+  if (RESERVED_NAMES.has(name)) return `"${name}" is already a built-in column`;
+  if (otherNames.includes(name)) return `"${name}" is used twice`;
+  return null;
+};
+
+export const isTemplateValid = (template: ExtractionTemplate): boolean =>
+  template.name.trim() !== '' &&
+  template.fields.every((field, index) =>
+    validateFieldName(field.name, template.fields.filter((_, other) => other !== index).map(other => other.name)) === null
+  );
+
+const isTemplate = (value: unknown): value is ExtractionTemplate => {
+  const candidate = value as ExtractionTemplate;
+  return Boolean(candidate) && typeof candidate.id === 'string' && typeof candidate.name === 'string' && Array.isArray(candidate.fields);
+};
+
+export const loadTemplates = (): ExtractionTemplate[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(TEMPLATES_KEY) ?? 'null');
+    if (Array.isArray(stored)) {
+      const templates = stored.filter(isTemplate);
+      if (!templates.some(template => template.id === DEFAULT_TEMPLATE_ID)) templates.unshift(BUILT_IN_TEMPLATES[0]);
+      return templates;
+    }
+  } catch (error) {
+    console.warn("Stored extraction templates are unreadable, using the built-in ones:", error);
+  }
+  return BUILT_IN_TEMPLATES;
+};
+
+export const saveTemplates = (templates: ExtractionTemplate[]) => {
+  localStorage.setItem(TEMPLATES_KEY, JSON.stringify(templates));
+};
+
+export const findTemplate = (templates: ExtractionTemplate[], id: string | null | undefined): ExtractionTemplate =>
+  templates.find(template => template.id === id) ?? templates.find(template => template.id === DEFAULT_TEMPLATE_ID) ?? BUILT_IN_TEMPLATES[0];
+
+export const createTemplateId = () => `template-${Math.random().toString(36).substring(2, 10)}`;
+
+// Template for new sessions: whichever was picked last
+export const getLastTemplateId = (): string => localStorage.getItem(LAST_TEMPLATE_KEY) || DEFAULT_TEMPLATE_ID;
+
+export const setLastTemplateId = (id: string) => localStorage.setItem(LAST_TEMPLATE_KEY, id);
+
+export const formatExtraValue = (value: ExtraValue | undefined): string => {
+  if (value === null || value === undefined || value === '') return '--';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value);
+};
+
+// Spreadsheet cell for an extra value; numbers stay numeric
+export const extraCell = (value: ExtraValue | undefined): string | number | null => {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'boolean') return value ? 'yes' : 'no';
+  return value;
+};
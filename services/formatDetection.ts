@@ -0,0 +1,53 @@
+// Identifies uploads by their first bytes. MIME types are unreliable here: iPhone
+// HEIC files often arrive with an empty type and RAW files with a generic one.
+
+export type InputFormat = 'jpeg' | 'png' | 'webp' | 'gif' | 'bmp' | 'heic' | 'avif' | 'tiff' | 'raw' | 'pdf' | 'zip' | 'unknown';
+
+const HEADER_BYTES = 64;
+
+// TIFF-based RAW formats can only be told apart from TIFF by extension
+const TIFF_RAW_EXTENSIONS = ['dng', 'nef', 'nrw', 'arw', 'srf', 'sr2', 'cr2', 'pef', 'srw', 'erf', '3fr', 'mef', 'mos', 'iiq', 'rwl'];
+
+const HEIF_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1'];
+const AVIF_BRANDS = ['avif', 'avis'];
+
+const ascii = (bytes: Uint8Array, start: number, length: number): string =>
+  String.fromCharCode(...bytes.subarray(start, start + length));
+
+const extensionOf = (name: string): string => name.split('.').pop()?.toLowerCase() ?? '';
+
+export const detectFormatFromBytes = (bytes: Uint8Array, fileName = ''): InputFormat => {
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'jpeg';
+  if (bytes[0] === 0x89 && ascii(bytes, 1, 3) === 'PNG') return 'png';
+  if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WEBP') return 'webp';
+  if (ascii(bytes, 0, 4) === 'GIF8') return 'gif';
+  if (ascii(bytes, 0, 2) === 'BM') return 'bmp';
+  if (ascii(bytes, 0, 5) === '%PDF-') return 'pdf';
+  if (ascii(bytes, 0, 4) === 'PK\x03\x04' || ascii(bytes, 0, 4) === 'PK\x05\x06') return 'zip';
+
+  // ISO base media: "ftyp" box with a major brand
+  if (ascii(bytes, 4, 4) === 'ftyp') {
+    const brand = ascii(bytes, 8, 4);
+    if (HEIF_BRANDS.includes(brand)) return 'heic';
+    if (AVIF_BRANDS.includes(brand)) return 'avif';
+    if (brand === 'crx ') return 'raw'; // Canon CR3
+    return 'unknown';
+  }
+
+  if (ascii(bytes, 0, 15) === 'FUJIFILMCCD-RAW') return 'raw';
+  // Olympus ORF and Panasonic RW2 use TIFF-like headers with their own magic
+  if (ascii(bytes, 0, 4) === 'IIRO' || ascii(bytes, 0, 4) === 'IIRS' || ascii(bytes, 0, 4) === 'IIU\0') return 'raw';
+
+  const isTiff = ascii(bytes, 0, 4) === 'II*\0' || ascii(bytes, 0, 4) === 'MM\0*';
+  if (isTiff) {
+    if (ascii(bytes, 8, 2) === 'CR') return 'raw'; // Canon CR2
+    return TIFF_RAW_EXTENSIONS.includes(extensionOf(fileName)) ? 'raw' : 'tiff';
+  }
+
+  return 'unknown';
+};
+
+export const detectInputFormat = async (file: File): Promise<InputFormat> => {
+  const bytes = new Uint8Array(await file.slice(0, HEADER_BYTES).arrayBuffer());
+  return detectFormatFromBytes(bytes, file.name);
+};
@@ -0,0 +1,114 @@
+import { GoogleGenAI, Type, Schema } from "@google/genai";
+import { ExtraFieldDefinition, ExtraFieldType, GeminiResponseItem } from "../types.js";
+import { buildExtractionPrompt, parseResponseItems, photoLabel, stampCropLabel } from "./extractionProvider.js";
+
+// The Gemini call itself, shared by the browser (direct mode) and the extraction
+// proxy in server/. Nothing here may touch browser-only APIs.
+
+export const GEMINI_MODELS: { id: string; label: string }[] = [
+  { id: 'gemini-2.5-flash', label: 'Gemini 2.5 Flash (fast, low cost)' },
+  { id: 'gemini-2.5-flash-lite', label: 'Gemini 2.5 Flash-Lite (fastest, cheapest)' },
+  { id: 'gemini-2.5-pro', label: 'Gemini 2.5 Pro (most accurate, slower)' }
+];
+
+export const RESPONSE_SCHEMA: Schema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      address: { type: Type.STRING, description: "The extracted or estimated address/location name." },
+      latitude: { type: Type.NUMBER, nullable: true, description: "Latitude in decimal degrees (e.g., -6.2088). Use negative for South." },
+      longitude: { type: Type.NUMBER, nullable: true, description: "Longitude in decimal degrees (e.g., 106.8456). Use negative for West." },
+      foundCoordinates: { type: Type.BOOLEAN, description: "True if specific coordinates were found/extracted, false if unknown." },
+      coordinateSource: { type: Type.STRING, enum: ["watermark", "estimated", "none"], description: "Where the coordinates came from: read from visible text, estimated from the scene, or none." },
+      confidence: { type: Type.NUMBER, description: "Confidence between 0 and 1 that the coordinates are correct." },
+      date: { type: Type.STRING, description: "Date found on image (YYYY-MM-DD) or empty string" },
+      time: { type: Type.STRING, description: "Time found on image (HH:mm) or empty string" }
+    },
+    required: ["address", "latitude", "longitude", "foundCoordinates", "coordinateSource", "confidence", "date", "time"]
+  }
+};
+
+const FIELD_SCHEMA_TYPES: Record<ExtraFieldType, Type> = {
+  text: Type.STRING,
+  number: Type.NUMBER,
+  boolean: Type.BOOLEAN
+};
+
+// The base schema plus an "extra" object with one nullable property per template field
+const buildResponseSchema = (fields: ExtraFieldDefinition[]): Schema => {
+  if (fields.length === 0) return RESPONSE_SCHEMA;
+  const item = RESPONSE_SCHEMA.items!;
+  return {
+    ...RESPONSE_SCHEMA,
+    items: {
+      ...item,
+      properties: {
+        ...item.properties,
+        extra: {
+          type: Type.OBJECT,
+          properties: Object.fromEntries(fields.map(field => [
+            field.name,
+            { type: FIELD_SCHEMA_TYPES[field.type], nullable: true, description: field.description || field.name }
+          ])),
+          required: fields.map(field => field.name)
+        }
+      },
+      required: [...(item.required ?? []), 'extra']
+    }
+  };
+};
+
+// An image already encoded as base64, as sent inline to Gemini (and to the proxy)
+export interface InlineImage {
+  data: string;
+  mimeType: string;
+  stampCrop?: { data: string; mimeType: string } | null;
+}
+
+export interface GeminiBatchRequest {
+  model: string;
+  temperature: number;
+  images: InlineImage[];
+  fields: ExtraFieldDefinition[];
+}
+
+type Part = { inlineData: { data: string; mimeType: string } } | { text: string };
+
+// With stamp crops, every image is labelled so each crop stays tied to its photo
+const imageToParts = (image: InlineImage, index: number, labelled: boolean): Part[] => {
+  const photo: Part = { inlineData: { data: image.data, mimeType: image.mimeType } };
+  if (!labelled) return [photo];
+
+  const parts: Part[] = [{ text: photoLabel(index) }, photo];
+  if (image.stampCrop) {
+    parts.push({ text: stampCropLabel(index) }, { inlineData: { ...image.stampCrop } });
+  }
+  return parts;
+};
+
+// One generateContent call for the whole batch; the reply is parsed but not validated
+export const requestGeminiBatch = async (apiKey: string, request: GeminiBatchRequest): Promise<GeminiResponseItem[]> => {
+  const { model, temperature, images, fields } = request;
+  const ai = new GoogleGenAI({ apiKey });
+
+  const withStampCrops = images.some(image => Boolean(image.stampCrop));
+  const imageParts = images.flatMap((image, index) => imageToParts(image, index, withStampCrops));
+
+  const response = await ai.models.generateContent({
+    model,
+    contents: {
+      parts: [
+        ...imageParts,
+        { text: buildExtractionPrompt(images.length, withStampCrops, fields) }
+      ]
+    },
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: buildResponseSchema(fields),
+      temperature
+    }
+  });
+
+  return parseResponseItems(response.text);
+};
@@ -1,109 +1,144 @@
-import { GoogleGenAI, Type, Schema } from "@google/genai";
-import { GeminiResponseItem } from "../types";
-
-const MAX_IMAGES_PER_REQUEST = 10;
-
-// Helper to convert file to base64
-const fileToPart = (file: File): Promise<{ inlineData: { data: string; mimeType: string } }> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      const base64String = (reader.result as string).split(',')[1];
-      resolve({
-        inlineData: {
-          data: base64String,
-          mimeType: file.type,
-        },
-      });
-    };
-    reader.onerror = reject;
-    reader.readAsDataURL(file);
-  });
+import { GoogleGenAI } from "@google/genai";
+import { ExtraFieldDefinition, GeminiResponseItem } from "../types";
+import {
+  ExtractionError,
+  ExtractionImage,
+  ExtractionProvider,
+  InvalidResponseError,
+  buildExtractionPrompt,
+  fingerprint,
+  readFileAsDataUrl
+} from "./extractionProvider";
+import { GeminiBatchRequest, InlineImage, RESPONSE_SCHEMA, requestGeminiBatch } from "./geminiRequest";
+import { PROXY_MAX_BATCH_BYTES, ProxyErrorResponse, ProxyExtractResponse, ProxyStatusResponse } from "./proxyProtocol";
+import { AppSettings, getApiKey, getSettings } from "./settingsService";
+
+// Gemini in either of two modes, picked in Settings: direct (the browser calls
+// Gemini with the user's own key) or proxy (batches go to the team's
+// /api/extract server, which holds the key).
+
+const MISSING_KEY_MESSAGE = "No Gemini API key is set. Add your key in Settings.";
+const MISSING_TOKEN_MESSAGE = "No access token for the extraction server is set. Add it in Settings.";
+
+const toBase64 = async (blob: Blob): Promise<string> => (await readFileAsDataUrl(blob)).split(',')[1];
+
+const toInlineImage = async (image: ExtractionImage): Promise<InlineImage> => ({
+  data: await toBase64(image.data),
+  mimeType: image.data.type || image.file.type,
+  stampCrop: image.stampCrop
+    ? { data: await toBase64(image.stampCrop), mimeType: image.stampCrop.type || image.file.type }
+    : null
+});
+
+const proxyHeaders = (settings: AppSettings): Record<string, string> => {
+  const headers: Record<string, string> = { Authorization: `Bearer ${settings.proxyToken}` };
+  if (settings.proxyUser) headers['X-User'] = settings.proxyUser;
+  return headers;
 };
 
-export const processImageBatch = async (files: File[]): Promise<GeminiResponseItem[]> => {
-  if (!process.env.API_KEY) {
-    throw new Error("API Key is missing. Please check your environment configuration.");
+const readProxyError = async (response: Response): Promise<ProxyErrorResponse | null> => {
+  try {
+    const body = await response.json();
+    return typeof body?.error === 'string' ? body : null;
+  } catch {
+    return null;
   }
+};
 
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  
-  // Prepare image parts
-  const imageParts = await Promise.all(files.map(fileToPart));
-
-  const promptText = `
-    Analyze these ${files.length} images in order. 
-    For each image:
-    1. Extract the specific GPS coordinates if they are visible text within the image (e.g., stamped by a GPS camera app). 
-    2. If no coordinates are written in the text, try to estimate the coordinates based on the location/landmark shown. 
-    3. Identify the likely street address or location name.
-    4. Extract the date and time of the photo if visible (e.g., timestamp watermark). Format date as YYYY-MM-DD and time as HH:mm if possible.
-    
-    Return an array of objects, strictly one object per image, preserving the order of the input images.
-    If you cannot determine location, return null for lat/lng but provide a description in the address field.
-    If date/time is not found, return empty strings for those fields.
-  `;
-
-  const responseSchema: Schema = {
-    type: Type.ARRAY,
-    items: {
-      type: Type.OBJECT,
-      properties: {
-        address: { type: Type.STRING, description: "The extracted or estimated address/location name." },
-        latitude: { type: Type.NUMBER, description: "Latitude in decimal degrees (e.g., -6.2088). Use negative for South." },
-        longitude: { type: Type.NUMBER, description: "Longitude in decimal degrees (e.g., 106.8456). Use negative for West." },
-        foundCoordinates: { type: Type.BOOLEAN, description: "True if specific coordinates were found/extracted, false if unknown." },
-        date: { type: Type.STRING, description: "Date found on image (YYYY-MM-DD) or empty string" },
-        time: { type: Type.STRING, description: "Time found on image (HH:mm) or empty string" }
-      },
-      required: ["address", "latitude", "longitude", "foundCoordinates", "date", "time"]
-    }
+// The proxy answers with the same statuses Gemini would, so retries work unchanged
+const requestViaProxy = async (settings: AppSettings, request: GeminiBatchRequest): Promise<GeminiResponseItem[]> => {
+  const response = await fetch(settings.proxyUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...proxyHeaders(settings) },
+    body: JSON.stringify(request)
+  });
+
+  if (!response.ok) {
+    const body = await readProxyError(response);
+    const message = body?.error || `${response.status} ${response.statusText}`;
+    if (body?.code === 'invalid_response') throw new InvalidResponseError(message);
+    throw new ExtractionError(`Extraction server: ${message}`, response.status);
+  }
+
+  const body = (await response.json()) as ProxyExtractResponse;
+  if (!Array.isArray(body?.items)) {
+    throw new InvalidResponseError("Extraction server returned an unexpected response");
+  }
+  return body.items;
+};
+
+export const processImageBatch = async (images: ExtractionImage[], fields: ExtraFieldDefinition[] = []): Promise<GeminiResponseItem[]> => {
+  // Read at call time; Settings may change between runs
+  const settings = getSettings();
+  const request: GeminiBatchRequest = {
+    model: settings.model,
+    temperature: settings.temperature,
+    images: await Promise.all(images.map(toInlineImage)),
+    fields
   };
 
+  if (settings.connection === 'proxy') {
+    if (!settings.proxyToken) throw new ExtractionError(MISSING_TOKEN_MESSAGE);
+    return requestViaProxy(settings, request);
+  }
+
+  const apiKey = getApiKey();
+  if (!apiKey) throw new ExtractionError(MISSING_KEY_MESSAGE);
+  return requestGeminiBatch(apiKey, request);
+};
+
+// Checks settings before they are saved without spending tokens: a model
+// metadata call in direct mode, a GET on the proxy (which spends no quota) in
+// proxy mode. Resolves to null on success, else the reason.
+export const testGeminiConnection = async (settings: AppSettings): Promise<string | null> => {
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash', // Flash is efficient for batch image processing
-      contents: {
-        parts: [
-          ...imageParts,
-          { text: promptText }
-        ]
-      },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: responseSchema,
-        temperature: 0.2 // Low temperature for factual extraction
+    if (settings.connection === 'proxy') {
+      if (!settings.proxyToken) return MISSING_TOKEN_MESSAGE;
+      const response = await fetch(settings.proxyUrl, { headers: proxyHeaders(settings) });
+      if (!response.ok) {
+        const body = await readProxyError(response);
+        return body?.error || `Extraction server returned ${response.status} ${response.statusText}`;
       }
-    });
-
-    if (response.text) {
-      const parsed = JSON.parse(response.text);
-      // Ensure we return an array of the same length, filling gaps if necessary
-      if (Array.isArray(parsed)) {
-        return parsed;
+      const status = (await response.json()) as ProxyStatusResponse;
+      if (!status.models.includes(settings.model)) {
+        return `The server does not allow ${settings.model}; allowed: ${status.models.join(', ')}`;
       }
+      return null;
     }
-    
-    // Fallback if parsing fails or structure is wrong
-    return files.map(() => ({ 
-      address: "Could not process", 
-      latitude: 0, 
-      longitude: 0, 
-      foundCoordinates: false,
-      date: "",
-      time: ""
-    }));
 
+    const { apiKey } = settings;
+    if (!apiKey) return MISSING_KEY_MESSAGE;
+    await new GoogleGenAI({ apiKey }).models.get({ model: settings.model });
+    return null;
   } catch (error) {
-    console.error("Gemini Batch Error:", error);
-    // Return error placeholders so the whole batch doesn't fail silently
-    return files.map(() => ({ 
-      address: "Error processing image", 
-      latitude: 0, 
-      longitude: 0, 
-      foundCoordinates: false,
-      date: "",
-      time: ""
-    }));
+    return error instanceof Error ? error.message : String(error);
   }
-};
\ No newline at end of file
+};
+
+const PROMPT_FINGERPRINT = fingerprint(
+  buildExtractionPrompt(1),
+  buildExtractionPrompt(1, true),
+  JSON.stringify(RESPONSE_SCHEMA)
+);
+
+export const geminiProvider: ExtractionProvider = {
+  id: 'gemini',
+  get label() {
+    return getSettings().connection === 'proxy' ? 'Gemini (team server)' : 'Gemini';
+  },
+  get model() {
+    return getSettings().model;
+  },
+  get promptVersion() {
+    return fingerprint(PROMPT_FINGERPRINT, String(getSettings().temperature));
+  },
+  get maxBatchBytes() {
+    return getSettings().connection === 'proxy' ? PROXY_MAX_BATCH_BYTES : undefined;
+  },
+  checkConfiguration: () => {
+    const settings = getSettings();
+    if (settings.connection === 'proxy') return settings.proxyToken ? null : MISSING_TOKEN_MESSAGE;
+    return getApiKey() ? null : MISSING_KEY_MESSAGE;
+  },
+  extractBatch: processImageBatch
+};
@@ -0,0 +1,21 @@
+import { GeocoderId, ReverseGeocoder } from "./reverseGeocoder";
+import { boundaryGeocoder } from "./boundaryGeocoder";
+import { nominatimGeocoder } from "./nominatimGeocoder";
+
+export const REVERSE_GEOCODERS: Record<GeocoderId, ReverseGeocoder> = {
+  'boundaries': boundaryGeocoder,
+  'nominatim': nominatimGeocoder
+};
+
+// Selected at build time via GEOCODER; defaults to the offline boundary dataset.
+// "none" turns reverse geocoding off.
+export const getReverseGeocoder = (id: string | undefined = process.env.GEOCODER): ReverseGeocoder | null => {
+  if (id === 'none') return null;
+  if (id && id in REVERSE_GEOCODERS) {
+    return REVERSE_GEOCODERS[id as GeocoderId];
+  }
+  if (id) {
+    console.warn(`Unknown geocoder "${id}", falling back to offline boundaries.`);
+  }
+  return boundaryGeocoder;
+};
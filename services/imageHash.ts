@@ -0,0 +1,108 @@
+import { drawToCanvas } from "./imageUtils";
+
+// Content hashes used to spot photos that were added twice. SHA-256 catches
+// byte-identical copies; a difference hash (dHash) of the downscaled image
+// catches resized, recompressed or re-shared copies of the same photo.
+
+export interface ImageHashes {
+  sha256: string; // Hex
+  perceptual: string | null; // 64-bit dHash as 16 hex digits; null if the image could not be decoded
+}
+
+export type DuplicateKind = 'exact' | 'similar';
+
+export interface DuplicateGroup {
+  kind: DuplicateKind; // 'exact' when every member has the same SHA-256
+  ids: string[];
+}
+
+// dHash bits that may differ for two images to still count as the same photo.
+// Recompressed and resized copies typically land at 0-4; consecutive shots of
+// one scene start around 8.
+export const DEFAULT_NEAR_DUPLICATE_DISTANCE = 5;
+
+const toHex = (bytes: Uint8Array): string => Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+
+export const sha256Hex = async (data: Blob): Promise<string> =>
+  toHex(new Uint8Array(await crypto.subtle.digest('SHA-256', await data.arrayBuffer())));
+
+// 9x8 grayscale thumbnail; each bit says whether a pixel is brighter than its right neighbour
+export const differenceHash = async (image: Blob): Promise<string | null> => {
+  try {
+    const bitmap = await createImageBitmap(image, { resizeWidth: 9, resizeHeight: 8, resizeQuality: 'high' });
+    const canvas = drawToCanvas(bitmap, 9, 8);
+    bitmap.close();
+    const { data } = canvas.getContext('2d')!.getImageData(0, 0, 9, 8);
+
+    const bytes = new Uint8Array(8);
+    for (let y = 0; y < 8; y++) {
+      for (let x = 0; x < 8; x++) {
+        const left = (y * 9 + x) * 4;
+        const right = left + 4;
+        const luma = (i: number) => data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
+        if (luma(left) > luma(right)) bytes[y] |= 1 << x;
+      }
+    }
+    return toHex(bytes);
+  } catch {
+    return null;
+  }
+};
+
+export const hashImage = async (file: Blob): Promise<ImageHashes> => ({
+  sha256: await sha256Hex(file),
+  perceptual: await differenceHash(file)
+});
+
+const popCount = (value: number): number => {
+  let count = 0;
+  for (let v = value; v; v &= v - 1) count++;
+  return count;
+};
+
+export const hammingDistance = (a: string, b: string): number => {
+  let distance = 0;
+  for (let i = 0; i < a.length; i += 2) {
+    distance += popCount(parseInt(a.slice(i, i + 2), 16) ^ parseInt(b.slice(i, i + 2), 16));
+  }
+  return distance;
+};
+
+// Groups items that are exact or near duplicates of each other (transitively).
+// Items without hashes are never grouped. Groups keep the order of `items`.
+export const findDuplicateGroups = (
+  items: { id: string; hashes: ImageHashes | null }[],
+  maxDistance = DEFAULT_NEAR_DUPLICATE_DISTANCE
+): DuplicateGroup[] => {
+  const parent = items.map((_, index) => index);
+  const root = (index: number): number => {
+    while (parent[index] !== index) index = parent[index] = parent[parent[index]];
+    return index;
+  };
+
+  for (let i = 0; i < items.length; i++) {
+    const a = items[i].hashes;
+    if (!a) continue;
+    for (let j = i + 1; j < items.length; j++) {
+      const b = items[j].hashes;
+      if (!b) continue;
+      const isMatch = a.sha256 === b.sha256
+        || (maxDistance >= 0 && a.perceptual !== null && b.perceptual !== null && hammingDistance(a.perceptual, b.perceptual) <= maxDistance);
+      if (isMatch) parent[root(j)] = root(i);
+    }
+  }
+
+  const members = new Map<number, number[]>();
+  items.forEach((_, index) => {
+    const group = members.get(root(index)) ?? [];
+    group.push(index);
+    members.set(root(index), group);
+  });
+
+  return [...members.values()]
+    .filter(group => group.length > 1)
+    .map(group => ({
+      kind: group.every(index => items[index].hashes!.sha256 === items[group[0]].hashes!.sha256) ? 'exact' : 'similar',
+      ids: group.map(index => items[index].id)
+    }));
+};
@@ -0,0 +1,91 @@
+import { ExtractionImage, toExtractionImage } from "./extractionProvider";
+
+// Shrinks photos before upload so a batch of phone photos fits the request
+// payload. The work runs in imagePreprocessor.worker.ts.
+
+export interface PreprocessOptions {
+  maxEdge: number; // Longest side in pixels after downscaling
+  format: 'image/jpeg' | 'image/webp';
+  quality: number; // 0..1
+  stampCrop: boolean; // Attach a sharper crop of the stamp band
+  passThroughBytes: number; // Files within maxEdge and below this size are sent as-is
+}
+
+export const DEFAULT_PREPROCESS_OPTIONS: PreprocessOptions = {
+  maxEdge: 1600,
+  format: 'image/jpeg',
+  quality: 0.85,
+  stampCrop: true,
+  passThroughBytes: 1024 * 1024
+};
+
+export interface PreprocessRequest {
+  id: number;
+  file: Blob;
+  options: PreprocessOptions;
+}
+
+export type PreprocessResponse =
+  | { id: number; data: Blob; stampCrop: Blob | null }
+  | { id: number; error: string };
+
+let worker: Worker | null = null;
+let nextRequestId = 0;
+const pending = new Map<number, (response: PreprocessResponse) => void>();
+
+const getWorker = (): Worker | null => {
+  if (typeof Worker === 'undefined' || typeof OffscreenCanvas === 'undefined') return null;
+  if (!worker) {
+    worker = new Worker(new URL('./imagePreprocessor.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<PreprocessResponse>) => {
+      const resolve = pending.get(event.data.id);
+      pending.delete(event.data.id);
+      resolve?.(event.data);
+    };
+  }
+  return worker;
+};
+
+// Falls back to sending the original when the browser lacks OffscreenCanvas in
+// workers or cannot decode the file
+export const prepareImage = async (file: File, options: PreprocessOptions = DEFAULT_PREPROCESS_OPTIONS): Promise<ExtractionImage> => {
+  const preprocessor = getWorker();
+  if (!preprocessor) return toExtractionImage(file);
+
+  const id = nextRequestId++;
+  const response = await new Promise<PreprocessResponse>(resolve => {
+    pending.set(id, resolve);
+    const request: PreprocessRequest = { id, file, options };
+    preprocessor.postMessage(request);
+  });
+
+  if ('error' in response) {
+    console.warn(`Preprocessing failed for ${file.name}, sending the original:`, response.error);
+    return toExtractionImage(file);
+  }
+  return { file, data: response.data, stampCrop: response.stampCrop };
+};
+
+export const getUploadBytes = (image: ExtractionImage): number => image.data.size + (image.stampCrop?.size ?? 0);
+
+// Fills each batch up to `byteBudget` of upload size, capped at `maxCount` items.
+// An item larger than the budget on its own still gets a batch of one.
+export const groupByByteBudget = <T>(items: T[], sizeOf: (item: T) => number, byteBudget: number, maxCount: number): T[][] => {
+  const batches: T[][] = [];
+  let current: T[] = [];
+  let currentBytes = 0;
+
+  items.forEach(item => {
+    const bytes = sizeOf(item);
+    if (current.length > 0 && (currentBytes + bytes > byteBudget || current.length >= maxCount)) {
+      batches.push(current);
+      current = [];
+      currentBytes = 0;
+    }
+    current.push(item);
+    currentBytes += bytes;
+  });
+
+  if (current.length > 0) batches.push(current);
+  return batches;
+};
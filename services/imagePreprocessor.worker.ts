@@ -0,0 +1,69 @@
+// Downscales and re-encodes photos off the main thread with OffscreenCanvas.
+// Protocol: { id, file, options } in, { id, data, stampCrop } or { id, error } out.
+
+import type { PreprocessOptions, PreprocessRequest, PreprocessResponse } from './imagePreprocessor';
+
+const scope = self as unknown as {
+  addEventListener: (type: 'message', listener: (event: MessageEvent<PreprocessRequest>) => void) => void;
+  postMessage: (message: PreprocessResponse) => void;
+};
+
+// The band GPS-camera apps stamp into, as fractions of the image height
+const STAMP_TOP = 0.65;
+// Crops are only worth sending when the photo itself lost this much detail
+const MIN_DOWNSCALE_FOR_CROP = 0.75;
+
+const encode = (bitmap: ImageBitmap, sx: number, sy: number, sw: number, sh: number, width: number, height: number, options: PreprocessOptions): Promise<Blob> => {
+  const canvas = new OffscreenCanvas(width, height);
+  const context = canvas.getContext('2d')!;
+  context.drawImage(bitmap, sx, sy, sw, sh, 0, 0, width, height);
+  return canvas.convertToBlob({ type: options.format, quality: options.quality });
+};
+
+const preprocess = async (file: Blob, options: PreprocessOptions): Promise<{ data: Blob; stampCrop: Blob | null }> => {
+  const bitmap = await createImageBitmap(file);
+  try {
+    const longEdge = Math.max(bitmap.width, bitmap.height);
+    const scale = Math.min(1, options.maxEdge / longEdge);
+
+    // Already small enough: keep the original bytes rather than re-encode them
+    if (scale === 1 && file.size <= options.passThroughBytes) {
+      return { data: file, stampCrop: null };
+    }
+
+    const width = Math.max(1, Math.round(bitmap.width * scale));
+    const height = Math.max(1, Math.round(bitmap.height * scale));
+    const data = await encode(bitmap, 0, 0, bitmap.width, bitmap.height, width, height, options);
+
+    let stampCrop: Blob | null = null;
+    if (options.stampCrop && scale < MIN_DOWNSCALE_FOR_CROP) {
+      // The bottom band at up to maxEdge wide, so small print stays legible
+      const cropY = Math.round(bitmap.height * STAMP_TOP);
+      const cropHeight = bitmap.height - cropY;
+      const cropScale = Math.min(1, options.maxEdge / bitmap.width);
+      stampCrop = await encode(
+        bitmap, 0, cropY, bitmap.width, cropHeight,
+        Math.round(bitmap.width * cropScale), Math.max(1, Math.round(cropHeight * cropScale)),
+        options
+      );
+    }
+
+    return { data, stampCrop };
+  } finally {
+    bitmap.close();
+  }
+};
+
+// Handled one at a time; a decoded 48 MP photo alone takes ~200 MB
+let queue: Promise<void> = Promise.resolve();
+
+scope.addEventListener('message', event => {
+  const { id, file, options } = event.data;
+  queue = queue.then(async () => {
+    try {
+      scope.postMessage({ id, ...(await preprocess(file, options)) });
+    } catch (error) {
+      scope.postMessage({ id, error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+});
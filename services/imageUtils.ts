@@ -0,0 +1,40 @@
+// Small JPEG preview used for persisted sessions and exports. Returns null for
+// formats the browser cannot decode.
+export const createThumbnail = async (file: Blob, maxEdge = 256): Promise<Blob | null> => {
+  try {
+    const bitmap = await createImageBitmap(file);
+    const scale = Math.min(1, maxEdge / Math.max(bitmap.width, bitmap.height));
+    const width = Math.max(1, Math.round(bitmap.width * scale));
+    const height = Math.max(1, Math.round(bitmap.height * scale));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d');
+    if (!context) return null;
+    context.drawImage(bitmap, 0, 0, width, height);
+    bitmap.close();
+
+    return await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.8));
+  } catch (error) {
+    console.warn("Thumbnail generation failed:", error);
+    return null;
+  }
+};
+
+// Draws onto a white canvas so transparent areas do not turn black in JPEG
+export const drawToCanvas = (source: CanvasImageSource, width: number, height: number): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d')!;
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, width, height);
+  context.drawImage(source, 0, 0, width, height);
+  return canvas;
+};
+
+export const canvasToJpeg = (canvas: HTMLCanvasElement, quality = 0.92): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error("Canvas could not be encoded"))), 'image/jpeg', quality);
+  });
@@ -0,0 +1,270 @@
+import { InputFormat, detectInputFormat } from "./formatDetection";
+import { canvasToJpeg, drawToCanvas } from "./imageUtils";
+import { hasUsableCoordinates, readEmbeddedMetadata } from "./metadataService";
+import { writeGeotagToJpeg } from "./exifWriter";
+import { SourceFile, folderOf, joinPath } from "./sourceFiles";
+import { readZip } from "./zip";
+
+// Turns whatever was dropped into files the extraction providers accept
+// (JPEG, PNG, WEBP). Everything else is decoded in the browser and re-encoded
+// as JPEG; PDFs become one JPEG per page and ZIP archives are unpacked into a
+// folder named after the archive.
+
+export interface RejectedFile {
+  name: string;
+  reason: string;
+}
+
+export interface IngestResult {
+  accepted: SourceFile[];
+  rejected: RejectedFile[];
+}
+
+const MIME_TYPES: Partial<Record<InputFormat, string>> = {
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp'
+};
+
+// Long edge of a rendered PDF page; enough to read small print on site reports
+const PDF_RENDER_EDGE = 2000;
+
+const baseName = (name: string): string => name.replace(/\.[^./]+$/, '');
+
+const toJpegFile = (blob: Blob, name: string, source: File): File =>
+  new File([blob], `${name}.jpg`, { type: 'image/jpeg', lastModified: source.lastModified });
+
+// Conversion drops EXIF, so GPS, capture time and camera from the original are
+// written into the JPEG unless it already carries a location of its own
+const carryMetadata = async (original: File, jpeg: Blob): Promise<Blob> => {
+  const metadata = await readEmbeddedMetadata(original);
+  const hasLocation = hasUsableCoordinates(metadata);
+  if (!metadata || (!hasLocation && !metadata.date && !metadata.make && !metadata.model)) return jpeg;
+  if (hasUsableCoordinates(await readEmbeddedMetadata(jpeg))) return jpeg;
+
+  const tagged = writeGeotagToJpeg(new Uint8Array(await jpeg.arrayBuffer()), {
+    latitude: hasLocation ? metadata.latitude : null,
+    longitude: hasLocation ? metadata.longitude : null,
+    date: metadata.date,
+    time: metadata.time,
+    make: metadata.make,
+    model: metadata.model
+  });
+  return new Blob([tagged as BlobPart], { type: 'image/jpeg' });
+};
+
+// Formats the browser itself can decode (GIF, BMP, AVIF; HEIC and TIFF in Safari)
+const decodeNatively = async (file: Blob): Promise<Blob | null> => {
+  try {
+    const bitmap = await createImageBitmap(file);
+    const canvas = drawToCanvas(bitmap, bitmap.width, bitmap.height);
+    bitmap.close();
+    return await canvasToJpeg(canvas);
+  } catch {
+    return null;
+  }
+};
+
+const convertHeic = async (file: File): Promise<Blob> => {
+  const native = await decodeNatively(file);
+  if (native) return native;
+
+  const { default: heic2any } = await import('heic2any');
+  const result = await heic2any({ blob: file, toType: 'image/jpeg', quality: 0.92 });
+  // Image sequences (bursts, live photos) convert to several frames; keep the first
+  return Array.isArray(result) ? result[0] : result;
+};
+
+const convertTiff = async (file: File): Promise<Blob> => {
+  const native = await decodeNatively(file);
+  if (native) return native;
+
+  const UTIF = await import('utif');
+  const buffer = await file.arrayBuffer();
+  const ifds = UTIF.decode(buffer);
+  // Multi-page TIFFs and ones with thumbnails: the largest image is the photo
+  ifds.forEach(ifd => UTIF.decodeImage(buffer, ifd));
+  const page = ifds
+    .filter(ifd => ifd.width > 0 && ifd.height > 0)
+    .sort((a, b) => b.width * b.height - a.width * a.height)[0];
+  if (!page) throw new Error("TIFF contains no readable image");
+
+  const canvas = document.createElement('canvas');
+  canvas.width = page.width;
+  canvas.height = page.height;
+  const pixels = new Uint8ClampedArray(UTIF.toRGBA8(page));
+  canvas.getContext('2d')!.putImageData(new ImageData(pixels, page.width, page.height), 0, 0);
+  return canvasToJpeg(canvas);
+};
+
+// Finds the end of the JPEG starting at `start` and its frame size. Returns
+// null for lossless JPEG (SOF3), which RAW files use for sensor data that
+// browsers cannot display.
+const measureJpeg = (bytes: Uint8Array, start: number): { end: number; pixels: number } | null => {
+  let offset = start + 2;
+  let pixels = 0;
+
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff) return null;
+    const marker = bytes[offset + 1];
+    if (marker === 0xff) {
+      offset++; // Fill byte
+      continue;
+    }
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+
+    if (marker === 0xc0 || marker === 0xc1 || marker === 0xc2) {
+      const height = (bytes[offset + 5] << 8) | bytes[offset + 6];
+      const width = (bytes[offset + 7] << 8) | bytes[offset + 8];
+      pixels = width * height;
+    } else if (marker >= 0xc3 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return null;
+    }
+
+    if (marker === 0xda) {
+      // Entropy-coded data never contains FF D9, so the first one ends the image
+      for (let i = offset + 2 + length; i + 1 < bytes.length; i++) {
+        if (bytes[i] === 0xff && bytes[i + 1] === 0xd9) {
+          return pixels > 0 ? { end: i + 2, pixels } : null;
+        }
+      }
+      return null;
+    }
+    offset += 2 + length;
+  }
+  return null;
+};
+
+// RAW files embed one or more JPEG previews; the largest is usually full size
+const extractRawPreview = async (file: File): Promise<Blob> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  let best: { start: number; end: number; pixels: number } | null = null;
+
+  for (let i = 0; i + 3 < bytes.length; i++) {
+    if (bytes[i] !== 0xff || bytes[i + 1] !== 0xd8 || bytes[i + 2] !== 0xff) continue;
+    const jpeg = measureJpeg(bytes, i);
+    if (!jpeg) continue;
+    if (!best || jpeg.pixels > best.pixels) best = { start: i, ...jpeg };
+    i = jpeg.end - 1;
+  }
+
+  if (!best) throw new Error("RAW file has no embedded JPEG preview");
+  return new Blob([bytes.slice(best.start, best.end)], { type: 'image/jpeg' });
+};
+
+const convertPdf = async (file: File): Promise<File[]> => {
+  const pdfjs = await import('pdfjs-dist');
+  const { default: workerUrl } = await import('pdfjs-dist/build/pdf.worker.min.mjs?url');
+  pdfjs.GlobalWorkerOptions.workerSrc = workerUrl;
+
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  const pages: File[] = [];
+  try {
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const natural = page.getViewport({ scale: 1 });
+      const viewport = page.getViewport({ scale: PDF_RENDER_EDGE / Math.max(natural.width, natural.height) });
+
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(viewport.width);
+      canvas.height = Math.round(viewport.height);
+      await page.render({ canvasContext: canvas.getContext('2d')!, viewport }).promise;
+      page.cleanup();
+
+      const suffix = pdf.numPages > 1 ? ` (page ${pageNumber})` : '';
+      pages.push(toJpegFile(await canvasToJpeg(canvas, 0.9), `${baseName(file.name)}${suffix}`, file));
+    }
+  } finally {
+    await pdf.destroy();
+  }
+  return pages;
+};
+
+const convertFile = async (file: File, format: InputFormat): Promise<File[]> => {
+  switch (format) {
+    case 'jpeg':
+    case 'png':
+    case 'webp':
+      // Accepted as is; the MIME type is fixed up when the browser left it empty
+      return [file.type === MIME_TYPES[format] ? file : new File([file], file.name, { type: MIME_TYPES[format], lastModified: file.lastModified })];
+    case 'heic':
+      return [toJpegFile(await carryMetadata(file, await convertHeic(file)), baseName(file.name), file)];
+    case 'tiff':
+      return [toJpegFile(await carryMetadata(file, await convertTiff(file)), baseName(file.name), file)];
+    case 'raw':
+      return [toJpegFile(await carryMetadata(file, await extractRawPreview(file)), baseName(file.name), file)];
+    case 'gif':
+    case 'bmp':
+    case 'avif': {
+      const jpeg = await decodeNatively(file);
+      if (!jpeg) throw new Error(`This browser cannot decode ${format.toUpperCase()} images`);
+      return [toJpegFile(jpeg, baseName(file.name), file)];
+    }
+    case 'pdf':
+      return convertPdf(file);
+    default:
+      throw new Error("Unsupported file type");
+  }
+};
+
+// Archive clutter from macOS and Windows that is never a photo
+const isArchiveJunk = (path: string): boolean =>
+  path.startsWith('__MACOSX/') || /(^|\/)(\._[^/]*|\.DS_Store|Thumbs\.db|desktop\.ini)$/i.test(path);
+
+const expandZip = async (source: SourceFile): Promise<SourceFile[]> => {
+  const folder = joinPath(folderOf(source.path), baseName(source.file.name));
+  const entries = await readZip(source.file);
+  return entries
+    .filter(entry => !isArchiveJunk(entry.name))
+    .map(entry => ({
+      file: new File([entry.data], entry.name.split('/').pop()!, { lastModified: entry.lastModified }),
+      path: joinPath(folder, entry.name)
+    }));
+};
+
+const FORMAT_LABELS: Partial<Record<InputFormat, string>> = {
+  heic: 'HEIC',
+  tiff: 'TIFF',
+  raw: 'RAW',
+  pdf: 'PDF'
+};
+
+// Converts files one at a time; a 50 MB RAW or long PDF is heavy enough on its own.
+// Converted files keep the folder of their source; ZIP contents (including
+// nested archives) are processed in place of the archive.
+export const ingestFiles = async (sources: SourceFile[]): Promise<IngestResult> => {
+  const accepted: SourceFile[] = [];
+  const rejected: RejectedFile[] = [];
+  const pending = [...sources];
+
+  while (pending.length > 0) {
+    const source = pending.shift()!;
+    const { file } = source;
+    if (file.size === 0) {
+      rejected.push({ name: source.path, reason: "File is empty" });
+      continue;
+    }
+    let format: InputFormat | null = null;
+    try {
+      format = await detectInputFormat(file);
+      if (format === 'zip') {
+        const contents = await expandZip(source);
+        if (contents.length === 0) throw new Error("Archive is empty");
+        pending.unshift(...contents);
+        continue;
+      }
+      const converted = await convertFile(file, format);
+      if (converted.length === 0) throw new Error("No pages found");
+      const folder = folderOf(source.path);
+      accepted.push(...converted.map(output => ({ file: output, path: joinPath(folder, output.name) })));
+    } catch (error) {
+      // A file that could not even be read has no format
+      const label = format && FORMAT_LABELS[format];
+      const message = error instanceof Error ? error.message : String(error);
+      const reason = format === 'zip' ? `Could not open ZIP: ${message}` : label ? `Could not convert ${label}: ${message}` : message;
+      rejected.push({ name: source.path, reason });
+    }
+  }
+
+  return { accepted, rejected };
+};
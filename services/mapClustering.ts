@@ -0,0 +1,39 @@
+// Grid clustering for map markers. Points are given in pixel coordinates at the
+// current zoom; points sharing a grid cell become one cluster, placed at their
+// centroid. Clusters are recomputed on every zoom, which stays fast for tens of
+// thousands of points since each pass is linear.
+
+export interface ClusterPoint<T> {
+  item: T;
+  x: number;
+  y: number;
+}
+
+export interface Cluster<T> {
+  items: T[];
+  x: number;
+  y: number;
+}
+
+export const DEFAULT_CLUSTER_CELL_SIZE = 64;
+
+export const clusterPoints = <T>(points: ClusterPoint<T>[], cellSize = DEFAULT_CLUSTER_CELL_SIZE): Cluster<T>[] => {
+  const cells = new Map<string, { items: T[]; sumX: number; sumY: number }>();
+  points.forEach(point => {
+    const key = `${Math.floor(point.x / cellSize)}:${Math.floor(point.y / cellSize)}`;
+    const cell = cells.get(key);
+    if (cell) {
+      cell.items.push(point.item);
+      cell.sumX += point.x;
+      cell.sumY += point.y;
+    } else {
+      cells.set(key, { items: [point.item], sumX: point.x, sumY: point.y });
+    }
+  });
+
+  return [...cells.values()].map(cell => ({
+    items: cell.items,
+    x: cell.sumX / cell.items.length,
+    y: cell.sumY / cell.items.length
+  }));
+};
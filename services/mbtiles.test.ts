@@ -0,0 +1,140 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import initSqlJs, { Database, SqlJsStatic } from 'sql.js';
+import { openMbtiles } from './mbtiles';
+
+// Fixtures are built with real SQLite (sql.js). Small pages give the tables and
+// indexes several levels of interior pages, and large tiles overflow their page.
+
+let SQL: SqlJsStatic;
+beforeAll(async () => {
+  SQL = await initSqlJs();
+});
+
+const PAGE_SIZE = 1024;
+const ZOOM = 4; // 16 x 16 tiles
+
+// Distinct bytes per tile; every fourth tile is bigger than a page
+const tileBytes = (z: number, x: number, row: number): Uint8Array => {
+  const size = (x + row) % 4 === 0 ? 3 * PAGE_SIZE + 123 : 40 + x;
+  return Uint8Array.from({ length: size }, (_, i) => (z * 31 + x * 7 + row * 13 + i) % 256);
+};
+
+const createDatabase = (statements: string): Database => {
+  const db = new SQL.Database();
+  db.run(`PRAGMA page_size = ${PAGE_SIZE}; VACUUM;`);
+  db.run(statements);
+  return db;
+};
+
+const addMetadata = (db: Database, metadata: Record<string, string>) => {
+  Object.entries(metadata).forEach(([name, value]) => db.run('INSERT INTO metadata VALUES (?, ?)', [name, value]));
+};
+
+const eachTile = (callback: (x: number, row: number) => void) => {
+  for (let x = 0; x < 2 ** ZOOM; x++) {
+    for (let row = 0; row < 2 ** ZOOM; row++) callback(x, row);
+  }
+};
+
+// Rows go in shuffled, so rowid order differs from key order
+const shuffledTiles = (): [number, number][] => {
+  const tiles: [number, number][] = [];
+  eachTile((x, row) => tiles.push([x, row]));
+  return tiles.sort((a, b) => ((a[0] * 37 + a[1] * 11) % 29) - ((b[0] * 37 + b[1] * 11) % 29));
+};
+
+const toFile = (db: Database, name = 'fixture.mbtiles'): File => {
+  const bytes = db.export();
+  db.close();
+  return new File([bytes as BlobPart], name);
+};
+
+const buildTilesTable = (indexed: boolean, metadata: Record<string, string> = { name: 'Site basemap', format: 'png' }): File => {
+  const db = createDatabase(`
+    CREATE TABLE metadata (name text, value text);
+    CREATE TABLE tiles (zoom_level integer, tile_column integer, tile_row integer, tile_data blob);
+    ${indexed ? 'CREATE UNIQUE INDEX tile_index ON tiles (zoom_level, tile_column, tile_row);' : ''}
+  `);
+  addMetadata(db, metadata);
+  shuffledTiles().forEach(([x, row]) => db.run('INSERT INTO tiles VALUES (?, ?, ?, ?)', [ZOOM, x, row, tileBytes(ZOOM, x, row)]));
+  return toFile(db);
+};
+
+// The deduplicated layout written by tools such as mbutil and tilelive
+const buildMapImages = (): File => {
+  const db = createDatabase(`
+    CREATE TABLE metadata (name text, value text);
+    CREATE TABLE map (zoom_level INTEGER, tile_column INTEGER, tile_row INTEGER, tile_id TEXT);
+    CREATE TABLE images (tile_data blob, tile_id text);
+    CREATE UNIQUE INDEX map_index ON map (zoom_level, tile_column, tile_row);
+    CREATE UNIQUE INDEX images_id ON images (tile_id);
+    CREATE VIEW tiles AS SELECT map.zoom_level AS zoom_level, map.tile_column AS tile_column, map.tile_row AS tile_row,
+      images.tile_data AS tile_data FROM map JOIN images ON images.tile_id = map.tile_id;
+  `);
+  addMetadata(db, { format: 'jpg', minzoom: '2', maxzoom: '4', bounds: '106.7,-6.3,106.9,-6.1', attribution: '© Survey team' });
+  shuffledTiles().forEach(([x, row]) => {
+    const id = `t${x}-${row}`;
+    db.run('INSERT INTO map VALUES (?, ?, ?, ?)', [ZOOM, x, row, id]);
+    db.run('INSERT INTO images VALUES (?, ?)', [tileBytes(ZOOM, x, row), id]);
+  });
+  return toFile(db);
+};
+
+const bytesOf = async (blob: Blob | null): Promise<Uint8Array | null> => (blob ? new Uint8Array(await blob.arrayBuffer()) : null);
+
+// The map counts rows from the north, MBTiles from the south
+const mapY = (row: number) => 2 ** ZOOM - 1 - row;
+
+const expectAllTiles = async (file: File) => {
+  const source = await openMbtiles(file);
+  const reads: Promise<void>[] = [];
+  eachTile((x, row) => {
+    reads.push(source.getTile(ZOOM, x, mapY(row)).then(async blob => {
+      expect(await bytesOf(blob)).toEqual(tileBytes(ZOOM, x, row));
+    }));
+  });
+  await Promise.all(reads);
+  return source;
+};
+
+describe('openMbtiles', () => {
+  it('reads every tile through the index, overflow pages included', async () => {
+    const source = await expectAllTiles(buildTilesTable(true));
+    expect(source.name).toBe('Site basemap');
+    expect((await source.getTile(ZOOM, 0, mapY(0)))!.type).toBe('image/png');
+  });
+
+  it('reads every tile from a table without an index', async () => {
+    await expectAllTiles(buildTilesTable(false));
+  });
+
+  it('reads the map/images layout and its metadata', async () => {
+    const source = await expectAllTiles(buildMapImages());
+    expect(source).toMatchObject({ minZoom: 2, maxZoom: 4, bounds: [106.7, -6.3, 106.9, -6.1], attribution: '© Survey team' });
+    expect((await source.getTile(ZOOM, 1, mapY(1)))!.type).toBe('image/jpeg');
+  });
+
+  it.each([
+    ['indexed', true],
+    ['unindexed', false]
+  ])('returns null for missing tiles (%s)', async (_, indexed) => {
+    const source = await openMbtiles(buildTilesTable(indexed as boolean));
+    expect(await source.getTile(ZOOM, 2 ** ZOOM, 0)).toBeNull();
+    expect(await source.getTile(ZOOM + 1, 0, 0)).toBeNull();
+    expect(await source.getTile(0, 0, 0)).toBeNull();
+  });
+
+  it('falls back to the file name and default zooms without metadata', async () => {
+    const db = createDatabase('CREATE TABLE tiles (zoom_level integer, tile_column integer, tile_row integer, tile_data blob);');
+    db.run('INSERT INTO tiles VALUES (0, 0, 0, ?)', [Uint8Array.of(1, 2, 3)]);
+    const source = await openMbtiles(toFile(db, 'Kebun Raya.mbtiles'));
+    expect(source).toMatchObject({ name: 'Kebun Raya', minZoom: 0, maxZoom: 19, bounds: null, attribution: '' });
+    expect(await bytesOf(await source.getTile(0, 0, 0))).toEqual(Uint8Array.of(1, 2, 3));
+  });
+
+  it('rejects vector tiles and files that are not MBTiles', async () => {
+    await expect(openMbtiles(buildTilesTable(true, { format: 'pbf' }))).rejects.toThrow(/"pbf" tiles are not supported/);
+    await expect(openMbtiles(new File(['not a database'], 'x.mbtiles'))).rejects.toThrow(/Not an SQLite database/);
+    await expect(openMbtiles(toFile(createDatabase('CREATE TABLE other (id integer);')))).rejects.toThrow(/No tiles table/);
+  });
+});
@@ -0,0 +1,394 @@
+import { LocalTileSource } from "./basemaps";
+
+// Reads raster tiles out of an MBTiles file (an SQLite database) picked from
+// disk, so the map works offline. This is a minimal read-only SQLite b-tree
+// reader: pages are sliced from the File on demand, so a multi-gigabyte file
+// is never loaded into memory. Tiles are found through the file's unique index
+// on (zoom_level, tile_column, tile_row), as every MBTiles writer creates; files
+// without one are scanned once instead.
+
+type SqlValue = number | string | Uint8Array | null;
+
+const SQLITE_MAGIC = 'SQLite format 3\u0000';
+const PAGE_CACHE_SIZE = 256;
+
+const PAGE_INTERIOR_INDEX = 0x02;
+const PAGE_INTERIOR_TABLE = 0x05;
+const PAGE_LEAF_INDEX = 0x0a;
+const PAGE_LEAF_TABLE = 0x0d;
+
+const RASTER_TYPES: Record<string, string> = { png: 'image/png', jpg: 'image/jpeg', jpeg: 'image/jpeg', webp: 'image/webp' };
+
+const textDecoder = new TextDecoder();
+
+const readVarint = (bytes: Uint8Array, offset: number): [value: number, length: number] => {
+  let value = 0;
+  for (let i = 0; i < 8; i++) {
+    const byte = bytes[offset + i];
+    value = value * 128 + (byte & 0x7f);
+    if (byte < 0x80) return [value, i + 1];
+  }
+  // The ninth byte contributes all eight bits
+  return [value * 256 + bytes[offset + 8], 9];
+};
+
+const readUint = (bytes: Uint8Array, offset: number, length: number): number => {
+  let value = 0;
+  for (let i = 0; i < length; i++) value = value * 256 + bytes[offset + i];
+  return value;
+};
+
+const readInt = (bytes: Uint8Array, offset: number, length: number): number => {
+  const value = readUint(bytes, offset, length);
+  const limit = 2 ** (length * 8);
+  return value >= limit / 2 ? value - limit : value;
+};
+
+const SERIAL_INT_SIZES: Record<number, number> = { 1: 1, 2: 2, 3: 3, 4: 4, 5: 6, 6: 8 };
+
+const serialSize = (type: number): number => {
+  if (type in SERIAL_INT_SIZES) return SERIAL_INT_SIZES[type];
+  if (type === 7) return 8;
+  if (type >= 12) return Math.floor((type - 12) / 2);
+  return 0;
+};
+
+// Decodes a record. With a truncated payload only the columns that fit are returned.
+const parseRecord = (payload: Uint8Array): SqlValue[] => {
+  const [headerSize, headerLength] = readVarint(payload, 0);
+  const types: number[] = [];
+  for (let offset = headerLength; offset < headerSize;) {
+    const [type, length] = readVarint(payload, offset);
+    types.push(type);
+    offset += length;
+  }
+
+  const values: SqlValue[] = [];
+  let offset = headerSize;
+  for (const type of types) {
+    const size = serialSize(type);
+    if (offset + size > payload.length) break;
+    if (type === 0) values.push(null);
+    else if (type === 8 || type === 9) values.push(type - 8);
+    else if (type === 7) values.push(new DataView(payload.buffer, payload.byteOffset + offset, 8).getFloat64(0));
+    else if (type < 7) values.push(readInt(payload, offset, size));
+    else if (type % 2 === 0) values.push(payload.slice(offset, offset + size));
+    else values.push(textDecoder.decode(payload.subarray(offset, offset + size)));
+    offset += size;
+  }
+  return values;
+};
+
+// Index keys compare column by column: numbers before text before blobs
+const compareValues = (a: SqlValue, b: SqlValue): number => {
+  const rank = (value: SqlValue) => (value === null ? 0 : typeof value === 'number' ? 1 : typeof value === 'string' ? 2 : 3);
+  if (rank(a) !== rank(b)) return rank(a) - rank(b);
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  if (typeof a === 'string' && typeof b === 'string') return a < b ? -1 : a > b ? 1 : 0;
+  return 0;
+};
+
+const compareKey = (key: SqlValue[], record: SqlValue[]): number => {
+  for (let i = 0; i < key.length; i++) {
+    const result = compareValues(key[i], record[i] ?? null);
+    if (result !== 0) return result;
+  }
+  return 0;
+};
+
+interface SchemaEntry {
+  type: string;
+  name: string;
+  table: string;
+  rootPage: number;
+  sql: string;
+}
+
+// Column names from a CREATE TABLE / CREATE INDEX statement, in order
+const parseColumns = (sql: string): { name: string; isRowidAlias: boolean }[] => {
+  const body = sql.slice(sql.indexOf('(') + 1, sql.lastIndexOf(')'));
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of body) {
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if (char === ',' && depth === 0) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+
+  return parts
+    .map(part => part.trim())
+    .filter(part => part && !/^(primary|unique|check|foreign|constraint)\b/i.test(part))
+    .map(part => ({
+      name: part.match(/^["`[]?([^"`\]\s]+)/)![1].toLowerCase(),
+      isRowidAlias: /^\S+\s+integer\s+primary\s+key/i.test(part)
+    }));
+};
+
+const createSqliteReader = async (file: Blob) => {
+  const header = new Uint8Array(await file.slice(0, 100).arrayBuffer());
+  if (header.length < 100 || textDecoder.decode(header.subarray(0, 16)) !== SQLITE_MAGIC) {
+    throw new Error("Not an SQLite database");
+  }
+  if (readUint(header, 56, 4) > 1) {
+    throw new Error("UTF-16 databases are not supported");
+  }
+  const rawPageSize = readUint(header, 16, 2);
+  const pageSize = rawPageSize === 1 ? 65536 : rawPageSize;
+  const usable = pageSize - header[20];
+
+  const cache = new Map<number, Promise<Uint8Array>>();
+  const readPage = (pageNumber: number): Promise<Uint8Array> => {
+    let page = cache.get(pageNumber);
+    if (!page) {
+      const offset = (pageNumber - 1) * pageSize;
+      page = file.slice(offset, offset + pageSize).arrayBuffer().then(buffer => new Uint8Array(buffer));
+      cache.set(pageNumber, page);
+      if (cache.size > PAGE_CACHE_SIZE) cache.delete(cache.keys().next().value!);
+    }
+    return page;
+  };
+
+  // Payload of the cell at `offset`, following overflow pages unless only the
+  // first `prefix` bytes are wanted
+  const readPayload = async (page: Uint8Array, offset: number, size: number, isTable: boolean, prefix = Infinity): Promise<Uint8Array> => {
+    const maxLocal = isTable ? usable - 35 : Math.floor(((usable - 12) * 64) / 255) - 23;
+    const minLocal = Math.floor(((usable - 12) * 32) / 255) - 23;
+    let local = size;
+    if (size > maxLocal) {
+      const candidate = minLocal + ((size - minLocal) % (usable - 4));
+      local = candidate <= maxLocal ? candidate : minLocal;
+    }
+    if (local === size || prefix <= local) return page.subarray(offset, offset + Math.min(local, prefix));
+
+    const payload = new Uint8Array(Math.min(size, prefix));
+    payload.set(page.subarray(offset, offset + local));
+    let written = local;
+    let next = readUint(page, offset + local, 4);
+    while (next !== 0 && written < payload.length) {
+      const overflow = await readPage(next);
+      const chunk = overflow.subarray(4, 4 + Math.min(usable - 4, payload.length - written));
+      payload.set(chunk, written);
+      written += chunk.length;
+      next = readUint(overflow, 0, 4);
+    }
+    return payload;
+  };
+
+  const pageHeader = (page: Uint8Array, pageNumber: number) => {
+    const start = pageNumber === 1 ? 100 : 0;
+    const type = page[start];
+    const interior = type === PAGE_INTERIOR_INDEX || type === PAGE_INTERIOR_TABLE;
+    const cellCount = readUint(page, start + 3, 2);
+    const pointers = start + (interior ? 12 : 8);
+    return {
+      type,
+      rightmost: interior ? readUint(page, start + 8, 4) : 0,
+      cellOffsets: Array.from({ length: cellCount }, (_, i) => readUint(page, pointers + i * 2, 2))
+    };
+  };
+
+  // Calls `onRow` for every row of a table, in rowid order
+  const scanTable = async (rootPage: number, onRow: (rowid: number, values: SqlValue[]) => void, prefix = Infinity): Promise<void> => {
+    const page = await readPage(rootPage);
+    const { type, rightmost, cellOffsets } = pageHeader(page, rootPage);
+    if (type === PAGE_INTERIOR_TABLE) {
+      for (const offset of cellOffsets) await scanTable(readUint(page, offset, 4), onRow, prefix);
+      await scanTable(rightmost, onRow, prefix);
+      return;
+    }
+    if (type !== PAGE_LEAF_TABLE) throw new Error(`Unexpected page type ${type} in table`);
+    for (const offset of cellOffsets) {
+      const [size, sizeLength] = readVarint(page, offset);
+      const [rowid, rowidLength] = readVarint(page, offset + sizeLength);
+      onRow(rowid, parseRecord(await readPayload(page, offset + sizeLength + rowidLength, size, true, prefix)));
+    }
+  };
+
+  const readRow = async (rootPage: number, rowid: number): Promise<SqlValue[] | null> => {
+    let pageNumber = rootPage;
+    for (;;) {
+      const page = await readPage(pageNumber);
+      const { type, rightmost, cellOffsets } = pageHeader(page, pageNumber);
+      if (type === PAGE_INTERIOR_TABLE) {
+        // Left children hold rowids up to and including the cell's key
+        const cell = cellOffsets.find(offset => readVarint(page, offset + 4)[0] >= rowid);
+        pageNumber = cell === undefined ? rightmost : readUint(page, cell, 4);
+        continue;
+      }
+      if (type !== PAGE_LEAF_TABLE) throw new Error(`Unexpected page type ${type} in table`);
+      for (const offset of cellOffsets) {
+        const [size, sizeLength] = readVarint(page, offset);
+        const [cellRowid, rowidLength] = readVarint(page, offset + sizeLength);
+        if (cellRowid === rowid) return parseRecord(await readPayload(page, offset + sizeLength + rowidLength, size, true));
+      }
+      return null;
+    }
+  };
+
+  // Finds the first index entry whose leading columns equal `key`; its last column is the rowid
+  const findInIndex = async (rootPage: number, key: SqlValue[]): Promise<number | null> => {
+    let pageNumber = rootPage;
+    for (;;) {
+      const page = await readPage(pageNumber);
+      const { type, rightmost, cellOffsets } = pageHeader(page, pageNumber);
+      const interior = type === PAGE_INTERIOR_INDEX;
+      if (!interior && type !== PAGE_LEAF_INDEX) throw new Error(`Unexpected page type ${type} in index`);
+
+      // Interior cells are entries too; smaller keys live in their left child
+      let child = rightmost;
+      for (const offset of cellOffsets) {
+        const start = interior ? offset + 4 : offset;
+        const [size, sizeLength] = readVarint(page, start);
+        const record = parseRecord(await readPayload(page, start + sizeLength, size, false));
+        const order = compareKey(key, record);
+        if (order === 0) {
+          const rowid = record[record.length - 1];
+          return typeof rowid === 'number' ? rowid : null;
+        }
+        if (order < 0) {
+          child = interior ? readUint(page, offset, 4) : 0;
+          break;
+        }
+      }
+      if (!interior) return null;
+      pageNumber = child;
+    }
+  };
+
+  const schema: SchemaEntry[] = [];
+  await scanTable(1, (_, [type, name, table, rootPage, sql]) => {
+    schema.push({ type: String(type), name: String(name), table: String(table), rootPage: Number(rootPage), sql: String(sql ?? '') });
+  });
+
+  return { schema, scanTable, readRow, findInIndex };
+};
+
+type SqliteReader = Awaited<ReturnType<typeof createSqliteReader>>;
+
+interface TableInfo {
+  rootPage: number;
+  columns: { name: string; isRowidAlias: boolean }[];
+}
+
+const findTable = (reader: SqliteReader, name: string): TableInfo | null => {
+  const entry = reader.schema.find(item => item.type === 'table' && item.name.toLowerCase() === name);
+  return entry ? { rootPage: entry.rootPage, columns: parseColumns(entry.sql) } : null;
+};
+
+// An index usable for a lookup by `columns`, i.e. one that starts with them in order
+const findIndex = (reader: SqliteReader, table: string, columns: string[]): number | null => {
+  const entry = reader.schema.find(item => {
+    if (item.type !== 'index' || item.table.toLowerCase() !== table || !item.sql || item.rootPage === 0) return false;
+    const indexed = parseColumns(item.sql).map(column => column.name);
+    return columns.every((column, i) => indexed[i] === column);
+  });
+  return entry ? entry.rootPage : null;
+};
+
+const column = (info: TableInfo, name: string, values: SqlValue[], rowid: number): SqlValue => {
+  const index = info.columns.findIndex(item => item.name === name);
+  if (index < 0) return null;
+  return info.columns[index].isRowidAlias ? rowid : values[index] ?? null;
+};
+
+// Looks a value up by key: through an index when there is one, otherwise
+// through a map built by scanning the table once (only record prefixes are read)
+const createLookup = (reader: SqliteReader, tableName: string, info: TableInfo, keyColumns: string[]) => {
+  const indexRoot = findIndex(reader, tableName, keyColumns);
+  let scanned: Promise<Map<string, number>> | null = null;
+
+  return async (key: SqlValue[]): Promise<SqlValue[] | null> => {
+    let rowid: number | null;
+    if (indexRoot !== null) {
+      rowid = await reader.findInIndex(indexRoot, key);
+    } else {
+      scanned ??= (async () => {
+        const rows = new Map<string, number>();
+        await reader.scanTable(info.rootPage, (id, values) => {
+          rows.set(JSON.stringify(keyColumns.map(name => column(info, name, values, id))), id);
+        }, 256);
+        return rows;
+      })();
+      rowid = (await scanned).get(JSON.stringify(key)) ?? null;
+    }
+    if (rowid === null) return null;
+    return reader.readRow(info.rootPage, rowid);
+  };
+};
+
+const TILE_KEY = ['zoom_level', 'tile_column', 'tile_row'];
+
+// Tiles are either a plain "tiles" table, or a "map" table pointing into a
+// deduplicated "images" table (with "tiles" as a view over both)
+const createTileReader = (reader: SqliteReader): ((z: number, x: number, row: number) => Promise<Uint8Array | null>) => {
+  const tiles = findTable(reader, 'tiles');
+  if (tiles) {
+    const lookup = createLookup(reader, 'tiles', tiles, TILE_KEY);
+    return async (z, x, row) => {
+      const values = await lookup([z, x, row]);
+      const data = values ? column(tiles, 'tile_data', values, 0) : null;
+      return data instanceof Uint8Array ? data : null;
+    };
+  }
+
+  const map = findTable(reader, 'map');
+  const images = findTable(reader, 'images');
+  if (!map || !images) throw new Error("No tiles table found; is this an MBTiles file?");
+  const mapLookup = createLookup(reader, 'map', map, TILE_KEY);
+  const imageLookup = createLookup(reader, 'images', images, ['tile_id']);
+  return async (z, x, row) => {
+    const entry = await mapLookup([z, x, row]);
+    const tileId = entry ? column(map, 'tile_id', entry, 0) : null;
+    if (tileId === null) return null;
+    const image = await imageLookup([tileId]);
+    const data = image ? column(images, 'tile_data', image, 0) : null;
+    return data instanceof Uint8Array ? data : null;
+  };
+};
+
+const readMetadata = async (reader: SqliteReader): Promise<Record<string, string>> => {
+  const metadata: Record<string, string> = {};
+  const table = findTable(reader, 'metadata');
+  if (!table) return metadata;
+  await reader.scanTable(table.rootPage, (rowid, values) => {
+    const name = column(table, 'name', values, rowid);
+    const value = column(table, 'value', values, rowid);
+    if (typeof name === 'string' && value !== null) metadata[name.toLowerCase()] = String(value);
+  });
+  return metadata;
+};
+
+const parseBounds = (value: string | undefined): LocalTileSource['bounds'] => {
+  const parts = (value ?? '').split(',').map(Number);
+  return parts.length === 4 && parts.every(Number.isFinite) ? (parts as [number, number, number, number]) : null;
+};
+
+export const openMbtiles = async (file: File): Promise<LocalTileSource> => {
+  const reader = await createSqliteReader(file);
+  const metadata = await readMetadata(reader);
+  const format = (metadata.format || 'png').toLowerCase();
+  if (!RASTER_TYPES[format]) {
+    throw new Error(`"${format}" tiles are not supported; only raster (PNG, JPEG or WEBP) MBTiles can be shown`);
+  }
+  const readTile = createTileReader(reader);
+
+  return {
+    name: metadata.name || file.name.replace(/\.mbtiles$/i, ''),
+    minZoom: Number(metadata.minzoom) || 0,
+    maxZoom: Number(metadata.maxzoom) || 19,
+    bounds: parseBounds(metadata.bounds),
+    attribution: metadata.attribution || '',
+    getTile: async (z, x, y) => {
+      // MBTiles rows count from the south (TMS); the map counts from the north
+      const data = await readTile(z, x, 2 ** z - 1 - y);
+      return data ? new Blob([data as BlobPart], { type: RASTER_TYPES[format] }) : null;
+    }
+  };
+};
@@ -0,0 +1,369 @@
+// Reads GPS coordinates and capture timestamps embedded in image files (EXIF / XMP)
+// so photos that already carry location data can skip the model entirely. The
+// camera and the software that last saved the file are read for the
+// authenticity checks.
+
+export interface EmbeddedMetadata {
+  latitude: number | null;
+  longitude: number | null;
+  date: string;
+  time: string;
+  make: string;
+  model: string;
+  software: string; // Program that last saved the file, '' when not recorded
+}
+
+// Most headers live near the start of the file; HEIC can place Exif further in.
+const HEADER_READ_BYTES = 512 * 1024;
+
+const EXIF_MARKER = [0x45, 0x78, 0x69, 0x66, 0x00, 0x00]; // "Exif\0\0"
+const TIFF_LITTLE_ENDIAN = [0x49, 0x49, 0x2a, 0x00]; // "II*\0"
+const TIFF_BIG_ENDIAN = [0x4d, 0x4d, 0x00, 0x2a]; // "MM\0*"
+const XMP_JPEG_NAMESPACE = "http://ns.adobe.com/xap/1.0/\0";
+
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_MAKE = 0x010f;
+const TAG_MODEL = 0x0110;
+const TAG_SOFTWARE = 0x0131;
+const TAG_DATETIME = 0x0132;
+const TAG_DATETIME_ORIGINAL = 0x9003;
+const TAG_GPS_LAT_REF = 0x0001;
+const TAG_GPS_LAT = 0x0002;
+const TAG_GPS_LNG_REF = 0x0003;
+const TAG_GPS_LNG = 0x0004;
+
+// Byte size of each TIFF field type, indexed by type id
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+type TagValue = number | number[] | string;
+
+const indexOfBytes = (bytes: Uint8Array, pattern: number[], from = 0): number => {
+  outer: for (let i = from; i <= bytes.length - pattern.length; i++) {
+    for (let j = 0; j < pattern.length; j++) {
+      if (bytes[i + j] !== pattern[j]) continue outer;
+    }
+    return i;
+  }
+  return -1;
+};
+
+const readAscii = (bytes: Uint8Array, start: number, length: number): string => {
+  let result = "";
+  for (let i = start; i < start + length && i < bytes.length; i++) {
+    if (bytes[i] === 0) break;
+    result += String.fromCharCode(bytes[i]);
+  }
+  return result;
+};
+
+const readIfd = (view: DataView, tiffStart: number, ifdOffset: number, little: boolean): Map<number, TagValue> => {
+  const tags = new Map<number, TagValue>();
+  const base = tiffStart + ifdOffset;
+  if (base + 2 > view.byteLength) return tags;
+
+  const count = view.getUint16(base, little);
+  for (let i = 0; i < count; i++) {
+    const entry = base + 2 + i * 12;
+    if (entry + 12 > view.byteLength) break;
+
+    const tag = view.getUint16(entry, little);
+    const type = view.getUint16(entry + 2, little);
+    const components = view.getUint32(entry + 4, little);
+    const size = TYPE_SIZES[type];
+    if (!size) continue;
+
+    const valueOffset = size * components > 4 ? tiffStart + view.getUint32(entry + 8, little) : entry + 8;
+    if (valueOffset + size * components > view.byteLength) continue;
+
+    if (type === 2) {
+      tags.set(tag, readAscii(new Uint8Array(view.buffer, view.byteOffset), valueOffset, components));
+      continue;
+    }
+
+    const values: number[] = [];
+    for (let c = 0; c < components; c++) {
+      const at = valueOffset + c * size;
+      switch (type) {
+        case 1:
+        case 7:
+          values.push(view.getUint8(at));
+          break;
+        case 3:
+          values.push(view.getUint16(at, little));
+          break;
+        case 4:
+          values.push(view.getUint32(at, little));
+          break;
+        case 9:
+          values.push(view.getInt32(at, little));
+          break;
+        case 5: {
+          const denominator = view.getUint32(at + 4, little);
+          values.push(denominator ? view.getUint32(at, little) / denominator : NaN);
+          break;
+        }
+        case 10: {
+          const denominator = view.getInt32(at + 4, little);
+          values.push(denominator ? view.getInt32(at, little) / denominator : NaN);
+          break;
+        }
+      }
+    }
+    tags.set(tag, values.length === 1 ? values[0] : values);
+  }
+  return tags;
+};
+
+const dmsToDecimal = (value: TagValue | undefined, ref: TagValue | undefined): number | null => {
+  if (!Array.isArray(value) || value.length < 3 || value.some(v => !Number.isFinite(v))) return null;
+  const decimal = value[0] + value[1] / 60 + value[2] / 3600;
+  const hemisphere = typeof ref === "string" ? ref.trim().toUpperCase() : "";
+  return hemisphere === "S" || hemisphere === "W" ? -decimal : decimal;
+};
+
+const asText = (value: TagValue | undefined): string => (typeof value === "string" ? value.trim() : "");
+
+// EXIF timestamps look like "2024:03:18 14:05:22"
+const splitExifDateTime = (value: TagValue | undefined): { date: string; time: string } => {
+  if (typeof value !== "string") return { date: "", time: "" };
+  const match = value.match(/^(\d{4})[:-](\d{2})[:-](\d{2})[ T](\d{2}):(\d{2})/);
+  if (!match || match[1] === "0000") return { date: "", time: "" };
+  return { date: `${match[1]}-${match[2]}-${match[3]}`, time: `${match[4]}:${match[5]}` };
+};
+
+const parseTiff = (bytes: Uint8Array, tiffStart: number): EmbeddedMetadata | null => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (tiffStart + 8 > view.byteLength) return null;
+
+  const order = view.getUint16(tiffStart);
+  if (order !== 0x4949 && order !== 0x4d4d) return null;
+  const little = order === 0x4949;
+  if (view.getUint16(tiffStart + 2, little) !== 42) return null;
+
+  const ifd0 = readIfd(view, tiffStart, view.getUint32(tiffStart + 4, little), little);
+
+  const exifPointer = ifd0.get(TAG_EXIF_IFD);
+  const exifIfd = typeof exifPointer === "number" ? readIfd(view, tiffStart, exifPointer, little) : new Map<number, TagValue>();
+
+  const gpsPointer = ifd0.get(TAG_GPS_IFD);
+  const gpsIfd = typeof gpsPointer === "number" ? readIfd(view, tiffStart, gpsPointer, little) : new Map<number, TagValue>();
+
+  const { date, time } = splitExifDateTime(exifIfd.get(TAG_DATETIME_ORIGINAL) ?? ifd0.get(TAG_DATETIME));
+
+  return {
+    latitude: dmsToDecimal(gpsIfd.get(TAG_GPS_LAT), gpsIfd.get(TAG_GPS_LAT_REF)),
+    longitude: dmsToDecimal(gpsIfd.get(TAG_GPS_LNG), gpsIfd.get(TAG_GPS_LNG_REF)),
+    date,
+    time,
+    make: asText(ifd0.get(TAG_MAKE)),
+    model: asText(ifd0.get(TAG_MODEL)),
+    software: asText(ifd0.get(TAG_SOFTWARE)),
+  };
+};
+
+// XMP stores GPS as "DDD,MM.mmmmK" or "DDD,MM,SSK" with a trailing N/S/E/W
+const parseXmpCoordinate = (value: string | undefined): number | null => {
+  if (!value) return null;
+  const match = value.trim().match(/^(\d+(?:\.\d+)?),(\d+(?:\.\d+)?)(?:,(\d+(?:\.\d+)?))?([NSEW])$/i);
+  if (!match) {
+    const decimal = parseFloat(value);
+    return Number.isFinite(decimal) ? decimal : null;
+  }
+  const decimal = parseFloat(match[1]) + parseFloat(match[2]) / 60 + (match[3] ? parseFloat(match[3]) / 3600 : 0);
+  return /[SW]/i.test(match[4]) ? -decimal : decimal;
+};
+
+const readXmpProperty = (xmp: string, name: string): string | undefined => {
+  const attribute = xmp.match(new RegExp(`${name}="([^"]*)"`));
+  if (attribute) return attribute[1];
+  const element = xmp.match(new RegExp(`<${name}>([^<]*)</${name}>`));
+  return element ? element[1] : undefined;
+};
+
+const parseXmp = (xmp: string): EmbeddedMetadata => {
+  const created =
+    readXmpProperty(xmp, "exif:DateTimeOriginal") ??
+    readXmpProperty(xmp, "photoshop:DateCreated") ??
+    readXmpProperty(xmp, "xmp:CreateDate");
+  const { date, time } = splitExifDateTime(created);
+
+  return {
+    latitude: parseXmpCoordinate(readXmpProperty(xmp, "exif:GPSLatitude")),
+    longitude: parseXmpCoordinate(readXmpProperty(xmp, "exif:GPSLongitude")),
+    date,
+    time,
+    make: readXmpProperty(xmp, "tiff:Make")?.trim() ?? "",
+    model: readXmpProperty(xmp, "tiff:Model")?.trim() ?? "",
+    // Editors record themselves as the creator tool or in the edit history
+    software: (readXmpProperty(xmp, "xmp:CreatorTool") ?? readXmpProperty(xmp, "stEvt:softwareAgent") ?? "").trim(),
+  };
+};
+
+const findXmpPacket = (bytes: Uint8Array): string | null => {
+  const text = new TextDecoder("utf-8", { fatal: false }).decode(bytes);
+  const start = text.indexOf("<x:xmpmeta");
+  if (start === -1) return null;
+  const end = text.indexOf("</x:xmpmeta>", start);
+  return end === -1 ? null : text.slice(start, end);
+};
+
+// Collects the TIFF header offset and XMP packet from each container format
+const locateMetadataBlocks = (bytes: Uint8Array): { tiffStart: number | null; xmp: string | null } => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let tiffStart: number | null = null;
+  let xmp: string | null = null;
+
+  // JPEG: walk APP segments until start-of-scan
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+      const marker = bytes[offset + 1];
+      if (marker === 0xda) break;
+      const length = view.getUint16(offset + 2);
+      const segmentStart = offset + 4;
+      if (marker === 0xe1) {
+        if (tiffStart === null && indexOfBytes(bytes.subarray(segmentStart, segmentStart + 6), EXIF_MARKER) === 0) {
+          tiffStart = segmentStart + 6;
+        } else if (readAscii(bytes, segmentStart, XMP_JPEG_NAMESPACE.length) === XMP_JPEG_NAMESPACE.slice(0, -1)) {
+          xmp = findXmpPacket(bytes.subarray(segmentStart, segmentStart + length - 2));
+        }
+      }
+      offset += 2 + length;
+    }
+    return { tiffStart, xmp };
+  }
+
+  // WEBP: RIFF chunks "EXIF" and "XMP "
+  if (readAscii(bytes, 0, 4) === "RIFF" && readAscii(bytes, 8, 4) === "WEBP") {
+    let offset = 12;
+    while (offset + 8 <= bytes.length) {
+      const fourcc = readAscii(bytes, offset, 4);
+      const size = view.getUint32(offset + 4, true);
+      const dataStart = offset + 8;
+      if (fourcc === "EXIF") {
+        const hasPrefix = indexOfBytes(bytes.subarray(dataStart, dataStart + 6), EXIF_MARKER) === 0;
+        tiffStart = hasPrefix ? dataStart + 6 : dataStart;
+      } else if (fourcc === "XMP ") {
+        xmp = findXmpPacket(bytes.subarray(dataStart, dataStart + size));
+      }
+      offset = dataStart + size + (size % 2);
+    }
+    return { tiffStart, xmp };
+  }
+
+  // PNG: "eXIf" chunk holds a bare TIFF block, XMP sits in an iTXt chunk
+  if (bytes[0] === 0x89 && readAscii(bytes, 1, 3) === "PNG") {
+    let offset = 8;
+    while (offset + 8 <= bytes.length) {
+      const size = view.getUint32(offset);
+      const type = readAscii(bytes, offset + 4, 4);
+      if (type === "eXIf") tiffStart = offset + 8;
+      if (type === "iTXt") xmp = xmp ?? findXmpPacket(bytes.subarray(offset + 8, offset + 8 + size));
+      if (type === "IDAT" || type === "IEND") break;
+      offset += 12 + size;
+    }
+    return { tiffStart, xmp };
+  }
+
+  // TIFF and TIFF-based RAW (DNG, NEF, ARW, CR2): the file is itself the TIFF block
+  const header = bytes.subarray(0, 4);
+  if (indexOfBytes(header, TIFF_LITTLE_ENDIAN) === 0 || indexOfBytes(header, TIFF_BIG_ENDIAN) === 0) {
+    return { tiffStart: 0, xmp: findXmpPacket(bytes) };
+  }
+
+  // HEIC/HEIF and anything else: scan for an Exif block followed by a TIFF header
+  let marker = indexOfBytes(bytes, EXIF_MARKER);
+  while (marker !== -1) {
+    const candidate = marker + EXIF_MARKER.length;
+    const order = readAscii(bytes, candidate, 2);
+    if (order === "II" || order === "MM") {
+      tiffStart = candidate;
+      break;
+    }
+    marker = indexOfBytes(bytes, EXIF_MARKER, marker + 1);
+  }
+  return { tiffStart, xmp: findXmpPacket(bytes) };
+};
+
+// A pair of exact zeros is what cameras without a GPS fix write as a placeholder.
+export const hasUsableCoordinates = (metadata: EmbeddedMetadata | null): boolean => {
+  if (!metadata || metadata.latitude === null || metadata.longitude === null) return false;
+  const { latitude, longitude } = metadata;
+  if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) return false;
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return false;
+  return !(latitude === 0 && longitude === 0);
+};
+
+export const readEmbeddedMetadata = async (file: Blob): Promise<EmbeddedMetadata | null> => {
+  try {
+    const buffer = await file.slice(0, HEADER_READ_BYTES).arrayBuffer();
+    const bytes = new Uint8Array(buffer);
+    const { tiffStart, xmp } = locateMetadataBlocks(bytes);
+
+    const exif = tiffStart !== null ? parseTiff(bytes, tiffStart) : null;
+    const xmpData = xmp ? parseXmp(xmp) : null;
+    if (!exif && !xmpData) return null;
+
+    // EXIF wins where both are present; XMP fills whatever EXIF left empty
+    const useExifGps = hasUsableCoordinates(exif);
+    return {
+      latitude: useExifGps ? exif!.latitude : xmpData?.latitude ?? exif?.latitude ?? null,
+      longitude: useExifGps ? exif!.longitude : xmpData?.longitude ?? exif?.longitude ?? null,
+      date: exif?.date || xmpData?.date || "",
+      time: exif?.time || xmpData?.time || "",
+      make: exif?.make || xmpData?.make || "",
+      model: exif?.model || xmpData?.model || "",
+      software: exif?.software || xmpData?.software || "",
+    };
+  } catch (error) {
+    console.warn("Metadata read failed:", error);
+    return null;
+  }
+};
+
+// Pixel size from the image header: JPEG frame header, PNG IHDR or the WEBP
+// VP8/VP8L/VP8X chunk. null for other formats or a header that cannot be read.
+export const readImageSize = async (file: Blob): Promise<{ width: number; height: number } | null> => {
+  try {
+    const bytes = new Uint8Array(await file.slice(0, HEADER_READ_BYTES).arrayBuffer());
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+    if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+      let offset = 2;
+      while (offset + 9 <= bytes.length && bytes[offset] === 0xff) {
+        const marker = bytes[offset + 1];
+        if (marker === 0xda) break;
+        // SOF0-SOF15, except DHT (C4), JPG (C8) and DAC (CC)
+        if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+          return { width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) };
+        }
+        offset += 2 + view.getUint16(offset + 2);
+      }
+      return null;
+    }
+
+    if (bytes[0] === 0x89 && readAscii(bytes, 1, 3) === "PNG" && readAscii(bytes, 12, 4) === "IHDR") {
+      return { width: view.getUint32(16), height: view.getUint32(20) };
+    }
+
+    if (readAscii(bytes, 0, 4) === "RIFF" && readAscii(bytes, 8, 4) === "WEBP" && bytes.length >= 30) {
+      const chunk = readAscii(bytes, 12, 4);
+      if (chunk === "VP8X") {
+        const read24 = (at: number) => bytes[at] | (bytes[at + 1] << 8) | (bytes[at + 2] << 16);
+        return { width: read24(24) + 1, height: read24(27) + 1 };
+      }
+      if (chunk === "VP8 ") {
+        return { width: view.getUint16(26, true) & 0x3fff, height: view.getUint16(28, true) & 0x3fff };
+      }
+      if (chunk === "VP8L") {
+        const bits = view.getUint32(21, true);
+        return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+      }
+    }
+    return null;
+  } catch (error) {
+    console.warn("Image size read failed:", error);
+    return null;
+  }
+};
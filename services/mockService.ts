@@ -0,0 +1,63 @@
+import { ExtraFieldDefinition, GeminiResponseItem } from "../types";
+import { ExtractionImage, ExtractionProvider, fingerprint, hashString } from "./extractionProvider";
+
+// Fixed responses for offline development and tests. The same file always
+// maps to the same fixture, so runs are reproducible.
+export const MOCK_FIXTURES: GeminiResponseItem[] = [
+  {
+    address: "Jl. M.H. Thamrin No.1, Menteng, Jakarta Pusat, DKI Jakarta",
+    latitude: -6.1944,
+    longitude: 106.8229,
+    foundCoordinates: true,
+    coordinateSource: "watermark",
+    confidence: 0.95,
+    date: "2024-03-18",
+    time: "09:15"
+  },
+  {
+    address: "Gedung Sate, Jl. Diponegoro No.22, Bandung, Jawa Barat",
+    latitude: -6.9025,
+    longitude: 107.6188,
+    foundCoordinates: true,
+    coordinateSource: "watermark",
+    confidence: 0.9,
+    date: "2024-03-19",
+    time: "13:42"
+  },
+  {
+    address: "Tugu Pahlawan, Surabaya, Jawa Timur",
+    latitude: -7.2459,
+    longitude: 112.7378,
+    foundCoordinates: true,
+    coordinateSource: "estimated",
+    confidence: 0.4,
+    date: "",
+    time: ""
+  },
+  {
+    address: "Unidentified indoor location",
+    latitude: null,
+    longitude: null,
+    foundCoordinates: false,
+    coordinateSource: "none",
+    confidence: null,
+    date: "2024-03-20",
+    time: "07:05"
+  }
+];
+
+// Template fields come back empty; the fixtures only cover the location
+export const processImageBatchMock = async (images: ExtractionImage[], fields: ExtraFieldDefinition[] = []): Promise<GeminiResponseItem[]> => {
+  return images.map(({ file }) => {
+    const fixture = MOCK_FIXTURES[hashString(`${file.name}:${file.size}`) % MOCK_FIXTURES.length];
+    return fields.length > 0 ? { ...fixture, extra: Object.fromEntries(fields.map(field => [field.name, null])) } : { ...fixture };
+  });
+};
+
+export const mockProvider: ExtractionProvider = {
+  id: 'mock',
+  label: 'Mock (offline fixtures)',
+  model: 'fixtures',
+  promptVersion: fingerprint(JSON.stringify(MOCK_FIXTURES)),
+  extractBatch: processImageBatchMock
+};
@@ -0,0 +1,58 @@
+import { StructuredAddress } from "../types";
+import { GeocodingError, ReverseGeocoder } from "./reverseGeocoder";
+
+// A self-hosted Nominatim instance or anything speaking its /reverse API
+const DEFAULT_BASE_URL = 'http://localhost:8080';
+
+const getBaseUrl = (): string => (process.env.NOMINATIM_URL || DEFAULT_BASE_URL).replace(/\/+$/, '');
+
+type NominatimAddress = Record<string, string | undefined>;
+
+const pick = (address: NominatimAddress, keys: string[]): string | null => {
+  for (const key of keys) {
+    if (address[key]) return address[key]!;
+  }
+  return null;
+};
+
+// Nominatim's keys depend on how OSM tags the area; for Indonesia desa/kelurahan
+// usually come back as village or suburb and kecamatan as city_district.
+const toStructuredAddress = (address: NominatimAddress): StructuredAddress => {
+  const road = pick(address, ['road', 'pedestrian', 'footway', 'path']);
+  return {
+    street: road && address.house_number ? `${road} ${address.house_number}` : road,
+    village: pick(address, ['village', 'suburb', 'quarter', 'hamlet', 'neighbourhood']),
+    district: pick(address, ['city_district', 'district', 'subdistrict', 'municipality']),
+    city: pick(address, ['city', 'county', 'regency', 'town']),
+    province: pick(address, ['state', 'province', 'region']),
+    postalCode: pick(address, ['postcode']),
+    country: pick(address, ['country'])
+  };
+};
+
+const reverse = async (latitude: number, longitude: number): Promise<StructuredAddress | null> => {
+  const params = new URLSearchParams({
+    format: 'jsonv2',
+    addressdetails: '1',
+    zoom: '18',
+    lat: String(latitude),
+    lon: String(longitude),
+    'accept-language': 'id,en'
+  });
+
+  const response = await fetch(`${getBaseUrl()}/reverse?${params}`);
+  if (!response.ok) {
+    throw new GeocodingError(`Nominatim request failed (${response.status} ${response.statusText})`);
+  }
+
+  const body = await response.json();
+  // Nominatim answers 200 with an error field when nothing is near the point
+  if (body.error || !body.address) return null;
+  return toStructuredAddress(body.address);
+};
+
+export const nominatimGeocoder: ReverseGeocoder = {
+  id: 'nominatim',
+  label: 'Nominatim',
+  reverse
+};
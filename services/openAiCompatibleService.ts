@@ -0,0 +1,110 @@
+import { ExtraFieldDefinition, GeminiResponseItem } from "../types";
+import {
+  ExtractionImage,
+  ExtractionProvider,
+  ExtractionError,
+  buildExtractionPrompt,
+  describeExtraShape,
+  fingerprint,
+  hasStampCrops,
+  parseResponseItems,
+  photoLabel,
+  readFileAsDataUrl,
+  stampCropLabel
+} from "./extractionProvider";
+import { getApiKey, getSettings } from "./settingsService";
+
+// Works with any server exposing the OpenAI chat completions API with vision input,
+// e.g. Ollama (http://localhost:11434/v1) or llama.cpp server (http://localhost:8080/v1).
+const DEFAULT_BASE_URL = 'http://localhost:11434/v1';
+const DEFAULT_MODEL = 'llava';
+const MODEL = process.env.OPENAI_MODEL || DEFAULT_MODEL;
+
+// json_object mode requires a top-level object, so the array is wrapped in "results"
+const RESPONSE_FORMAT_INSTRUCTIONS = `
+    Respond with JSON only, in the shape:
+    {"results": [{"address": string, "latitude": number | null, "longitude": number | null, "foundCoordinates": boolean, "coordinateSource": "watermark" | "estimated" | "none", "confidence": number, "date": string, "time": string}]}
+  `;
+
+// The "extra" object is spliced into the item shape when the template has fields
+const responseFormatInstructions = (fields: ExtraFieldDefinition[]): string =>
+  fields.length === 0
+    ? RESPONSE_FORMAT_INSTRUCTIONS
+    : RESPONSE_FORMAT_INSTRUCTIONS.replace('"time": string}', `"time": string, "extra": ${describeExtraShape(fields)}}`);
+
+// Local models often wrap JSON in markdown fences despite instructions
+const stripCodeFences = (text: string): string =>
+  text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+type ContentPart = { type: 'image_url'; image_url: { url: string } } | { type: 'text'; text: string };
+
+const imageToContent = async (image: ExtractionImage, index: number, labelled: boolean): Promise<ContentPart[]> => {
+  const photo: ContentPart = { type: 'image_url', image_url: { url: await readFileAsDataUrl(image.data) } };
+  if (!labelled) return [photo];
+
+  const parts: ContentPart[] = [{ type: 'text', text: photoLabel(index) }, photo];
+  if (image.stampCrop) {
+    parts.push(
+      { type: 'text', text: stampCropLabel(index) },
+      { type: 'image_url', image_url: { url: await readFileAsDataUrl(image.stampCrop) } }
+    );
+  }
+  return parts;
+};
+
+export const processImageBatchOpenAiCompatible = async (images: ExtractionImage[], fields: ExtraFieldDefinition[] = []): Promise<GeminiResponseItem[]> => {
+  const baseUrl = (process.env.OPENAI_BASE_URL || DEFAULT_BASE_URL).replace(/\/+$/, '');
+
+  const withStampCrops = hasStampCrops(images);
+  const imageContent = (await Promise.all(images.map((image, index) => imageToContent(image, index, withStampCrops)))).flat();
+
+  // The key comes from Settings like the Gemini key; local servers need none
+  const apiKey = getApiKey();
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (apiKey) {
+    headers.Authorization = `Bearer ${apiKey}`;
+  }
+
+  const response = await fetch(`${baseUrl}/chat/completions`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({
+      model: MODEL,
+      temperature: getSettings().temperature,
+      response_format: { type: 'json_object' },
+      messages: [
+        {
+          role: 'user',
+          content: [
+            ...imageContent,
+            { type: 'text', text: buildExtractionPrompt(images.length, withStampCrops, fields) + responseFormatInstructions(fields) }
+          ]
+        }
+      ]
+    })
+  });
+
+  if (!response.ok) {
+    throw new ExtractionError(`Vision endpoint returned ${response.status} ${response.statusText}`, response.status);
+  }
+
+  const body = await response.json();
+  const content: string | undefined = body?.choices?.[0]?.message?.content;
+  return parseResponseItems(content ? stripCodeFences(content) : undefined);
+};
+
+const PROMPT_FINGERPRINT = fingerprint(
+  buildExtractionPrompt(1),
+  buildExtractionPrompt(1, true),
+  RESPONSE_FORMAT_INSTRUCTIONS
+);
+
+export const openAiCompatibleProvider: ExtractionProvider = {
+  id: 'openai-compatible',
+  label: 'OpenAI-compatible endpoint',
+  model: MODEL,
+  get promptVersion() {
+    return fingerprint(PROMPT_FINGERPRINT, String(getSettings().temperature));
+  },
+  extractBatch: processImageBatchOpenAiCompatible
+};
@@ -0,0 +1,21 @@
+import { ProcessedImage } from "../types";
+
+// Orders photos by the date and time they carry. Stamps print local time
+// without a zone, so the values are compared as written rather than converted.
+
+// Milliseconds for sorting, or null without a date. A missing time sorts as midnight.
+export const getPhotoTimestamp = (row: Pick<ProcessedImage, 'date' | 'time'>): number | null => {
+  const date = row.date?.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!date) return null;
+  const time = row.time?.match(/^(\d{2}):(\d{2})/);
+  return Date.UTC(+date[1], +date[2] - 1, +date[3], time ? +time[1] : 0, time ? +time[2] : 0);
+};
+
+// Located, dated photos in the order they were taken; ties keep the path order
+export const buildTrack = (rows: ProcessedImage[]): ProcessedImage[] =>
+  rows
+    .filter(row => row.latitude !== null && row.longitude !== null)
+    .map(row => ({ row, time: getPhotoTimestamp(row) }))
+    .filter((entry): entry is { row: ProcessedImage; time: number } => entry.time !== null)
+    .sort((a, b) => a.time - b.time)
+    .map(entry => entry.row);
@@ -0,0 +1,21 @@
+import { ExtractionProvider, ExtractionProviderId } from "./extractionProvider";
+import { geminiProvider } from "./geminiService";
+import { openAiCompatibleProvider } from "./openAiCompatibleService";
+import { mockProvider } from "./mockService";
+
+export const EXTRACTION_PROVIDERS: Record<ExtractionProviderId, ExtractionProvider> = {
+  'gemini': geminiProvider,
+  'openai-compatible': openAiCompatibleProvider,
+  'mock': mockProvider
+};
+
+// Selected at build time via EXTRACTION_PROVIDER; defaults to Gemini
+export const getExtractionProvider = (id: string | undefined = process.env.EXTRACTION_PROVIDER): ExtractionProvider => {
+  if (id && id in EXTRACTION_PROVIDERS) {
+    return EXTRACTION_PROVIDERS[id as ExtractionProviderId];
+  }
+  if (id) {
+    console.warn(`Unknown extraction provider "${id}", falling back to Gemini.`);
+  }
+  return geminiProvider;
+};
@@ -0,0 +1,46 @@
+import { GeminiResponseItem } from "../types.js";
+import { GeminiBatchRequest } from "./geminiRequest.js";
+
+// Wire format of the extraction proxy (server/extractHandler.ts). The browser
+// POSTs a batch with a bearer token; the proxy holds the Gemini key.
+
+export const DEFAULT_PROXY_URL = '/api/extract';
+
+// Vercel rejects request bodies over 4.5 MB; base64 adds a third on top of the
+// image bytes, so batches sent through the proxy are kept under this
+export const PROXY_MAX_BATCH_BYTES = 3 * 1024 * 1024;
+export const PROXY_MAX_IMAGES = 50;
+
+export type ProxyExtractRequest = GeminiBatchRequest;
+
+// Items that passed validation are returned normalized; the rest are returned as
+// the model gave them, so the client's own validation reports the same reason
+export interface ProxyExtractResponse {
+  items: GeminiResponseItem[];
+}
+
+export type ProxyErrorCode =
+  | 'unauthorized'
+  | 'quota_exceeded'
+  | 'bad_request'
+  | 'invalid_response' // Model output could not be aligned with the images; retry in smaller batches
+  | 'upstream_error'
+  | 'not_configured';
+
+export interface ProxyErrorResponse {
+  error: string;
+  code: ProxyErrorCode;
+}
+
+export interface QuotaUsage {
+  used: number;
+  limit: number | null; // null when unlimited
+  resetsAt: string; // ISO time the daily window restarts
+}
+
+// GET on the endpoint: checks the token without spending quota
+export interface ProxyStatusResponse {
+  user: string;
+  models: string[];
+  quota: QuotaUsage;
+}
@@ -0,0 +1,183 @@
+import { PlannedPoint, ProcessedImage, ReferenceCheck, ReferenceLayer, ReferencePolygon, ReferenceTolerance } from "../types";
+
+// Compares photo locations with the reference layers: distance to the nearest
+// planned point and whether the photo lies inside a project boundary. Distances
+// are great-circle metres; edges are measured on a local flat projection, which
+// is accurate to well under a metre over the few kilometres that matter here.
+
+const EARTH_RADIUS = 6371008.8; // Mean radius, metres
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+export const distanceMeters = (lat1: number, lng1: number, lat2: number, lng2: number): number => {
+  const dLat = toRadians(lat2 - lat1);
+  const dLng = toRadians(lng2 - lng1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS * Math.asin(Math.min(1, Math.sqrt(a)));
+};
+
+// Even-odd rule over all rings, so holes and multi-part features need no special casing
+const containsPoint = (polygon: ReferencePolygon, latitude: number, longitude: number): boolean => {
+  let inside = false;
+  polygon.rings.forEach(ring => {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const [xi, yi] = ring[i];
+      const [xj, yj] = ring[j];
+      if (yi > latitude !== yj > latitude && longitude < ((xj - xi) * (latitude - yi)) / (yj - yi) + xi) {
+        inside = !inside;
+      }
+    }
+  });
+  return inside;
+};
+
+// Metres from the point to the polygon's nearest edge
+const distanceToEdge = (polygon: ReferencePolygon, latitude: number, longitude: number): number => {
+  const metresPerLat = (Math.PI * EARTH_RADIUS) / 180;
+  const metresPerLng = metresPerLat * Math.cos(toRadians(latitude));
+  let best = Infinity;
+  polygon.rings.forEach(ring => {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      // Edge ends relative to the point, in metres
+      const ax = (ring[j][0] - longitude) * metresPerLng;
+      const ay = (ring[j][1] - latitude) * metresPerLat;
+      const bx = (ring[i][0] - longitude) * metresPerLng;
+      const by = (ring[i][1] - latitude) * metresPerLat;
+      const dx = bx - ax;
+      const dy = by - ay;
+      const lengthSquared = dx * dx + dy * dy;
+      const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSquared));
+      best = Math.min(best, Math.hypot(ax + t * dx, ay + t * dy));
+    }
+  });
+  return best;
+};
+
+interface PreparedPolygon {
+  polygon: ReferencePolygon;
+  // Bounding box, to skip polygons that cannot be nearer than the best so far
+  west: number;
+  south: number;
+  east: number;
+  north: number;
+}
+
+// Flattened once per change of layers, then reused for every photo
+export interface PreparedReference {
+  points: PlannedPoint[];
+  polygons: PreparedPolygon[];
+}
+
+export const prepareReference = (layers: ReferenceLayer[]): PreparedReference => ({
+  points: layers.flatMap(layer => layer.points),
+  polygons: layers.flatMap(layer => layer.polygons).map(polygon => {
+    const box = { polygon, west: Infinity, south: Infinity, east: -Infinity, north: -Infinity };
+    polygon.rings.forEach(ring => ring.forEach(([longitude, latitude]) => {
+      box.west = Math.min(box.west, longitude);
+      box.south = Math.min(box.south, latitude);
+      box.east = Math.max(box.east, longitude);
+      box.north = Math.max(box.north, latitude);
+    }));
+    return box;
+  })
+});
+
+// Rough lower bound of the distance to anything inside the box
+const distanceToBox = (box: PreparedPolygon, latitude: number, longitude: number): number => {
+  const clampedLat = Math.max(box.south, Math.min(box.north, latitude));
+  const clampedLng = Math.max(box.west, Math.min(box.east, longitude));
+  return distanceMeters(latitude, longitude, clampedLat, clampedLng) * 0.99;
+};
+
+export const checkLocation = (
+  reference: PreparedReference,
+  latitude: number,
+  longitude: number,
+  tolerance: ReferenceTolerance
+): ReferenceCheck => {
+  let nearestPoint: PlannedPoint | null = null;
+  let pointDistance = Infinity;
+  for (const point of reference.points) {
+    const distance = distanceMeters(latitude, longitude, point.latitude, point.longitude);
+    if (distance < pointDistance) {
+      nearestPoint = point;
+      pointDistance = distance;
+    }
+  }
+
+  let boundary: ReferencePolygon | null = null;
+  let boundaryDistance = Infinity;
+  const container = reference.polygons.find(box =>
+    latitude >= box.south && latitude <= box.north && longitude >= box.west && longitude <= box.east &&
+    containsPoint(box.polygon, latitude, longitude)
+  );
+  if (container) {
+    boundary = container.polygon;
+    boundaryDistance = 0;
+  } else {
+    // Nearest boxes first, so most edges are never measured
+    const byBox = reference.polygons
+      .map(box => ({ box, lowerBound: distanceToBox(box, latitude, longitude) }))
+      .sort((a, b) => a.lowerBound - b.lowerBound);
+    for (const { box, lowerBound } of byBox) {
+      if (lowerBound >= boundaryDistance) break;
+      const distance = distanceToEdge(box.polygon, latitude, longitude);
+      if (distance < boundaryDistance) {
+        boundary = box.polygon;
+        boundaryDistance = distance;
+      }
+    }
+  }
+
+  const hasPoints = reference.points.length > 0;
+  const hasPolygons = reference.polygons.length > 0;
+  return {
+    nearestPoint: nearestPoint?.name ?? null,
+    pointDistance: hasPoints ? pointDistance : null,
+    atPoint: hasPoints ? pointDistance <= tolerance.point : null,
+    boundary: boundary?.name ?? null,
+    boundaryDistance: hasPolygons ? boundaryDistance : null,
+    insideBoundary: hasPolygons ? boundaryDistance <= tolerance.boundary : null
+  };
+};
+
+// Copies of the located rows with `reference` filled in; unchanged without layers
+export const applyReferenceChecks = (
+  rows: ProcessedImage[],
+  reference: PreparedReference,
+  tolerance: ReferenceTolerance
+): ProcessedImage[] => {
+  if (reference.points.length === 0 && reference.polygons.length === 0) return rows;
+  return rows.map(row =>
+    row.latitude === null || row.longitude === null
+      ? row
+      : { ...row, reference: checkLocation(reference, row.latitude, row.longitude, tolerance) }
+  );
+};
+
+export interface PointVisit {
+  point: PlannedPoint;
+  layer: string;
+  photoCount: number; // Located photos within the point tolerance
+  nearestDistance: number | null; // Metres to the closest photo, null without located photos
+}
+
+// Every planned point with the photos taken at it; unvisited points have photoCount 0
+export const summarizeVisits = (rows: ProcessedImage[], layers: ReferenceLayer[], tolerance: ReferenceTolerance): PointVisit[] => {
+  const located = rows.filter(row => row.latitude !== null && row.longitude !== null);
+  return layers.flatMap(layer => layer.points.map(point => {
+    let photoCount = 0;
+    let nearest = Infinity;
+    located.forEach(row => {
+      const distance = distanceMeters(point.latitude, point.longitude, row.latitude!, row.longitude!);
+      if (distance <= tolerance.point) photoCount++;
+      nearest = Math.min(nearest, distance);
+    });
+    return { point, layer: layer.name, photoCount, nearestDistance: Number.isFinite(nearest) ? nearest : null };
+  }));
+};
+
+export const formatDistance = (meters: number | null): string => {
+  if (meters === null) return '--';
+  if (meters < 1000) return `${Math.round(meters)} m`;
+  return `${(meters / 1000).toFixed(meters < 10000 ? 2 : 1)} km`;
+};
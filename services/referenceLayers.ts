@@ -0,0 +1,439 @@
+import { PlannedPoint, ReferenceLayer, ReferencePolygon, ReferenceTolerance } from "../types";
+import { readZip } from "./zip";
+import { isValidLatitude, isValidLongitude } from "./validation";
+import { requestToPromise, transactionDone } from "./storageService";
+
+// Reference layers: planned survey points and project boundaries imported from
+// GeoJSON, KML/KMZ, a zipped Shapefile or a CSV of points. Everything is
+// expected in WGS84 longitude/latitude, the way GPS and the photo stamps give it.
+// Layers are kept in their own database and shared by all sessions.
+
+const DB_NAME = 'arundaya-geopix-reference';
+const DB_VERSION = 1;
+const LAYERS_STORE = 'layers';
+const TOLERANCE_KEY = 'arundaya-geopix:reference-tolerance';
+
+export const REFERENCE_FILE_ACCEPT = '.geojson,.json,.kml,.kmz,.zip,.csv,.txt';
+
+export const DEFAULT_REFERENCE_TOLERANCE: ReferenceTolerance = { point: 30, boundary: 0 };
+
+export class ReferenceImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReferenceImportError';
+  }
+}
+
+type Position = [number, number]; // longitude, latitude
+
+const createLayerId = () => `layer-${Math.random().toString(36).substring(2, 10)}`;
+
+const isPosition = (value: unknown): value is Position =>
+  Array.isArray(value) && typeof value[0] === 'number' && typeof value[1] === 'number';
+
+const checkPosition = ([longitude, latitude]: Position, source: string) => {
+  if (!isValidLatitude(latitude) || !isValidLongitude(longitude)) {
+    throw new ReferenceImportError(
+      `${source} has coordinates outside longitude/latitude range (${longitude}, ${latitude}); ` +
+      "it is probably in a projected system such as UTM. Save it as WGS84 (EPSG:4326) and import it again."
+    );
+  }
+};
+
+// Rings are closed by repeating the first position; the copy is dropped
+const openRing = (ring: Position[]): Position[] => {
+  const [first, last] = [ring[0], ring[ring.length - 1]];
+  return ring.length > 1 && first[0] === last[0] && first[1] === last[1] ? ring.slice(0, -1) : ring;
+};
+
+// Builds a layer, numbering unnamed features and checking every coordinate
+const collectLayer = (name: string, points: Omit<PlannedPoint, 'id'>[], polygons: ReferencePolygon[]): ReferenceLayer => {
+  points.forEach(point => checkPosition([point.longitude, point.latitude], name));
+  polygons.forEach(polygon => polygon.rings.forEach(ring => ring.forEach(position => checkPosition(position, name))));
+  if (points.length === 0 && polygons.length === 0) {
+    throw new ReferenceImportError(`${name} contains no points or polygons`);
+  }
+  const id = createLayerId();
+  return {
+    id,
+    name,
+    points: points.map((point, index) => ({ ...point, id: `${id}:${index}`, name: point.name || `Point ${index + 1}` })),
+    polygons: polygons.map((polygon, index) => ({ ...polygon, name: polygon.name || `Area ${index + 1}` }))
+  };
+};
+
+const NAME_PROPERTIES = ['name', 'nama', 'label', 'title', 'point', 'titik', 'code', 'kode', 'id'];
+
+// The first property that looks like a name, matched case-insensitively
+const pickName = (properties: Record<string, unknown> | null | undefined): string => {
+  if (!properties) return '';
+  const entries = Object.entries(properties);
+  for (const key of NAME_PROPERTIES) {
+    const entry = entries.find(([property, value]) => property.toLowerCase() === key && value !== null && value !== '');
+    if (entry) return String(entry[1]).trim();
+  }
+  return '';
+};
+
+// --- GeoJSON ---
+
+const parseGeoJson = (text: string, name: string): ReferenceLayer => {
+  let root: any;
+  try {
+    root = JSON.parse(text);
+  } catch {
+    throw new ReferenceImportError(`${name} is not valid JSON`);
+  }
+
+  const points: Omit<PlannedPoint, 'id'>[] = [];
+  const polygons: ReferencePolygon[] = [];
+
+  const addGeometry = (geometry: any, featureName: string) => {
+    if (!geometry) return;
+    switch (geometry.type) {
+      case 'Point':
+        if (isPosition(geometry.coordinates)) {
+          points.push({ name: featureName, longitude: geometry.coordinates[0], latitude: geometry.coordinates[1] });
+        }
+        break;
+      case 'MultiPoint':
+        (geometry.coordinates ?? []).filter(isPosition).forEach((position: Position) =>
+          points.push({ name: featureName, longitude: position[0], latitude: position[1] })
+        );
+        break;
+      case 'Polygon':
+        polygons.push({ name: featureName, rings: (geometry.coordinates ?? []).map((ring: Position[]) => openRing(ring.filter(isPosition))) });
+        break;
+      case 'MultiPolygon':
+        polygons.push({
+          name: featureName,
+          rings: (geometry.coordinates ?? []).flatMap((polygon: Position[][]) => polygon.map(ring => openRing(ring.filter(isPosition))))
+        });
+        break;
+      case 'GeometryCollection':
+        (geometry.geometries ?? []).forEach((child: any) => addGeometry(child, featureName));
+        break;
+      // Lines are neither points to visit nor areas to be in
+    }
+  };
+
+  const features = root?.type === 'FeatureCollection' ? root.features ?? []
+    : root?.type === 'Feature' ? [root]
+    : [{ geometry: root, properties: null }];
+  features.forEach((feature: any) => addGeometry(feature?.geometry, pickName(feature?.properties)));
+
+  return collectLayer(name, points, polygons);
+};
+
+// --- KML ---
+
+const parseKmlCoordinates = (text: string | null | undefined): Position[] =>
+  (text ?? '')
+    .trim()
+    .split(/\s+/)
+    .map(tuple => tuple.split(',').map(Number))
+    .filter(values => values.length >= 2 && values.every(Number.isFinite))
+    .map(values => [values[0], values[1]] as Position);
+
+// Elements are matched by local name, so namespace prefixes do not matter
+const elements = (parent: Element | Document, tag: string): Element[] => Array.from(parent.getElementsByTagNameNS('*', tag));
+
+const parseKml = (text: string, name: string): ReferenceLayer => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new ReferenceImportError(`${name} is not valid KML`);
+  }
+
+  const points: Omit<PlannedPoint, 'id'>[] = [];
+  const polygons: ReferencePolygon[] = [];
+
+  elements(doc, 'Placemark').forEach(placemark => {
+    const nameElement = Array.from(placemark.children).find(child => child.localName === 'name');
+    const featureName = nameElement?.textContent?.trim() ?? '';
+
+    elements(placemark, 'Point').forEach(point => {
+      const [position] = parseKmlCoordinates(elements(point, 'coordinates')[0]?.textContent);
+      if (position) points.push({ name: featureName, longitude: position[0], latitude: position[1] });
+    });
+
+    const rings = elements(placemark, 'Polygon').flatMap(polygon =>
+      [...elements(polygon, 'outerBoundaryIs'), ...elements(polygon, 'innerBoundaryIs')]
+        .map(boundary => openRing(parseKmlCoordinates(elements(boundary, 'coordinates')[0]?.textContent)))
+        .filter(ring => ring.length >= 3)
+    );
+    if (rings.length > 0) polygons.push({ name: featureName, rings });
+  });
+
+  return collectLayer(name, points, polygons);
+};
+
+// --- Shapefile (zipped .shp + .dbf) ---
+
+const SHAPE_POINT = [1, 11, 21];
+const SHAPE_MULTIPOINT = [8, 18, 28];
+const SHAPE_POLYGON = [5, 15, 25];
+
+type ShapeRecord = { type: 'point'; positions: Position[] } | { type: 'polygon'; rings: Position[][] } | null;
+
+const readShapes = (buffer: ArrayBuffer): ShapeRecord[] => {
+  const view = new DataView(buffer);
+  if (view.byteLength < 100 || view.getInt32(0) !== 9994) {
+    throw new ReferenceImportError("The .shp file is not a valid shapefile");
+  }
+
+  const shapes: ShapeRecord[] = [];
+  let offset = 100;
+  while (offset + 8 <= view.byteLength) {
+    const contentBytes = view.getInt32(offset + 4) * 2; // Big-endian 16-bit words
+    const start = offset + 8;
+    offset = start + contentBytes;
+    const shapeType = view.getInt32(start, true);
+
+    if (SHAPE_POINT.includes(shapeType)) {
+      shapes.push({ type: 'point', positions: [[view.getFloat64(start + 4, true), view.getFloat64(start + 12, true)]] });
+    } else if (SHAPE_MULTIPOINT.includes(shapeType)) {
+      const count = view.getInt32(start + 36, true);
+      const positions: Position[] = [];
+      for (let i = 0; i < count; i++) {
+        positions.push([view.getFloat64(start + 40 + i * 16, true), view.getFloat64(start + 48 + i * 16, true)]);
+      }
+      shapes.push({ type: 'point', positions });
+    } else if (SHAPE_POLYGON.includes(shapeType)) {
+      const partCount = view.getInt32(start + 36, true);
+      const pointCount = view.getInt32(start + 40, true);
+      const partsStart = start + 44;
+      const pointsStart = partsStart + partCount * 4;
+      const rings: Position[][] = [];
+      for (let part = 0; part < partCount; part++) {
+        const first = view.getInt32(partsStart + part * 4, true);
+        const end = part + 1 < partCount ? view.getInt32(partsStart + (part + 1) * 4, true) : pointCount;
+        const ring: Position[] = [];
+        for (let i = first; i < end; i++) {
+          ring.push([view.getFloat64(pointsStart + i * 16, true), view.getFloat64(pointsStart + i * 16 + 8, true)]);
+        }
+        rings.push(openRing(ring));
+      }
+      shapes.push({ type: 'polygon', rings });
+    } else {
+      shapes.push(null); // Null shapes and lines keep their place so attributes stay aligned
+    }
+  }
+  return shapes;
+};
+
+// dBASE attribute table, one record per shape
+const readAttributes = (buffer: ArrayBuffer, encoding: string): Record<string, string>[] => {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const recordCount = view.getUint32(4, true);
+  const headerLength = view.getUint16(8, true);
+  const recordLength = view.getUint16(10, true);
+
+  let decoder: TextDecoder;
+  try {
+    decoder = new TextDecoder(encoding);
+  } catch {
+    decoder = new TextDecoder('utf-8');
+  }
+
+  const fields: { name: string; offset: number; length: number }[] = [];
+  let fieldOffset = 1; // After the deletion flag
+  for (let position = 32; position + 32 <= headerLength && bytes[position] !== 0x0d; position += 32) {
+    const nameBytes = bytes.subarray(position, position + 11);
+    const end = nameBytes.indexOf(0);
+    const length = bytes[position + 16];
+    fields.push({ name: decoder.decode(end === -1 ? nameBytes : nameBytes.subarray(0, end)), offset: fieldOffset, length });
+    fieldOffset += length;
+  }
+
+  const records: Record<string, string>[] = [];
+  for (let index = 0; index < recordCount; index++) {
+    const start = headerLength + index * recordLength;
+    if (start + recordLength > bytes.length) break;
+    const record: Record<string, string> = {};
+    fields.forEach(field => {
+      record[field.name] = decoder.decode(bytes.subarray(start + field.offset, start + field.offset + field.length)).trim();
+    });
+    records.push(record);
+  }
+  return records;
+};
+
+const parseShapefileZip = async (archive: Blob, name: string): Promise<ReferenceLayer> => {
+  const entries = await readZip(archive);
+  const find = (extension: string) => entries.find(entry => entry.name.toLowerCase().endsWith(extension) && !entry.name.startsWith('__MACOSX/'));
+
+  const shp = find('.shp');
+  if (!shp) throw new ReferenceImportError(`${name} contains no .shp file`);
+  const base = shp.name.slice(0, -4).toLowerCase();
+  const sibling = (extension: string) => entries.find(entry => entry.name.toLowerCase() === base + extension);
+
+  const prj = sibling('.prj');
+  if (prj && /^\s*PROJCS/i.test(await prj.data.text())) {
+    throw new ReferenceImportError(
+      `${name} uses a projected coordinate system (see its .prj file). Save it as WGS84 (EPSG:4326) and import it again.`
+    );
+  }
+
+  const shapes = readShapes(await shp.data.arrayBuffer());
+  const dbf = sibling('.dbf');
+  const cpg = sibling('.cpg');
+  const encoding = cpg ? (await cpg.data.text()).trim() || 'utf-8' : 'utf-8';
+  const attributes = dbf ? readAttributes(await dbf.data.arrayBuffer(), encoding) : [];
+
+  const points: Omit<PlannedPoint, 'id'>[] = [];
+  const polygons: ReferencePolygon[] = [];
+  shapes.forEach((shape, index) => {
+    const featureName = pickName(attributes[index]);
+    if (shape?.type === 'point') {
+      shape.positions.forEach(([longitude, latitude]) => points.push({ name: featureName, longitude, latitude }));
+    } else if (shape?.type === 'polygon') {
+      polygons.push({ name: featureName, rings: shape.rings.filter(ring => ring.length >= 3) });
+    }
+  });
+
+  return collectLayer(name, points, polygons);
+};
+
+// --- CSV of planned points ---
+
+const LATITUDE_HEADERS = /^(lat|latitude|lintang|y)$/i;
+const LONGITUDE_HEADERS = /^(lon|lng|long|longitude|bujur|x)$/i;
+
+const parseCsvLine = (line: string, delimiter: string): string[] => {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+};
+
+// Spreadsheets set to Indonesian or European locales write "-6,2088" with ";" between cells
+const parseDecimal = (text: string): number => (text === '' ? NaN : Number(text.replace(',', '.')));
+
+const parseCsv = (text: string, name: string): ReferenceLayer => {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/).filter(line => line.trim() !== '');
+  if (lines.length < 2) throw new ReferenceImportError(`${name} needs a header row and at least one point`);
+
+  const delimiter = ['\t', ';', ','].find(candidate => lines[0].includes(candidate)) ?? ',';
+  const headers = parseCsvLine(lines[0], delimiter);
+  const latIndex = headers.findIndex(header => LATITUDE_HEADERS.test(header));
+  const lngIndex = headers.findIndex(header => LONGITUDE_HEADERS.test(header));
+  if (latIndex === -1 || lngIndex === -1) {
+    throw new ReferenceImportError(`${name} needs "latitude" and "longitude" columns (or lat/lng, lintang/bujur)`);
+  }
+
+  const points: Omit<PlannedPoint, 'id'>[] = [];
+  lines.slice(1).forEach((line, index) => {
+    const cells = parseCsvLine(line, delimiter);
+    const latitude = parseDecimal(cells[latIndex] ?? '');
+    const longitude = parseDecimal(cells[lngIndex] ?? '');
+    if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) {
+      throw new ReferenceImportError(`${name}, line ${index + 2}: "${cells[latIndex] ?? ''}", "${cells[lngIndex] ?? ''}" are not coordinates`);
+    }
+    points.push({ name: pickName(Object.fromEntries(headers.map((header, column) => [header, cells[column] ?? '']))), latitude, longitude });
+  });
+
+  return collectLayer(name, points, []);
+};
+
+// --- Entry point ---
+
+export const importReferenceFile = async (file: File): Promise<ReferenceLayer> => {
+  const extension = file.name.toLowerCase().split('.').pop();
+  switch (extension) {
+    case 'geojson':
+    case 'json':
+      return parseGeoJson(await file.text(), file.name);
+    case 'kml':
+      return parseKml(await file.text(), file.name);
+    case 'kmz': {
+      const kml = (await readZip(file)).find(entry => entry.name.toLowerCase().endsWith('.kml'));
+      if (!kml) throw new ReferenceImportError(`${file.name} contains no KML document`);
+      return parseKml(await kml.data.text(), file.name);
+    }
+    case 'zip':
+      return parseShapefileZip(file, file.name);
+    case 'csv':
+    case 'txt':
+      return parseCsv(await file.text(), file.name);
+    default:
+      throw new ReferenceImportError(`${file.name}: use GeoJSON, KML/KMZ, a zipped Shapefile or a CSV of points`);
+  }
+};
+
+// --- Persistence ---
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(LAYERS_STORE, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+export const loadReferenceLayers = async (): Promise<ReferenceLayer[]> => {
+  const db = await openDatabase();
+  const store = db.transaction(LAYERS_STORE, 'readonly').objectStore(LAYERS_STORE);
+  return requestToPromise(store.getAll() as IDBRequest<ReferenceLayer[]>);
+};
+
+export const saveReferenceLayer = async (layer: ReferenceLayer): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(LAYERS_STORE, 'readwrite');
+  transaction.objectStore(LAYERS_STORE).put(layer);
+  await transactionDone(transaction);
+};
+
+export const deleteReferenceLayer = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(LAYERS_STORE, 'readwrite');
+  transaction.objectStore(LAYERS_STORE).delete(id);
+  await transactionDone(transaction);
+};
+
+export const loadReferenceTolerance = (): ReferenceTolerance => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(TOLERANCE_KEY) ?? 'null');
+    return {
+      point: Number.isFinite(stored?.point) && stored.point >= 0 ? stored.point : DEFAULT_REFERENCE_TOLERANCE.point,
+      boundary: Number.isFinite(stored?.boundary) && stored.boundary >= 0 ? stored.boundary : DEFAULT_REFERENCE_TOLERANCE.boundary
+    };
+  } catch {
+    return DEFAULT_REFERENCE_TOLERANCE;
+  }
+};
+
+export const saveReferenceTolerance = (tolerance: ReferenceTolerance) =>
+  localStorage.setItem(TOLERANCE_KEY, JSON.stringify(tolerance));
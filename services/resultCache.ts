@@ -0,0 +1,74 @@
+import { ExtraFieldDefinition, GeminiResponseItem } from "../types";
+import { ExtractionProvider, fingerprint } from "./extractionProvider";
+import { requestToPromise, transactionDone } from "./storageService";
+
+// Remembers what the model said about an image, so re-running a photo costs
+// nothing. Entries are keyed by content hash, provider, model and prompt
+// version (and template fields, which extend the prompt); a new model or
+// prompt simply misses and fills the cache again.
+// Kept in its own database so it can be dropped without touching sessions.
+
+const DB_NAME = 'arundaya-geopix-cache';
+const DB_VERSION = 1;
+const RESULTS_STORE = 'results';
+
+interface CachedResult {
+  key: string;
+  item: GeminiResponseItem;
+  createdAt: number;
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(RESULTS_STORE, { keyPath: 'key' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+export const resultCacheKey = (contentHash: string, provider: ExtractionProvider, fields: ExtraFieldDefinition[] = []): string => {
+  const parts = [provider.id, provider.model, provider.promptVersion];
+  if (fields.length > 0) parts.push(fingerprint(JSON.stringify(fields)));
+  return [...parts, contentHash].join(':');
+};
+
+// Only keys with an entry appear in the returned map
+export const getCachedResults = async (keys: string[]): Promise<Map<string, GeminiResponseItem>> => {
+  const found = new Map<string, GeminiResponseItem>();
+  if (keys.length === 0) return found;
+
+  const db = await openDatabase();
+  const store = db.transaction(RESULTS_STORE, 'readonly').objectStore(RESULTS_STORE);
+  const entries = await Promise.all(keys.map(key => requestToPromise(store.get(key) as IDBRequest<CachedResult | undefined>)));
+  entries.forEach(entry => {
+    if (entry) found.set(entry.key, entry.item);
+  });
+  return found;
+};
+
+export const putCachedResults = async (entries: { key: string; item: GeminiResponseItem }[]) => {
+  if (entries.length === 0) return;
+
+  const db = await openDatabase();
+  const transaction = db.transaction(RESULTS_STORE, 'readwrite');
+  const store = transaction.objectStore(RESULTS_STORE);
+  const createdAt = Date.now();
+  entries.forEach(({ key, item }) => store.put({ key, item, createdAt }));
+  await transactionDone(transaction);
+};
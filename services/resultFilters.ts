@@ -0,0 +1,104 @@
+import { ProcessedImage } from "../types";
+import { getRelativePath } from "./sourceFiles";
+import { getPhotoTimestamp } from "./photoTrack";
+import { riskRank } from "./authenticity";
+
+// Search, filters and sorting for the results table. Kept apart from the
+// component so the same view of the rows can be exported or selected.
+
+export type SortKey = 'path' | 'fileName' | 'taken' | 'address' | 'confidence' | 'distance' | 'risk';
+
+export interface SortState {
+  key: SortKey;
+  direction: 'asc' | 'desc';
+}
+
+// Path order keeps each folder's rows together, as before sorting existed
+export const DEFAULT_SORT: SortState = { key: 'path', direction: 'asc' };
+
+export interface ResultFilters {
+  search: string;
+  missingCoordinates: boolean;
+  estimatedOnly: boolean;
+  dateFrom: string; // YYYY-MM-DD, '' for open-ended
+  dateTo: string;
+}
+
+export const EMPTY_FILTERS: ResultFilters = {
+  search: '',
+  missingCoordinates: false,
+  estimatedOnly: false,
+  dateFrom: '',
+  dateTo: ''
+};
+
+export const isFiltering = (filters: ResultFilters): boolean =>
+  filters.search.trim() !== '' || filters.missingCoordinates || filters.estimatedOnly || filters.dateFrom !== '' || filters.dateTo !== '';
+
+// Everything a user might remember about a photo: path, address, the geocoded
+// area, template values and the nearest planned point
+const searchableText = (row: ProcessedImage): string =>
+  [
+    getRelativePath(row),
+    row.address,
+    row.date,
+    row.time,
+    row.error,
+    ...Object.values(row.geocoded ?? {}),
+    ...Object.values(row.extra ?? {}),
+    row.reference?.nearestPoint,
+    row.reference?.boundary
+  ]
+    .filter(value => value !== null && value !== undefined && value !== '')
+    .join(' ')
+    .toLowerCase();
+
+// `areaIds` narrows the rows to a selection drawn on the map
+export const filterResults = (rows: ProcessedImage[], filters: ResultFilters, areaIds: Set<string> | null = null): ProcessedImage[] => {
+  const terms = filters.search.toLowerCase().split(/\s+/).filter(Boolean);
+  return rows.filter(row => {
+    if (areaIds && !areaIds.has(row.id)) return false;
+    if (filters.missingCoordinates && row.latitude !== null && row.longitude !== null) return false;
+    if (filters.estimatedOnly && row.source !== 'estimated') return false;
+    // Dates are YYYY-MM-DD, so they compare as text; undated rows drop out of a range
+    if (filters.dateFrom && (!row.date || row.date < filters.dateFrom)) return false;
+    if (filters.dateTo && (!row.date || row.date > filters.dateTo)) return false;
+    if (terms.length > 0) {
+      const text = searchableText(row);
+      if (!terms.every(term => text.includes(term))) return false;
+    }
+    return true;
+  });
+};
+
+const compareText = (a: string, b: string) => a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' });
+
+const SORT_VALUES: Record<SortKey, (row: ProcessedImage) => string | number | null> = {
+  path: getRelativePath,
+  fileName: row => row.fileName,
+  taken: getPhotoTimestamp,
+  address: row => row.address || null,
+  confidence: row => row.confidence,
+  distance: row => row.reference?.pointDistance ?? null,
+  risk: row => (row.authenticity ? riskRank(row.authenticity.level) : null)
+};
+
+// Rows without a value go last in either direction; ties fall back to path order
+export const sortResults = (rows: ProcessedImage[], sort: SortState): ProcessedImage[] => {
+  const value = SORT_VALUES[sort.key];
+  const sign = sort.direction === 'asc' ? 1 : -1;
+  return rows
+    .map(row => ({ row, value: value(row) }))
+    .sort((a, b) => {
+      if (a.value === null || b.value === null) {
+        if (a.value !== b.value) return a.value === null ? 1 : -1;
+      } else if (a.value !== b.value) {
+        const order = typeof a.value === 'number' && typeof b.value === 'number'
+          ? a.value - b.value
+          : compareText(String(a.value), String(b.value));
+        if (order !== 0) return order * sign;
+      }
+      return compareText(getRelativePath(a.row), getRelativePath(b.row));
+    })
+    .map(entry => entry.row);
+};
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { getErrorStatus, isRetryableError } from './retry';
+
+describe('getErrorStatus', () => {
+  it('prefers the structured status or code', () => {
+    expect(getErrorStatus(Object.assign(new Error('failed'), { status: 503 }))).toBe(503);
+    expect(getErrorStatus({ code: 429, message: 'quota' })).toBe(429);
+  });
+
+  it('reads a status from the message only next to "status" or "code"', () => {
+    expect(getErrorStatus(new Error('got status: 503 from upstream'))).toBe(503);
+    expect(getErrorStatus(new Error('{"error":{"code":429}}'))).toBe(429);
+    expect(getErrorStatus(new Error('Batch of 500 images is too large'))).toBeUndefined();
+  });
+});
+
+describe('isRetryableError', () => {
+  it('retries rate limits and server errors only', () => {
+    expect(isRetryableError(new Error('HTTP status 429'))).toBe(true);
+    expect(isRetryableError(new Error('RESOURCE_EXHAUSTED'))).toBe(true);
+    expect(isRetryableError(new Error('Batch of 500 images is too large'))).toBe(false);
+    expect(isRetryableError(Object.assign(new Error('bad'), { status: 400 }))).toBe(false);
+  });
+});
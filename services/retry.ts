@@ -0,0 +1,56 @@
+export interface RetryOptions {
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+const DEFAULT_RETRY_OPTIONS: Required<RetryOptions> = {
+  maxAttempts: 4,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Pulls an HTTP status out of provider errors (ExtractionError, @google/genai ApiError)
+export const getErrorStatus = (error: unknown): number | undefined => {
+  const { status, code } = (error ?? {}) as { status?: unknown; code?: unknown };
+  if (typeof status === 'number') return status;
+  if (typeof code === 'number') return code;
+
+  // Some SDK errors only mention the status in their message; a bare number
+  // such as "500 images" is not one
+  const message = error instanceof Error ? error.message : String(error);
+  const match = message.match(/\b(?:status|code)\D{0,3}(429|5\d\d)\b/i);
+  return match ? Number(match[1]) : undefined;
+};
+
+// Only rate limits and server-side failures are worth retrying
+export const isRetryableError = (error: unknown): boolean => {
+  const status = getErrorStatus(error);
+  if (status === 429 || (status !== undefined && status >= 500 && status < 600)) return true;
+
+  const message = error instanceof Error ? error.message : String(error);
+  return /RESOURCE_EXHAUSTED|UNAVAILABLE|rate limit/i.test(message);
+};
+
+export const describeError = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
+
+// Runs `task`, retrying retryable failures with exponential backoff and jitter
+export const withRetry = async <T>(task: () => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+  const { maxAttempts, baseDelayMs, maxDelayMs } = { ...DEFAULT_RETRY_OPTIONS, ...options };
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await task();
+    } catch (error) {
+      if (attempt >= maxAttempts || !isRetryableError(error)) {
+        throw error;
+      }
+      const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+      console.warn(`Attempt ${attempt} failed, retrying in ${delay}ms:`, describeError(error));
+      await sleep(delay / 2 + Math.random() * (delay / 2));
+    }
+  }
+};
@@ -0,0 +1,69 @@
+import { StructuredAddress } from "../types.js";
+
+export type GeocoderId = 'boundaries' | 'nominatim';
+
+// A backend that turns coordinates into administrative areas.
+// Resolves to null when the point is outside everything the backend knows.
+export interface ReverseGeocoder {
+  id: GeocoderId;
+  label: string;
+  reverse: (latitude: number, longitude: number) => Promise<StructuredAddress | null>;
+}
+
+export class GeocodingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GeocodingError';
+  }
+}
+
+export const emptyStructuredAddress = (): StructuredAddress => ({
+  street: null,
+  village: null,
+  district: null,
+  city: null,
+  province: null,
+  postalCode: null,
+  country: null
+});
+
+// Most specific first, the order used for display and exports
+export const ADDRESS_FIELDS: { key: keyof StructuredAddress; label: string }[] = [
+  { key: 'street', label: 'Street' },
+  { key: 'village', label: 'Village' },
+  { key: 'district', label: 'District' },
+  { key: 'city', label: 'City' },
+  { key: 'province', label: 'Province' },
+  { key: 'postalCode', label: 'Postal Code' },
+  { key: 'country', label: 'Country' }
+];
+
+export const formatStructuredAddress = (address: StructuredAddress): string =>
+  ADDRESS_FIELDS.map(field => address[field.key]).filter(Boolean).join(', ');
+
+// Administrative prefixes that the model and the geocoder use inconsistently
+const ADMIN_PREFIXES = /\b(desa|ds|kelurahan|kel|kecamatan|kec|kabupaten|kab|kota|kotamadya|kodya|provinsi|prov|village|subdistrict|district|regency|city|province)\b\.?/g;
+
+export const normalizePlaceName = (text: string): string =>
+  text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(ADMIN_PREFIXES, ' ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+// True when the free-text address names none of the geocoded areas, from
+// village up to province. Coarser addresses ("Jawa Barat") still agree.
+export const detectAddressMismatch = (address: string, geocoded: StructuredAddress | null | undefined): boolean => {
+  if (!geocoded || !address.trim()) return false;
+
+  const names = [geocoded.village, geocoded.district, geocoded.city, geocoded.province]
+    .filter((name): name is string => Boolean(name))
+    .map(normalizePlaceName)
+    .filter(Boolean);
+  if (names.length === 0) return false;
+
+  const haystack = ` ${normalizePlaceName(address)} `;
+  return !names.some(name => haystack.includes(` ${name} `));
+};
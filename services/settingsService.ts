@@ -0,0 +1,89 @@
+import { DEFAULT_SCHEDULER_OPTIONS } from "./batchScheduler";
+import { GEMINI_MODELS } from "./geminiRequest";
+import { DEFAULT_PROXY_URL } from "./proxyProtocol";
+
+// User settings kept in this browser's localStorage. Build-time env values are
+// only defaults; the bundle never carries an API key, so every user either
+// brings their own key or goes through the team's extraction proxy.
+
+const SETTINGS_KEY = 'arundaya-geopix:settings';
+
+// "direct" calls Gemini from the browser with the user's key; "proxy" sends
+// batches to a team server that holds the key (server/extractHandler.ts)
+export type GeminiConnection = 'direct' | 'proxy';
+
+export interface AppSettings {
+  connection: GeminiConnection;
+  apiKey: string; // Gemini API key
+  proxyUrl: string;
+  proxyToken: string; // Personal token or the team's shared secret
+  proxyUser: string; // Sent as X-User; only used with a shared secret
+  model: string; // Gemini model
+  temperature: number; // 0..2; low values keep extraction factual
+  maxImagesPerBatch: number;
+  concurrency: number; // Batches in flight at once
+}
+
+export const SETTINGS_LIMITS = {
+  temperature: { min: 0, max: 2 },
+  maxImagesPerBatch: { min: 1, max: 50 },
+  concurrency: { min: 1, max: 10 }
+};
+
+export const readNumberEnv = (value: string | undefined, fallback: number): number => {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+// A build with GEMINI_PROXY_URL is meant for a team server, so it starts in proxy mode
+export const DEFAULT_SETTINGS: AppSettings = {
+  connection: process.env.GEMINI_PROXY_URL ? 'proxy' : 'direct',
+  apiKey: '',
+  proxyUrl: process.env.GEMINI_PROXY_URL || DEFAULT_PROXY_URL,
+  proxyToken: '',
+  proxyUser: '',
+  model: process.env.GEMINI_MODEL || GEMINI_MODELS[0].id,
+  temperature: 0.2,
+  maxImagesPerBatch: readNumberEnv(process.env.MAX_IMAGES_PER_BATCH, 20),
+  concurrency: readNumberEnv(process.env.MAX_CONCURRENT_REQUESTS, DEFAULT_SCHEDULER_OPTIONS.concurrency)
+};
+
+const clamp = (value: unknown, { min, max }: { min: number; max: number }, fallback: number): number =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+
+const text = (value: unknown, fallback: string): string => (typeof value === 'string' ? value.trim() : fallback);
+
+// Fills in anything missing or out of range, e.g. from an older version of the app
+export const normalizeSettings = (value: Partial<AppSettings>): AppSettings => ({
+  connection: value.connection === 'direct' || value.connection === 'proxy' ? value.connection : DEFAULT_SETTINGS.connection,
+  apiKey: text(value.apiKey, DEFAULT_SETTINGS.apiKey),
+  proxyUrl: text(value.proxyUrl, '') || DEFAULT_SETTINGS.proxyUrl,
+  proxyToken: text(value.proxyToken, DEFAULT_SETTINGS.proxyToken),
+  proxyUser: text(value.proxyUser, DEFAULT_SETTINGS.proxyUser),
+  model: text(value.model, '') || DEFAULT_SETTINGS.model,
+  temperature: clamp(value.temperature, SETTINGS_LIMITS.temperature, DEFAULT_SETTINGS.temperature),
+  maxImagesPerBatch: Math.round(clamp(value.maxImagesPerBatch, SETTINGS_LIMITS.maxImagesPerBatch, DEFAULT_SETTINGS.maxImagesPerBatch)),
+  concurrency: Math.round(clamp(value.concurrency, SETTINGS_LIMITS.concurrency, DEFAULT_SETTINGS.concurrency))
+});
+
+const loadSettings = (): AppSettings => {
+  try {
+    return normalizeSettings(JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? '{}'));
+  } catch (error) {
+    console.warn("Stored settings are unreadable, using defaults:", error);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+let current: AppSettings = loadSettings();
+
+// Read at call time by the providers, so changes apply to the next batch
+export const getSettings = (): AppSettings => current;
+
+export const saveSettings = (settings: AppSettings): AppSettings => {
+  current = normalizeSettings(settings);
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(current));
+  return current;
+};
+
+export const getApiKey = (): string => current.apiKey;
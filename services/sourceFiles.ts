@@ -0,0 +1,89 @@
+import { ProcessedImage } from "../types";
+
+// Collects dropped or picked files together with their path relative to what
+// the user chose, e.g. "Site A/Day 2/IMG_0012.jpg" for a dropped folder.
+
+export interface SourceFile {
+  file: File;
+  path: string; // "/" separated; just the file name for loose files
+}
+
+export const folderOf = (path: string): string => {
+  const slash = path.lastIndexOf('/');
+  return slash === -1 ? '' : path.slice(0, slash);
+};
+
+export const joinPath = (folder: string, name: string): string => (folder ? `${folder}/${name}` : name);
+
+// True for files in `folder` or any of its subfolders; '' is the top level and matches everything
+export const isInFolder = (path: string, folder: string): boolean => folder === '' || path.startsWith(`${folder}/`);
+
+// Every folder that holds a file, with its parent folders, in natural order
+export const listFolders = (paths: string[]): string[] => {
+  const folders = new Set<string>();
+  paths.forEach(path => {
+    for (let folder = folderOf(path); folder && !folders.has(folder); folder = folderOf(folder)) {
+      folders.add(folder);
+    }
+  });
+  return [...folders].sort((a, b) => a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' }));
+};
+
+// Rows saved before folders were supported only have a file name
+export const getRelativePath = (row: ProcessedImage): string => row.relativePath || row.fileName;
+
+// Returns `path`, or "name (2).ext", "name (3).ext"... if it is taken, and marks the result as taken
+export const claimUniquePath = (path: string, taken: Set<string>): string => {
+  let candidate = path;
+  const match = path.match(/^(.*?)(\.[^./]+)?$/)!;
+  for (let copy = 2; taken.has(candidate); copy++) {
+    candidate = `${match[1]} (${copy})${match[2] ?? ''}`;
+  }
+  taken.add(candidate);
+  return candidate;
+};
+
+// Folder pickers (<input webkitdirectory>) fill webkitRelativePath; plain pickers and paste do not
+export const fromFileList = (files: ArrayLike<File>): SourceFile[] =>
+  Array.from(files).map(file => ({ file, path: file.webkitRelativePath || file.name }));
+
+const readFile = (entry: FileSystemFileEntry): Promise<File> =>
+  new Promise((resolve, reject) => entry.file(resolve, reject));
+
+// readEntries returns at most 100 entries per call in Chrome; keep reading until it returns none
+const readAllEntries = async (directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> => {
+  const reader = directory.createReader();
+  const entries: FileSystemEntry[] = [];
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) return entries;
+    entries.push(...batch);
+  }
+};
+
+const collectEntry = async (entry: FileSystemEntry, sink: SourceFile[]): Promise<void> => {
+  if (entry.isFile) {
+    sink.push({ file: await readFile(entry as FileSystemFileEntry), path: entry.fullPath.replace(/^\/+/, '') });
+  } else if (entry.isDirectory) {
+    for (const child of await readAllEntries(entry as FileSystemDirectoryEntry)) {
+      await collectEntry(child, sink);
+    }
+  }
+};
+
+// Walks dropped folders recursively. The entries must be taken from the
+// DataTransfer synchronously, inside the drop handler, before it is cleared.
+export const collectDroppedFiles = (dataTransfer: DataTransfer): Promise<SourceFile[]> => {
+  const items = Array.from(dataTransfer.items ?? []).filter(item => item.kind === 'file');
+  const entries = items.map(item => item.webkitGetAsEntry?.() ?? null);
+
+  if (entries.length === 0 || entries.some(entry => entry === null)) {
+    return Promise.resolve(fromFileList(dataTransfer.files));
+  }
+
+  return (async () => {
+    const files: SourceFile[] = [];
+    for (const entry of entries) await collectEntry(entry!, files);
+    return files;
+  })();
+};
@@ -0,0 +1,91 @@
+import { createWorker, Worker } from 'tesseract.js';
+import { ParsedStamp, parseStampText } from "./stampParser";
+
+// Reads GPS-camera stamps locally with Tesseract (WASM, runs in its own Web
+// Worker). Only photos whose stamp yields coordinates skip the cloud model.
+
+export interface StampReading extends ParsedStamp {
+  latitude: number;
+  longitude: number;
+  confidence: number; // 0..1, from Tesseract's word confidences
+}
+
+// Where the apps put their stamp, as fractions of the image: bottom band first
+const STAMP_REGIONS = [
+  { top: 0.6, height: 0.4 },
+  { top: 0, height: 0.3 }
+];
+
+// Tesseract reads small print better when the crop is scaled up a little
+const MIN_REGION_WIDTH = 1200;
+const MAX_REGION_WIDTH = 2400;
+
+export const isLocalOcrEnabled = (): boolean => process.env.LOCAL_OCR !== 'off';
+
+let workerPromise: Promise<Worker> | null = null;
+let unavailable = false;
+
+const getWorker = (): Promise<Worker> => {
+  if (!workerPromise) {
+    // English and Indonesian, for month and day names and address words
+    workerPromise = createWorker(['eng', 'ind']);
+  }
+  return workerPromise;
+};
+
+const cropRegion = (image: ImageBitmap, region: { top: number; height: number }): HTMLCanvasElement => {
+  const sourceY = Math.round(image.height * region.top);
+  const sourceHeight = Math.round(image.height * region.height);
+  const scale = Math.min(MAX_REGION_WIDTH, Math.max(MIN_REGION_WIDTH, image.width)) / image.width;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(image.width * scale);
+  canvas.height = Math.round(sourceHeight * scale);
+  const context = canvas.getContext('2d')!;
+  context.drawImage(image, 0, sourceY, image.width, sourceHeight, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+// Resolves to null when OCR is off or unavailable, the image cannot be decoded,
+// or no coordinates could be parsed; callers then fall back to the model.
+export const readStamp = async (file: File): Promise<StampReading | null> => {
+  if (!isLocalOcrEnabled() || unavailable) return null;
+
+  let worker: Worker;
+  try {
+    worker = await getWorker();
+  } catch (error) {
+    // Usually the WASM core or language data could not be downloaded
+    console.warn("Local OCR unavailable, using the extraction provider only:", error);
+    unavailable = true;
+    return null;
+  }
+
+  let image: ImageBitmap;
+  try {
+    image = await createImageBitmap(file);
+  } catch {
+    return null;
+  }
+
+  try {
+    for (const region of STAMP_REGIONS) {
+      const { data } = await worker.recognize(cropRegion(image, region));
+      const parsed = parseStampText(data.text);
+      if (parsed.latitude !== null && parsed.longitude !== null) {
+        return {
+          ...parsed,
+          latitude: parsed.latitude,
+          longitude: parsed.longitude,
+          confidence: Math.max(0, Math.min(1, data.confidence / 100))
+        };
+      }
+    }
+    return null;
+  } catch (error) {
+    console.warn(`OCR failed for ${file.name}:`, error);
+    return null;
+  } finally {
+    image.close();
+  }
+};
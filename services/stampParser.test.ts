@@ -0,0 +1,162 @@
+import { describe, expect, it } from 'vitest';
+import { parseStampText } from './stampParser';
+
+// Stamp text as Tesseract reads it from GPS-camera apps, look-alike marks included
+const SAMPLES: {
+  name: string;
+  text: string;
+  latitude: number;
+  longitude: number;
+  format: 'decimal' | 'dms' | 'utm';
+  date?: string;
+  time?: string;
+  address?: string;
+}[] = [
+  {
+    name: 'GPS Map Camera, labelled decimal',
+    text: [
+      'Jakarta, DKI Jakarta, Indonesia',
+      'Jl. Medan Merdeka Barat No.12, Gambir, Jakarta Pusat',
+      'Lat -6.175392° Long 106.827153°',
+      '18/03/2024 02:05 PM GMT +07:00'
+    ].join('\n'),
+    latitude: -6.175392,
+    longitude: 106.827153,
+    format: 'decimal',
+    date: '2024-03-18',
+    time: '14:05',
+    address: 'Jakarta, DKI Jakarta, Indonesia, Jl. Medan Merdeka Barat No.12, Gambir, Jakarta Pusat'
+  },
+  {
+    name: 'Indonesian labels with comma decimals',
+    text: 'Lintang: -7,250445\nBujur: 112,768845\nSenin, 18 Maret 2024 08.15',
+    latitude: -7.250445,
+    longitude: 112.768845,
+    format: 'decimal',
+    date: '2024-03-18',
+    time: '08:15'
+  },
+  {
+    name: 'LS/BT hemisphere markers',
+    text: '6.2088 LS 106.8456 BT\n18-03-2024 14:05:33',
+    latitude: -6.2088,
+    longitude: 106.8456,
+    format: 'decimal',
+    date: '2024-03-18',
+    time: '14:05'
+  },
+  {
+    name: 'LU/BB hemisphere markers',
+    text: 'Koordinat: 1,4748 LU, 124,8421 BB',
+    latitude: 1.4748,
+    longitude: -124.8421,
+    format: 'decimal'
+  },
+  {
+    name: 'hemisphere letters before the angle',
+    text: 'S 6.2088° E 106.8456°\nMar 18, 2024 9:41 AM',
+    latitude: -6.2088,
+    longitude: 106.8456,
+    format: 'decimal',
+    date: '2024-03-18',
+    time: '09:41'
+  },
+  {
+    name: 'DMS with OCR look-alike marks',
+    text: '6º12′31.7″S 106˚50’44.2”E\n2024:03:18 14:05',
+    latitude: -(6 + 12 / 60 + 31.7 / 3600),
+    longitude: 106 + 50 / 60 + 44.2 / 3600,
+    format: 'dms',
+    date: '2024-03-18',
+    time: '14:05'
+  },
+  {
+    name: 'labelled DMS in the northern and western hemispheres',
+    text: "Latitude: 40°42'46.1\"N\nLongitude: 74°0'21.6\"W\nMonday, March 18, 2024 11:30 pm",
+    latitude: 40 + 42 / 60 + 46.1 / 3600,
+    longitude: -(74 + 21.6 / 3600),
+    format: 'dms',
+    date: '2024-03-18',
+    time: '23:30'
+  },
+  {
+    name: 'UTM with band letter',
+    text: 'UTM Zone 48M E 702178 N 9317060\n18.03.2024 14.05',
+    latitude: -6.175392,
+    longitude: 106.827153,
+    format: 'utm',
+    date: '2024-03-18',
+    time: '14:05'
+  },
+  {
+    name: 'UTM with mE/mN suffixes',
+    text: '49 M 695295mE 9198185mN',
+    latitude: -7.250445,
+    longitude: 112.768845,
+    format: 'utm'
+  },
+  {
+    name: 'UTM north of the equator, six-digit northing',
+    text: 'Medan, Sumatera Utara\n47N 463598 397389',
+    latitude: 3.595196,
+    longitude: 98.672226,
+    format: 'utm',
+    address: 'Medan, Sumatera Utara'
+  },
+  {
+    name: 'unlabelled decimal pair',
+    text: 'Surabaya, Jawa Timur\n-7.257472, 112.752090\n18 Mar 24 07:00',
+    latitude: -7.257472,
+    longitude: 112.75209,
+    format: 'decimal',
+    date: '2024-03-18',
+    time: '07:00',
+    address: 'Surabaya, Jawa Timur'
+  }
+];
+
+describe('parseStampText', () => {
+  it.each(SAMPLES)('reads $name', sample => {
+    const parsed = parseStampText(sample.text);
+    expect(parsed.format).toBe(sample.format);
+    // UTM samples are given to the metre, so they are checked to about five
+    const digits = sample.format === 'utm' ? 4 : 6;
+    expect(parsed.latitude).toBeCloseTo(sample.latitude, digits);
+    expect(parsed.longitude).toBeCloseTo(sample.longitude, digits);
+    if (sample.date !== undefined) expect(parsed.date).toBe(sample.date);
+    if (sample.time !== undefined) expect(parsed.time).toBe(sample.time);
+    if (sample.address !== undefined) expect(parsed.address).toBe(sample.address);
+  });
+
+  it.each([
+    ['a date and a time', '18/03/2024 14:05\nJl. Sudirman, Jakarta'],
+    ['an ISO date and seconds', '2024-03-18 14:05:33'],
+    ['dotted dates and times', '18.03.2024 14.05.33'],
+    ['a day with a hemisphere-like letter', 'Sen 18 Mar 2024 08:15 WIB\nAltitude 12 m, Speed 3 E'],
+    ['a date next to a coordinate label', 'Lat 18.03.2024'],
+    ['zero coordinates', 'Lat 0.000000 Long 0.000000']
+  ])('reads no coordinates from %s', (_, text) => {
+    const parsed = parseStampText(text);
+    expect(parsed.latitude).toBeNull();
+    expect(parsed.longitude).toBeNull();
+    expect(parsed.format).toBeNull();
+  });
+
+  it('keeps the date and time of a stamp without coordinates', () => {
+    const parsed = parseStampText('Kamis, 21 November 2024 16:45\nDesa Sukamaju');
+    expect(parsed).toMatchObject({ date: '2024-11-21', time: '16:45', address: 'Desa Sukamaju' });
+  });
+
+  it('does not read the date or time as part of the coordinates', () => {
+    const parsed = parseStampText('18/03/2024 14:05 -6.2088, 106.8456');
+    expect(parsed.latitude).toBeCloseTo(-6.2088, 6);
+    expect(parsed.longitude).toBeCloseTo(106.8456, 6);
+    expect(parsed.date).toBe('2024-03-18');
+    expect(parsed.time).toBe('14:05');
+  });
+
+  it('rejects out-of-range angles', () => {
+    expect(parseStampText('Lat 95.123456 Long 106.8456').latitude).toBeNull();
+    expect(parseStampText("6°75'10\"S 106°50'44\"E").latitude).toBeNull();
+  });
+});
@@ -0,0 +1,290 @@
+import { isValidLatitude, isValidLongitude, normalizeDate, normalizeTime } from "./validation";
+
+// Parses the text GPS-camera apps stamp into a corner of the photo, as read by OCR.
+// Coordinates may be decimal ("Lat -6.2088 Long 106.8456", "6.2088 LS 106.8456 BT"),
+// degrees-minutes-seconds ("6°12'31.7"S 106°50'44.2"E") or UTM ("48M 701234 9313456").
+
+export type StampCoordinateFormat = 'decimal' | 'dms' | 'utm';
+
+export interface ParsedStamp {
+  latitude: number | null;
+  longitude: number | null;
+  format: StampCoordinateFormat | null;
+  date: string;
+  time: string;
+  address: string;
+}
+
+type Span = [number, number];
+
+// OCR turns degree, minute and second marks into look-alikes
+const cleanOcrText = (text: string): string =>
+  text
+    .replace(/[º˚ᵒ]/g, '°')
+    .replace(/[′’‘`´]/g, "'")
+    .replace(/[″“”]|''/g, '"')
+    .replace(/\r/g, '');
+
+const toNumber = (text: string | undefined): number | null => {
+  if (text === undefined) return null;
+  const value = parseFloat(text.replace(',', '.'));
+  return Number.isFinite(value) ? value : null;
+};
+
+// --- Angles (decimal or DMS) ---
+
+const NUM = String.raw`\d{1,3}(?:[.,]\d+)?`;
+const ANGLE = String.raw`(-?${NUM})\s*°?(?:\s*(\d{1,2}(?:[.,]\d+)?)\s*')?(?:\s*(\d{1,2}(?:[.,]\d+)?)\s*")?`;
+// Indonesian stamps use LU/LS (lintang utara/selatan) and BT/BB (bujur timur/barat)
+const HEMI = String.raw`(LU|LS|BT|BB|N|S|E|W)`;
+
+type Axis = 'lat' | 'lng';
+
+interface Angle {
+  value: number;
+  axis: Axis | null; // From the hemisphere letter, when there is one
+  isDms: boolean;
+}
+
+const hemisphereAxis = (hemisphere: string): Axis =>
+  ['N', 'S', 'LU', 'LS'].includes(hemisphere) ? 'lat' : 'lng';
+
+const isNegativeHemisphere = (hemisphere: string): boolean => ['S', 'W', 'LS', 'BB'].includes(hemisphere);
+
+const toAngle = (degrees: string, minutes: string | undefined, seconds: string | undefined, hemisphere?: string): Angle | null => {
+  const deg = toNumber(degrees);
+  if (deg === null) return null;
+  const min = toNumber(minutes) ?? 0;
+  const sec = toNumber(seconds) ?? 0;
+  if (min >= 60 || sec >= 60) return null;
+
+  let value = Math.abs(deg) + min / 60 + sec / 3600;
+  const negative = deg < 0 || degrees.startsWith('-') || (hemisphere ? isNegativeHemisphere(hemisphere.toUpperCase()) : false);
+  if (negative) value = -value;
+
+  return {
+    value,
+    axis: hemisphere ? hemisphereAxis(hemisphere.toUpperCase()) : null,
+    isDms: minutes !== undefined
+  };
+};
+
+interface CoordinateMatch {
+  latitude: number;
+  longitude: number;
+  format: StampCoordinateFormat;
+  spans: Span[];
+}
+
+const spanOf = (match: RegExpExecArray): Span => [match.index, match.index + match[0].length];
+
+// "Lat: -6.2088", "Latitude 6°12'31.7"S", "Lintang -6,2088"
+const findLabelled = (text: string): CoordinateMatch | null => {
+  const latPattern = new RegExp(String.raw`\b(?:lat(?:itude)?|lintang)\b\.?\s*[:=]?\s*${ANGLE}\s*(?:${HEMI}(?![a-z]))?`, 'i');
+  // Not after a slash, so "Lat/Long: -6.2, 106.8" is left to the pair matcher
+  const lngPattern = new RegExp(String.raw`(?<![/\w])(?:long(?:itude)?|lng|lon|bujur)\b\.?\s*[:=]?\s*${ANGLE}\s*(?:${HEMI}(?![a-z]))?`, 'i');
+
+  const lat = latPattern.exec(text);
+  const lng = lngPattern.exec(text);
+  if (!lat || !lng) return null;
+
+  const latitude = toAngle(lat[1], lat[2], lat[3], lat[4]);
+  const longitude = toAngle(lng[1], lng[2], lng[3], lng[4]);
+  if (!latitude || !longitude) return null;
+
+  return {
+    latitude: latitude.value,
+    longitude: longitude.value,
+    format: latitude.isDms || longitude.isDms ? 'dms' : 'decimal',
+    spans: [spanOf(lat), spanOf(lng)]
+  };
+};
+
+// "6°12'31.7"S 106°50'44.2"E", "S 6.2088° E 106.8456°", "6.2088 LS, 106.8456 BT"
+const findHemisphereTagged = (text: string): CoordinateMatch | null => {
+  const after = new RegExp(String.raw`(?<![\w.,])${ANGLE}\s*${HEMI}(?![a-z])`, 'gi');
+  const before = new RegExp(String.raw`(?<![a-z])${HEMI}\s*${ANGLE}`, 'gi');
+
+  // Letters can only belong to one side, so each placement is tried on its own:
+  // in "S 6° 12' E 106° 50'" the E would otherwise end the latitude.
+  const pairFrom = (pattern: RegExp, hemisphereFirst: boolean): CoordinateMatch | null => {
+    const found: { angle: Angle; span: Span }[] = [];
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text))) {
+      const [degrees, minutes, seconds, hemisphere] = hemisphereFirst
+        ? [match[2], match[3], match[4], match[1]]
+        : [match[1], match[2], match[3], match[4]];
+      // A bare integer next to a letter ("48 S", "12 E") is not an angle
+      if (!match[0].includes('°') && minutes === undefined && !/[.,]\d/.test(degrees)) continue;
+      const angle = toAngle(degrees, minutes, seconds, hemisphere);
+      if (angle) found.push({ angle, span: spanOf(match) });
+    }
+
+    const lat = found.find(entry => entry.angle.axis === 'lat' && isValidLatitude(entry.angle.value));
+    const lng = found.find(entry => entry.angle.axis === 'lng' && isValidLongitude(entry.angle.value));
+    if (!lat || !lng) return null;
+
+    return {
+      latitude: lat.angle.value,
+      longitude: lng.angle.value,
+      format: lat.angle.isDms || lng.angle.isDms ? 'dms' : 'decimal',
+      spans: [lat.span, lng.span]
+    };
+  };
+
+  return pairFrom(after, false) ?? pairFrom(before, true);
+};
+
+// "-6.2088, 106.8456". At least three decimals, so dates and times never match.
+const findDecimalPair = (text: string): CoordinateMatch | null => {
+  const pattern = /(?<![\d.,])(-?\d{1,2}[.,]\d{3,})\s*[,;/ ]\s*(-?\d{1,3}[.,]\d{3,})(?![\d])/;
+  const match = pattern.exec(text);
+  if (!match) return null;
+  return {
+    latitude: toNumber(match[1])!,
+    longitude: toNumber(match[2])!,
+    format: 'decimal',
+    spans: [spanOf(match)]
+  };
+};
+
+// --- UTM ---
+
+// Latitude bands C..M are south of the equator, N..X north (I and O are not used)
+const isSouthernBand = (band: string): boolean => band.toUpperCase() < 'N';
+
+// UTM to WGS84 (Snyder's series expansion, accurate to well under a metre)
+export const utmToLatLng = (zone: number, southern: boolean, easting: number, northing: number): { latitude: number; longitude: number } => {
+  const a = 6378137;
+  const f = 1 / 298.257223563;
+  const k0 = 0.9996;
+  const e2 = f * (2 - f);
+  const ePrime2 = e2 / (1 - e2);
+  const e1 = (1 - Math.sqrt(1 - e2)) / (1 + Math.sqrt(1 - e2));
+
+  const x = easting - 500000;
+  const y = southern ? northing - 10000000 : northing;
+
+  const m = y / k0;
+  const mu = m / (a * (1 - e2 / 4 - (3 * e2 * e2) / 64 - (5 * e2 * e2 * e2) / 256));
+  const phi1 =
+    mu +
+    ((3 * e1) / 2 - (27 * e1 ** 3) / 32) * Math.sin(2 * mu) +
+    ((21 * e1 * e1) / 16 - (55 * e1 ** 4) / 32) * Math.sin(4 * mu) +
+    ((151 * e1 ** 3) / 96) * Math.sin(6 * mu) +
+    ((1097 * e1 ** 4) / 512) * Math.sin(8 * mu);
+
+  const sinPhi = Math.sin(phi1);
+  const cosPhi = Math.cos(phi1);
+  const tanPhi = Math.tan(phi1);
+  const n1 = a / Math.sqrt(1 - e2 * sinPhi * sinPhi);
+  const t1 = tanPhi * tanPhi;
+  const c1 = ePrime2 * cosPhi * cosPhi;
+  const r1 = (a * (1 - e2)) / Math.pow(1 - e2 * sinPhi * sinPhi, 1.5);
+  const d = x / (n1 * k0);
+
+  const latitude =
+    phi1 -
+    ((n1 * tanPhi) / r1) *
+      ((d * d) / 2 -
+        ((5 + 3 * t1 + 10 * c1 - 4 * c1 * c1 - 9 * ePrime2) * d ** 4) / 24 +
+        ((61 + 90 * t1 + 298 * c1 + 45 * t1 * t1 - 252 * ePrime2 - 3 * c1 * c1) * d ** 6) / 720);
+  const longitude =
+    (d -
+      ((1 + 2 * t1 + c1) * d ** 3) / 6 +
+      ((5 - 2 * c1 + 28 * t1 - 3 * c1 * c1 + 8 * ePrime2 + 24 * t1 * t1) * d ** 5) / 120) /
+    cosPhi;
+
+  const centralMeridian = (zone - 1) * 6 - 180 + 3;
+  return {
+    latitude: (latitude * 180) / Math.PI,
+    longitude: centralMeridian + (longitude * 180) / Math.PI
+  };
+};
+
+// "48M 701234 9313456", "UTM Zone 48M E 701234 N 9313456", "48 M 701234mE 9313456mN".
+// Northings just north of the equator (Aceh, North Sumatra) have six digits.
+const findUtm = (text: string): CoordinateMatch | null => {
+  const pattern = /\b(\d{1,2})\s*([C-HJ-NP-X])\b\s*(?:E\s*[:=]?\s*)?(\d{6}(?:[.,]\d+)?)\s*(?:m\s*E\b)?\s*[,;]?\s*(?:N\s*[:=]?\s*)?(\d{6,7}(?:[.,]\d+)?)(?:\s*m\s*N\b)?/i;
+  const match = pattern.exec(text);
+  if (!match) return null;
+
+  const zone = +match[1];
+  if (zone < 1 || zone > 60) return null;
+  const { latitude, longitude } = utmToLatLng(zone, isSouthernBand(match[2]), toNumber(match[3])!, toNumber(match[4])!);
+  return { latitude, longitude, format: 'utm', spans: [spanOf(match)] };
+};
+
+const findCoordinates = (text: string): CoordinateMatch | null => {
+  for (const finder of [findLabelled, findHemisphereTagged, findUtm, findDecimalPair]) {
+    const result = finder(text);
+    if (
+      result &&
+      isValidLatitude(result.latitude) &&
+      isValidLongitude(result.longitude) &&
+      !(result.latitude === 0 && result.longitude === 0)
+    ) {
+      return result;
+    }
+  }
+  return null;
+};
+
+// --- Date, time and address ---
+
+const blankSpans = (text: string, spans: Span[]): string => {
+  let result = text;
+  spans.forEach(([start, end]) => {
+    result = result.slice(0, start) + ' '.repeat(end - start) + result.slice(end);
+  });
+  return result;
+};
+
+// Colon or dot separated, not part of a longer number such as a date or coordinate
+const TIME_PATTERN = /(?<![\d.,/:-])(\d{1,2})[:.](\d{2})(?:[:.](\d{2}))?(?![\d.,/:-]*\d)\s*(am|pm|a\.m\.|p\.m\.)?/i;
+
+const findTime = (line: string): { time: string; span: Span } | null => {
+  const match = TIME_PATTERN.exec(line);
+  if (!match) return null;
+  const time = normalizeTime(match[0]);
+  return time ? { time, span: spanOf(match) } : null;
+};
+
+// Lines that are branding of the camera app rather than part of the address
+const NOISE_LINE = /gps\s*map|timestamp|camera|google|altitude|altitud|accuracy|akurasi|speed|kecepatan|note:|catatan/i;
+
+export const parseStampText = (rawText: string): ParsedStamp => {
+  const text = cleanOcrText(rawText);
+  const coordinates = findCoordinates(text);
+  const remaining = coordinates ? blankSpans(text, coordinates.spans) : text;
+
+  let date = '';
+  let time = '';
+  const addressLines: string[] = [];
+
+  remaining.split('\n').forEach(rawLine => {
+    let line = rawLine;
+    const lineDate = normalizeDate(line);
+    const lineTime = findTime(line);
+    if (lineDate && !date) date = lineDate;
+    if (lineTime && !time) time = lineTime.time;
+    if (lineDate || lineTime) return;
+
+    // Labels left behind by a blanked-out coordinate ("GPS:", "Lat:")
+    line = line.replace(/\b(?:gps|koordinat|coordinates?|lat(?:itude)?|long(?:itude)?|utm|zone)\b\s*[:/]?/gi, ' ');
+    const cleaned = line.replace(/\s+/g, ' ').replace(/^[\s,;:|-]+|[\s,;:|-]+$/g, '');
+    const letters = cleaned.replace(/[^a-z]/gi, '').length;
+    if (letters >= 3 && letters >= cleaned.length / 2 && !NOISE_LINE.test(cleaned)) {
+      addressLines.push(cleaned);
+    }
+  });
+
+  return {
+    latitude: coordinates?.latitude ?? null,
+    longitude: coordinates?.longitude ?? null,
+    format: coordinates?.format ?? null,
+    date,
+    time,
+    address: addressLines.join(', ')
+  };
+};
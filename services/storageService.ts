@@ -0,0 +1,229 @@
+import { ProcessedImage, ResultStatus } from "../types";
+import { createThumbnail } from "./imageUtils";
+
+// IndexedDB persistence for sessions: each session holds the original image
+// blobs, their thumbnails and the extracted result rows.
+
+const DB_NAME = 'arundaya-geopix';
+const DB_VERSION = 1;
+const SESSIONS_STORE = 'sessions';
+const IMAGES_STORE = 'images';
+const RESULTS_STORE = 'results';
+const LAST_SESSION_KEY = 'arundaya-geopix:last-session';
+
+export interface Session {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  templateId?: string; // Extraction template used for this session's photos
+}
+
+export interface SessionSummary extends Session {
+  imageCount: number;
+}
+
+type StoredResult = Omit<ProcessedImage, 'originalFile' | 'previewUrl'> & { sessionId: string };
+
+interface StoredImage {
+  id: string;
+  sessionId: string;
+  file: File;
+  thumbnail: Blob | null;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+        db.createObjectStore(IMAGES_STORE, { keyPath: 'id' }).createIndex('sessionId', 'sessionId');
+        db.createObjectStore(RESULTS_STORE, { keyPath: 'id' }).createIndex('sessionId', 'sessionId');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+const createId = () => Math.random().toString(36).substring(2) + Date.now().toString(36);
+
+export const getLastSessionId = (): string | null => localStorage.getItem(LAST_SESSION_KEY);
+
+export const setLastSessionId = (id: string | null) => {
+  if (id) localStorage.setItem(LAST_SESSION_KEY, id);
+  else localStorage.removeItem(LAST_SESSION_KEY);
+};
+
+export const listSessions = async (): Promise<SessionSummary[]> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([SESSIONS_STORE, RESULTS_STORE], 'readonly');
+  const sessions = await requestToPromise(transaction.objectStore(SESSIONS_STORE).getAll() as IDBRequest<Session[]>);
+  const resultIndex = transaction.objectStore(RESULTS_STORE).index('sessionId');
+
+  const summaries = await Promise.all(sessions.map(async session => ({
+    ...session,
+    imageCount: await requestToPromise(resultIndex.count(session.id))
+  })));
+  return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const createSession = async (name: string, templateId?: string): Promise<Session> => {
+  const now = Date.now();
+  const session: Session = { id: createId(), name, createdAt: now, updatedAt: now, templateId };
+  const db = await openDatabase();
+  const transaction = db.transaction(SESSIONS_STORE, 'readwrite');
+  transaction.objectStore(SESSIONS_STORE).put(session);
+  await transactionDone(transaction);
+  return session;
+};
+
+const updateSession = async (id: string, changes: Partial<Pick<Session, 'name' | 'templateId'>>): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(SESSIONS_STORE, 'readwrite');
+  const store = transaction.objectStore(SESSIONS_STORE);
+  const session = await requestToPromise(store.get(id) as IDBRequest<Session | undefined>);
+  if (session) store.put({ ...session, ...changes, updatedAt: Date.now() });
+  await transactionDone(transaction);
+};
+
+export const renameSession = (id: string, name: string): Promise<void> => updateSession(id, { name });
+
+export const setSessionTemplate = (id: string, templateId: string): Promise<void> => updateSession(id, { templateId });
+
+const deleteByIndex = async (store: IDBObjectStore, sessionId: string) => {
+  const keys = await requestToPromise(store.index('sessionId').getAllKeys(sessionId));
+  keys.forEach(key => store.delete(key));
+};
+
+// Removes every image and result in the session but keeps the session itself
+export const clearSession = async (sessionId: string): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([IMAGES_STORE, RESULTS_STORE], 'readwrite');
+  await deleteByIndex(transaction.objectStore(IMAGES_STORE), sessionId);
+  await deleteByIndex(transaction.objectStore(RESULTS_STORE), sessionId);
+  await transactionDone(transaction);
+};
+
+export const deleteSession = async (sessionId: string): Promise<void> => {
+  await clearSession(sessionId);
+  const db = await openDatabase();
+  const transaction = db.transaction(SESSIONS_STORE, 'readwrite');
+  transaction.objectStore(SESSIONS_STORE).delete(sessionId);
+  await transactionDone(transaction);
+};
+
+export const deleteResults = async (ids: string[]): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([IMAGES_STORE, RESULTS_STORE], 'readwrite');
+  ids.forEach(id => {
+    transaction.objectStore(IMAGES_STORE).delete(id);
+    transaction.objectStore(RESULTS_STORE).delete(id);
+  });
+  await transactionDone(transaction);
+};
+
+const toStoredResult = (row: ProcessedImage, sessionId: string): StoredResult => {
+  const { originalFile, previewUrl, ...rest } = row;
+  return { ...rest, sessionId };
+};
+
+// Upserts result rows. Rows are written first, in call order, so a newer save of
+// the same row always wins; image blobs and thumbnails are added afterwards for
+// rows that do not have one stored yet. Thumbnails cannot be made inside a
+// transaction, so the image write checks again that the row is still there
+// (not deleted meanwhile) and that no other save stored its image first.
+export const saveResults = async (sessionId: string, rows: ProcessedImage[]): Promise<void> => {
+  if (rows.length === 0) return;
+  const db = await openDatabase();
+
+  const transaction = db.transaction([SESSIONS_STORE, IMAGES_STORE, RESULTS_STORE], 'readwrite');
+  const resultStore = transaction.objectStore(RESULTS_STORE);
+  const imageStore = transaction.objectStore(IMAGES_STORE);
+  const sessionStore = transaction.objectStore(SESSIONS_STORE);
+
+  rows.forEach(row => resultStore.put(toStoredResult(row, sessionId)));
+  const existing = await Promise.all(rows.map(row => requestToPromise(imageStore.getKey(row.id))));
+  const session = await requestToPromise(sessionStore.get(sessionId) as IDBRequest<Session | undefined>);
+  if (session) sessionStore.put({ ...session, updatedAt: Date.now() });
+  await transactionDone(transaction);
+
+  const missing = rows.filter((_, index) => existing[index] === undefined);
+  if (missing.length === 0) return;
+
+  const images: StoredImage[] = await Promise.all(missing.map(async row => ({
+    id: row.id,
+    sessionId,
+    file: row.originalFile,
+    thumbnail: await createThumbnail(row.originalFile)
+  })));
+
+  const imageTransaction = db.transaction([IMAGES_STORE, RESULTS_STORE], 'readwrite');
+  const storedImages = imageTransaction.objectStore(IMAGES_STORE);
+  const storedResults = imageTransaction.objectStore(RESULTS_STORE);
+  const wanted = await Promise.all(images.map(async image => {
+    const [imageKey, resultKey] = await Promise.all([
+      requestToPromise(storedImages.getKey(image.id)),
+      requestToPromise(storedResults.getKey(image.id))
+    ]);
+    return imageKey === undefined && resultKey !== undefined;
+  }));
+  images.filter((_, index) => wanted[index]).forEach(image => storedImages.put(image));
+  await transactionDone(imageTransaction);
+};
+
+// Rebuilds ProcessedImage rows with fresh object URLs. Rows still pending when the
+// page was closed are marked failed so they can be retried.
+export const loadSession = async (sessionId: string): Promise<ProcessedImage[]> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([IMAGES_STORE, RESULTS_STORE], 'readonly');
+  const results = await requestToPromise(
+    transaction.objectStore(RESULTS_STORE).index('sessionId').getAll(sessionId) as IDBRequest<StoredResult[]>
+  );
+  const images = await requestToPromise(
+    transaction.objectStore(IMAGES_STORE).index('sessionId').getAll(sessionId) as IDBRequest<StoredImage[]>
+  );
+  const imagesById = new Map(images.map(image => [image.id, image]));
+
+  return results
+    .filter(result => imagesById.has(result.id))
+    .map(({ sessionId: _sessionId, ...result }) => {
+      const image = imagesById.get(result.id)!;
+      const interrupted = result.status === ResultStatus.PENDING;
+      return {
+        ...result,
+        status: interrupted ? ResultStatus.FAILED : result.status,
+        error: interrupted ? "Interrupted before processing finished" : result.error,
+        originalFile: image.file,
+        previewUrl: URL.createObjectURL(image.file)
+      };
+    });
+};
+
+export const loadThumbnail = async (id: string): Promise<Blob | null> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(IMAGES_STORE, 'readonly');
+  const image = await requestToPromise(transaction.objectStore(IMAGES_STORE).get(id) as IDBRequest<StoredImage | undefined>);
+  return image?.thumbnail ?? null;
+};
@@ -0,0 +1,236 @@
+import { ProcessedImage, TimelineSettings, TimeZoneSetting } from "../types";
+import { getPhotoTimestamp } from "./photoTrack";
+import { distanceMeters } from "./referenceCheck";
+
+// Turns the stamped date and time into real instants and checks the sequence
+// for things that cannot have happened: travelling faster than any vehicle
+// between two photos, photos from the future, stamps that disagree with the
+// camera clock, and long breaks. Stamps print local time without a zone, so the
+// zone comes from the settings or from where the photo was taken.
+
+const SETTINGS_KEY = 'arundaya-geopix:timeline';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+// Stamps are to the minute, so two photos in the same minute are counted a minute apart
+const MIN_INTERVAL = MINUTE;
+// Cameras and phones drift; a few minutes ahead of this computer is not the future yet
+const FUTURE_SLACK = 5 * MINUTE;
+
+export const DEFAULT_TIMELINE_SETTINGS: TimelineSettings = {
+  timeZone: 'auto',
+  maxSpeedKmh: 150,
+  gapHours: 24,
+  clockToleranceMinutes: 10
+};
+
+const isNonNegative = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+const isTimeZoneSetting = (value: unknown): value is TimeZoneSetting =>
+  value === 'auto' || value === 'device' || (typeof value === 'number' && Number.isInteger(value) && Math.abs(value) <= 14 * 60);
+
+export const loadTimelineSettings = (): TimelineSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? 'null');
+    return {
+      timeZone: isTimeZoneSetting(stored?.timeZone) ? stored.timeZone : DEFAULT_TIMELINE_SETTINGS.timeZone,
+      maxSpeedKmh: isNonNegative(stored?.maxSpeedKmh) ? stored.maxSpeedKmh : DEFAULT_TIMELINE_SETTINGS.maxSpeedKmh,
+      gapHours: isNonNegative(stored?.gapHours) ? stored.gapHours : DEFAULT_TIMELINE_SETTINGS.gapHours,
+      clockToleranceMinutes: isNonNegative(stored?.clockToleranceMinutes)
+        ? stored.clockToleranceMinutes
+        : DEFAULT_TIMELINE_SETTINGS.clockToleranceMinutes
+    };
+  } catch {
+    return DEFAULT_TIMELINE_SETTINGS;
+  }
+};
+
+export const saveTimelineSettings = (settings: TimelineSettings) =>
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+
+// Minutes east of UTC. Indonesia is split into WIB (+7), WITA (+8) and WIT (+9)
+// along province borders, approximated here by longitude with the Kalimantan
+// provinces handled apart; near a border, pick the zone in the settings instead.
+// Elsewhere the nautical zone of the longitude is close enough to order photos.
+export const zoneOffsetAt = (latitude: number, longitude: number): number => {
+  const inIndonesia = latitude >= -11.5 && latitude <= 6.5 && longitude >= 94.5 && longitude <= 141.5;
+  if (!inIndonesia) return Math.round(longitude / 15) * 60;
+  if (longitude >= 126) return 9 * 60; // Maluku, Papua
+  const inKalimantan = latitude > -4.5 && longitude >= 108.5 && longitude < 119;
+  if (inKalimantan) {
+    // South, East and North Kalimantan are WITA; West and Central are WIB
+    const wita = (latitude < -1.3 && longitude >= 114.3) || longitude >= 115.8 || (latitude >= 0.3 && longitude >= 114);
+    return (wita ? 8 : 7) * 60;
+  }
+  return (longitude >= 114.4 ? 8 : 7) * 60; // Bali eastwards and Sulawesi are WITA
+};
+
+// The browser's offset at that wall-clock time (daylight saving included)
+const deviceOffsetAt = (wallClock: number): number => -new Date(wallClock).getTimezoneOffset();
+
+const offsetFor = (row: ProcessedImage, setting: TimeZoneSetting, wallClock: number): number => {
+  if (typeof setting === 'number') return setting;
+  if (setting === 'auto' && row.latitude !== null && row.longitude !== null) return zoneOffsetAt(row.latitude, row.longitude);
+  return deviceOffsetAt(wallClock);
+};
+
+export interface TimelineEntry {
+  row: ProcessedImage;
+  instant: number; // Milliseconds since the epoch
+  offset: number; // Minutes east of UTC the stamp was read in
+  hasTime: boolean; // Date-only stamps sit at midnight and are left out of the speed and gap checks
+}
+
+export type AnomalyKind = 'speed' | 'future' | 'clock' | 'gap';
+
+export interface TimelineAnomaly {
+  kind: AnomalyKind;
+  id: string; // The photo flagged
+  previousId?: string; // The photo before it, for speed and gaps
+  detail: string;
+}
+
+export interface Timeline {
+  entries: TimelineEntry[]; // In the order the photos were taken
+  anomalies: TimelineAnomaly[];
+  undatedCount: number;
+}
+
+export const ANOMALY_LABELS: Record<AnomalyKind, string> = {
+  speed: 'Impossible travel',
+  future: 'In the future',
+  clock: 'Camera clock differs',
+  gap: 'Gap'
+};
+
+export const formatOffset = (minutes: number): string => {
+  const sign = minutes < 0 ? '-' : '+';
+  const absolute = Math.abs(minutes);
+  return `UTC${sign}${String(Math.floor(absolute / 60)).padStart(2, '0')}:${String(absolute % 60).padStart(2, '0')}`;
+};
+
+// "2024-03-18 14:05" in the given offset
+export const formatInstant = (instant: number, offset: number): string =>
+  new Date(instant + offset * MINUTE).toISOString().slice(0, 16).replace('T', ' ');
+
+export const formatDuration = (ms: number): string => {
+  const minutes = Math.round(Math.abs(ms) / MINUTE);
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 48) return minutes % 60 === 0 ? `${hours} h` : `${hours} h ${minutes % 60} min`;
+  const days = Math.floor(hours / 24);
+  return hours % 24 === 0 ? `${days} d` : `${days} d ${hours % 24} h`;
+};
+
+const formatStamp = (date: string | undefined, time: string | undefined) => [date, time].filter(Boolean).join(' ');
+
+// Stamp and camera clock are both local wall-clock times, so they compare as written
+const checkCameraClock = (row: ProcessedImage, toleranceMinutes: number): TimelineAnomaly | null => {
+  if (!row.cameraDate || !row.date) return null;
+  const stamped = getPhotoTimestamp(row);
+  const camera = getPhotoTimestamp({ date: row.cameraDate, time: row.cameraTime ?? '' });
+  if (stamped === null || camera === null) return null;
+  const detail = `Stamp ${formatStamp(row.date, row.time)}, camera ${formatStamp(row.cameraDate, row.cameraTime)}`;
+  if (row.time && row.cameraTime) {
+    const difference = Math.abs(stamped - camera);
+    if (difference <= toleranceMinutes * MINUTE) return null;
+    return { kind: 'clock', id: row.id, detail: `${detail} (${formatDuration(difference)} apart)` };
+  }
+  return row.date === row.cameraDate ? null : { kind: 'clock', id: row.id, detail };
+};
+
+const isLocated = (row: ProcessedImage) => row.latitude !== null && row.longitude !== null && row.source !== 'estimated';
+
+export const buildTimeline = (rows: ProcessedImage[], settings: TimelineSettings, now = Date.now()): Timeline => {
+  const entries: TimelineEntry[] = [];
+  let undatedCount = 0;
+  rows.forEach(row => {
+    const wallClock = getPhotoTimestamp(row);
+    if (wallClock === null) {
+      undatedCount++;
+      return;
+    }
+    const offset = offsetFor(row, settings.timeZone, wallClock);
+    entries.push({ row, instant: wallClock - offset * MINUTE, offset, hasTime: /^\d{2}:\d{2}/.test(row.time ?? '') });
+  });
+  // Stable, so photos from the same minute keep the table's order
+  entries.sort((a, b) => a.instant - b.instant);
+
+  const anomalies: TimelineAnomaly[] = [];
+  entries.forEach(entry => {
+    if (entry.instant > now + FUTURE_SLACK) {
+      anomalies.push({ kind: 'future', id: entry.row.id, detail: `${formatDuration(entry.instant - now)} after now` });
+    }
+  });
+  rows.forEach(row => {
+    const anomaly = checkCameraClock(row, settings.clockToleranceMinutes);
+    if (anomaly) anomalies.push(anomaly);
+  });
+
+  const timed = entries.filter(entry => entry.hasTime);
+  for (let i = 1; i < timed.length; i++) {
+    const previous = timed[i - 1];
+    const current = timed[i];
+    const interval = current.instant - previous.instant;
+    if (settings.gapHours > 0 && interval > settings.gapHours * HOUR) {
+      anomalies.push({
+        kind: 'gap',
+        id: current.row.id,
+        previousId: previous.row.id,
+        detail: `${formatDuration(interval)} without photos since ${previous.row.fileName}`
+      });
+    }
+  }
+
+  // Speed only between photos with measured positions; estimated ones are guesses
+  const tracked = timed.filter(entry => isLocated(entry.row));
+  for (let i = 1; i < tracked.length; i++) {
+    const previous = tracked[i - 1];
+    const current = tracked[i];
+    const interval = Math.max(current.instant - previous.instant, MIN_INTERVAL);
+    const distance = distanceMeters(previous.row.latitude!, previous.row.longitude!, current.row.latitude!, current.row.longitude!);
+    const speedKmh = distance / 1000 / (interval / HOUR);
+    if (settings.maxSpeedKmh > 0 && speedKmh > settings.maxSpeedKmh) {
+      anomalies.push({
+        kind: 'speed',
+        id: current.row.id,
+        previousId: previous.row.id,
+        detail: `${(distance / 1000).toFixed(distance < 10000 ? 2 : 0)} km from ${previous.row.fileName} ${
+          current.instant === previous.instant ? 'in the same minute' : `in ${formatDuration(current.instant - previous.instant)}`
+        } (${Math.round(speedKmh)} km/h)`
+      });
+    }
+  }
+
+  return { entries, anomalies, undatedCount };
+};
+
+// Offset for the axis labels: the fixed zone, or the one most photos were read in
+export const axisOffset = (entries: TimelineEntry[], setting: TimeZoneSetting): number => {
+  if (typeof setting === 'number') return setting;
+  const counts = new Map<number, number>();
+  entries.forEach(entry => counts.set(entry.offset, (counts.get(entry.offset) ?? 0) + 1));
+  let best = deviceOffsetAt(Date.now());
+  let bestCount = 0;
+  counts.forEach((count, offset) => {
+    if (count > bestCount) {
+      best = offset;
+      bestCount = count;
+    }
+  });
+  return best;
+};
+
+// Fixed zones offered in the settings, in minutes; Indonesia's are named
+export const FIXED_ZONES: { offset: number; label: string }[] = [
+  ...Array.from({ length: 27 }, (_, index) => (index - 12) * 60),
+  5.5 * 60,
+  5.75 * 60,
+  9.5 * 60
+]
+  .sort((a, b) => a - b)
+  .map(offset => ({
+    offset,
+    label: formatOffset(offset) + ({ 420: ' (WIB)', 480: ' (WITA)', 540: ' (WIT)' }[offset] ?? '')
+  }));
@@ -0,0 +1,185 @@
+import { ExtraFieldDefinition, ExtraValue, ExtraValues, GeminiResponseItem, LocationSource } from "../types.js";
+
+export type ItemValidation =
+  | { valid: true; item: GeminiResponseItem }
+  | { valid: false; reason: string };
+
+export type BatchValidation =
+  | { valid: true; items: ItemValidation[] }
+  | { valid: false; reason: string };
+
+const MONTHS: Record<string, number> = {
+  jan: 1, january: 1, januari: 1,
+  feb: 2, february: 2, februari: 2,
+  mar: 3, march: 3, maret: 3,
+  apr: 4, april: 4,
+  may: 5, mei: 5,
+  jun: 6, june: 6, juni: 6,
+  jul: 7, july: 7, juli: 7,
+  aug: 8, august: 8, agu: 8, agt: 8, agustus: 8,
+  sep: 9, sept: 9, september: 9,
+  oct: 10, october: 10, okt: 10, oktober: 10,
+  nov: 11, november: 11, nop: 11, nopember: 11,
+  dec: 12, december: 12, des: 12, desember: 12
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const isRealDate = (year: number, month: number, day: number): boolean => {
+  if (year < 1900 || year > 2100 || month < 1 || month > 12 || day < 1) return false;
+  return day <= new Date(Date.UTC(year, month, 0)).getUTCDate();
+};
+
+const toIsoDate = (year: number, month: number, day: number): string =>
+  isRealDate(year, month, day) ? `${year}-${pad(month)}-${pad(day)}` : "";
+
+const expandYear = (year: number): number => (year < 100 ? 2000 + year : year);
+
+// Normalizes the date formats seen on stamps and in model output to YYYY-MM-DD.
+// Numeric day/month order is assumed to be day-first (as used in Indonesia).
+export const normalizeDate = (value: unknown): string => {
+  if (typeof value !== 'string') return "";
+  const text = value.trim().toLowerCase().replace(/,/g, ' ');
+  if (!text) return "";
+
+  // 2024-03-18, 2024/03/18, 2024:03:18, 2024.03.18
+  let match = text.match(/\b(\d{4})[-/.:](\d{1,2})[-/.:](\d{1,2})\b/);
+  if (match) return toIsoDate(+match[1], +match[2], +match[3]);
+
+  // 18/03/2024, 18-03-24, 18.03.2024
+  match = text.match(/\b(\d{1,2})[-/.](\d{1,2})[-/.](\d{2,4})\b/);
+  if (match) {
+    const first = +match[1];
+    const second = +match[2];
+    const year = expandYear(+match[3]);
+    // Fall back to month-first when day-first cannot be a date (e.g. 03/18/2024)
+    return isRealDate(year, second, first) ? toIsoDate(year, second, first) : toIsoDate(year, first, second);
+  }
+
+  // 18 Mar 2024, 18 Maret 2024, 18-Mar-2024
+  match = text.match(/\b(\d{1,2})[\s-]+([a-z]+)\.?[\s-]+(\d{2,4})\b/);
+  if (match && MONTHS[match[2]]) return toIsoDate(expandYear(+match[3]), MONTHS[match[2]], +match[1]);
+
+  // Mar 18 2024, March 18, 2024
+  match = text.match(/\b([a-z]+)\.?\s+(\d{1,2})\s+(\d{4})\b/);
+  if (match && MONTHS[match[1]]) return toIsoDate(+match[3], MONTHS[match[1]], +match[2]);
+
+  return "";
+};
+
+// Normalizes 24h, 12h (AM/PM) and dotted times ("14.05") to HH:mm
+export const normalizeTime = (value: unknown): string => {
+  if (typeof value !== 'string') return "";
+  const match = value.trim().toLowerCase().match(/\b(\d{1,2})[:.](\d{2})(?:[:.](\d{2}))?\s*(am|pm|a\.m\.|p\.m\.)?/);
+  if (!match) return "";
+
+  let hours = +match[1];
+  const minutes = +match[2];
+  const meridiem = match[4]?.replace(/\./g, '');
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return "";
+    hours = (hours % 12) + (meridiem === 'pm' ? 12 : 0);
+  }
+  if (hours > 23 || minutes > 59) return "";
+  return `${pad(hours)}:${pad(minutes)}`;
+};
+
+// Below this, a model-read location is shown as low confidence
+export const LOW_CONFIDENCE_THRESHOLD = 0.5;
+
+// Accepts 0..1 or a 0..100 percentage; anything else is unknown
+const toConfidence = (value: unknown): number | null => {
+  const number = typeof value === 'string' ? parseFloat(value) : value;
+  if (typeof number !== 'number' || !Number.isFinite(number) || number < 0) return null;
+  if (number <= 1) return number;
+  return number <= 100 ? number / 100 : null;
+};
+
+export const isLowConfidence = (source: LocationSource | null, confidence: number | null): boolean =>
+  source === null || source === 'estimated' || (confidence !== null && confidence < LOW_CONFIDENCE_THRESHOLD);
+
+const toCoordinate = (value: unknown): number | null => {
+  const number = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : null;
+};
+
+export const isValidLatitude = (value: number | null): value is number =>
+  value !== null && Number.isFinite(value) && Math.abs(value) <= 90;
+
+export const isValidLongitude = (value: number | null): value is number =>
+  value !== null && Number.isFinite(value) && Math.abs(value) <= 180;
+
+const toExtraValue = (value: unknown, field: ExtraFieldDefinition): ExtraValue => {
+  if (value === null || value === undefined) return null;
+  switch (field.type) {
+    case 'number': {
+      // Stamps print units ("812 m", "45°"); keep the number
+      const number = typeof value === 'number' ? value : parseFloat(String(value).replace(',', '.'));
+      return Number.isFinite(number) ? number : null;
+    }
+    case 'boolean':
+      if (typeof value === 'boolean') return value;
+      if (/^(true|yes|ya|y|1)$/i.test(String(value).trim())) return true;
+      if (/^(false|no|tidak|n|0)$/i.test(String(value).trim())) return false;
+      return null;
+    default: {
+      const text = String(value).trim();
+      return text === '' ? null : text;
+    }
+  }
+};
+
+// Reads the template's fields from the model's "extra" object; unknown keys are
+// dropped and values that do not fit their type become null
+export const normalizeExtraValues = (raw: unknown, fields: ExtraFieldDefinition[]): ExtraValues => {
+  const source = raw && typeof raw === 'object' ? (raw as Record<string, unknown>) : {};
+  return Object.fromEntries(fields.map(field => [field.name, toExtraValue(source[field.name], field)]));
+};
+
+// Checks one model item. Coordinates are only kept when the model says it found
+// them; anything it did not claim to find is dropped rather than trusted.
+export const validateResponseItem = (raw: unknown, fields: ExtraFieldDefinition[] = []): ItemValidation => {
+  if (!raw || typeof raw !== 'object') {
+    return { valid: false, reason: "Model returned a malformed result" };
+  }
+  const candidate = raw as Record<string, unknown>;
+  const foundCoordinates = candidate.foundCoordinates === true;
+
+  let latitude: number | null = null;
+  let longitude: number | null = null;
+
+  if (foundCoordinates) {
+    latitude = toCoordinate(candidate.latitude);
+    longitude = toCoordinate(candidate.longitude);
+    if (!isValidLatitude(latitude) || !isValidLongitude(longitude)) {
+      return { valid: false, reason: `Coordinates out of range (${String(candidate.latitude)}, ${String(candidate.longitude)})` };
+    }
+    // 0,0 is what a model emits when it has nothing, not a real finding
+    if (latitude === 0 && longitude === 0) {
+      return { valid: false, reason: "Model reported coordinates of exactly 0, 0" };
+    }
+  }
+
+  return {
+    valid: true,
+    item: {
+      address: typeof candidate.address === 'string' ? candidate.address.trim() : "",
+      latitude,
+      longitude,
+      foundCoordinates,
+      coordinateSource: foundCoordinates ? (candidate.coordinateSource === 'estimated' ? 'estimated' : 'watermark') : 'none',
+      confidence: foundCoordinates ? toConfidence(candidate.confidence) : null,
+      date: normalizeDate(candidate.date),
+      time: normalizeTime(candidate.time),
+      ...(fields.length > 0 ? { extra: normalizeExtraValues(candidate.extra, fields) } : {})
+    }
+  };
+};
+
+// A length mismatch means no item can be trusted to belong to its file
+export const validateBatchResponse = (items: unknown[], expectedCount: number, fields: ExtraFieldDefinition[] = []): BatchValidation => {
+  if (items.length !== expectedCount) {
+    return { valid: false, reason: `Expected ${expectedCount} results but the model returned ${items.length}` };
+  }
+  return { valid: true, items: items.map(item => validateResponseItem(item, fields)) };
+};
@@ -0,0 +1,178 @@
+// Minimal ZIP writer (stored entries, no compression). Enough for KMZ, XLSX and
+// bundles of JPEGs, which are already compressed. The reader at the bottom
+// unpacks uploaded archives.
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array | string;
+  lastModified?: number;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export const crc32 = (data: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// MS-DOS date/time as stored in ZIP headers (local time, 2-second resolution)
+const toDosDateTime = (timestamp: number): { date: number; time: number } => {
+  const d = new Date(timestamp);
+  const year = Math.max(1980, d.getFullYear());
+  return {
+    date: ((year - 1980) << 9) | ((d.getMonth() + 1) << 5) | d.getDate(),
+    time: (d.getHours() << 11) | (d.getMinutes() << 5) | Math.floor(d.getSeconds() / 2)
+  };
+};
+
+export const createZip = (entries: ZipEntry[]): Blob => {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const centralDirectory: Uint8Array[] = [];
+  let offset = 0;
+
+  entries.forEach(entry => {
+    const name = encoder.encode(entry.name);
+    const data = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data;
+    const crc = crc32(data);
+    const { date, time } = toDosDateTime(entry.lastModified ?? Date.now());
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true); // version needed
+    local.setUint16(6, 0x0800, true); // UTF-8 file names
+    local.setUint16(8, 0, true); // stored
+    local.setUint16(10, time, true);
+    local.setUint16(12, date, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true);
+    central.setUint16(4, 20, true); // version made by
+    central.setUint16(6, 20, true);
+    central.setUint16(8, 0x0800, true);
+    central.setUint16(10, 0, true);
+    central.setUint16(12, time, true);
+    central.setUint16(14, date, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, data.length, true);
+    central.setUint32(24, data.length, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true);
+
+    chunks.push(new Uint8Array(local.buffer), name, data);
+    centralDirectory.push(new Uint8Array(central.buffer), name);
+    offset += 30 + name.length + data.length;
+  });
+
+  const centralSize = centralDirectory.reduce((sum, chunk) => sum + chunk.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  const parts = [...chunks, ...centralDirectory, new Uint8Array(end.buffer)] as BlobPart[];
+  return new Blob(parts, { type: 'application/zip' });
+};
+
+// --- Reading ---
+
+export interface ZipFileEntry {
+  name: string; // Path inside the archive, "/" separated
+  lastModified: number;
+  data: Blob;
+}
+
+const fromDosDateTime = (date: number, time: number): number =>
+  new Date(
+    ((date >> 9) & 0x7f) + 1980,
+    ((date >> 5) & 0x0f) - 1,
+    date & 0x1f,
+    (time >> 11) & 0x1f,
+    (time >> 5) & 0x3f,
+    (time & 0x1f) * 2
+  ).getTime();
+
+const inflateRaw = async (data: Blob): Promise<Blob> => {
+  const stream = data.stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).blob();
+};
+
+// Lists the files in a ZIP (stored or deflated entries; no ZIP64 or encryption).
+// Entries are inflated lazily by the browser's DecompressionStream.
+export const readZip = async (archive: Blob): Promise<ZipFileEntry[]> => {
+  // The end-of-central-directory record sits in the last 22 bytes plus up to 64 KB of comment
+  const tailStart = Math.max(0, archive.size - 22 - 0xffff);
+  const tail = new DataView(await archive.slice(tailStart).arrayBuffer());
+  let eocd = -1;
+  for (let i = tail.byteLength - 22; i >= 0; i--) {
+    if (tail.getUint32(i, true) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) throw new Error("Not a ZIP archive or the archive is damaged");
+
+  const entryCount = tail.getUint16(eocd + 10, true);
+  const centralSize = tail.getUint32(eocd + 12, true);
+  const centralOffset = tail.getUint32(eocd + 16, true);
+  if (centralOffset === 0xffffffff || entryCount === 0xffff) {
+    throw new Error("ZIP64 archives are not supported");
+  }
+
+  const central = new DataView(await archive.slice(centralOffset, centralOffset + centralSize).arrayBuffer());
+  const decoder = new TextDecoder();
+  const entries: ZipFileEntry[] = [];
+  let offset = 0;
+
+  for (let index = 0; index < entryCount; index++) {
+    if (central.getUint32(offset, true) !== 0x02014b50) throw new Error("ZIP central directory is damaged");
+    const flags = central.getUint16(offset + 8, true);
+    const method = central.getUint16(offset + 10, true);
+    const time = central.getUint16(offset + 12, true);
+    const date = central.getUint16(offset + 14, true);
+    const compressedSize = central.getUint32(offset + 20, true);
+    const nameLength = central.getUint16(offset + 28, true);
+    const extraLength = central.getUint16(offset + 30, true);
+    const commentLength = central.getUint16(offset + 32, true);
+    const localOffset = central.getUint32(offset + 42, true);
+    const name = decoder.decode(new Uint8Array(central.buffer, central.byteOffset + offset + 46, nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue; // Directory
+    if (flags & 0x1) throw new Error(`"${name}" is encrypted`);
+    if (method !== 0 && method !== 8) throw new Error(`"${name}" uses an unsupported compression method`);
+
+    // The local header's own name and extra lengths can differ from the central copy
+    const local = new DataView(await archive.slice(localOffset, localOffset + 30).arrayBuffer());
+    const dataStart = localOffset + 30 + local.getUint16(26, true) + local.getUint16(28, true);
+    const raw = archive.slice(dataStart, dataStart + compressedSize);
+
+    entries.push({
+      name,
+      lastModified: fromDosDateTime(date, time),
+      data: method === 8 ? await inflateRaw(raw) : raw
+    });
+  }
+
+  return entries;
+};
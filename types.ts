@@ -1,3 +1,6 @@
+// Where a result's coordinates came from
+export type LocationSource = 'exif' | 'watermark' | 'estimated' | 'manual';
+
 export interface ExtractedLocation {
   fileName: string; // Used to map back to the original file
   address: string;
@@ -5,17 +8,178 @@ export interface ExtractedLocation {
   longitude: number | null;
   date?: string;
   time?: string;
+  // The camera's own clock (EXIF/XMP), kept beside the stamped date and time to compare them
+  cameraDate?: string;
+  cameraTime?: string;
   error?: string;
+  // null coordinates, source and confidence all mean "not found"; 0 is a real value
+  source: LocationSource | null;
+  confidence: number | null; // 0..1
+  foundCoordinates?: boolean; // As reported by the model, undefined for EXIF results
+  manuallyVerified?: boolean;
+  originalValues?: OriginalValues; // Extracted values from before the first manual edit
+  // Reverse-geocoded from the coordinates; undefined until looked up, null when nothing matched
+  geocoded?: StructuredAddress | null;
+  addressMismatch?: boolean; // The free-text address does not mention the geocoded area
+  extra?: ExtraValues; // Fields of the extraction template in use, keyed by field name
+}
+
+// User-defined fields read from the photo alongside the location (altitude,
+// site code, surveyor...). Defined per extraction template.
+export type ExtraFieldType = 'text' | 'number' | 'boolean';
+
+export type ExtraValue = string | number | boolean | null;
+
+export type ExtraValues = Record<string, ExtraValue>;
+
+export interface ExtraFieldDefinition {
+  name: string; // JSON key in the model response and column header
+  type: ExtraFieldType;
+  description: string; // Tells the model what to look for
+}
+
+export interface ExtractionTemplate {
+  id: string;
+  name: string;
+  fields: ExtraFieldDefinition[];
+}
+
+// Administrative breakdown of a location. Indonesian terms in comments.
+export interface StructuredAddress {
+  street: string | null;
+  village: string | null; // Desa / kelurahan
+  district: string | null; // Kecamatan
+  city: string | null; // Kabupaten / kota
+  province: string | null;
+  postalCode: string | null;
+  country: string | null;
+}
+
+// Fields a user can correct by hand
+export type LocationEdit = Partial<Pick<ExtractedLocation, 'address' | 'latitude' | 'longitude' | 'date' | 'time'>>;
+
+export interface OriginalValues {
+  address: string;
+  latitude: number | null;
+  longitude: number | null;
+  date: string;
+  time: string;
+  source: LocationSource | null;
+  confidence: number | null;
+}
+
+// Per-row extraction state
+export enum ResultStatus {
+  PENDING = 'PENDING',
+  OK = 'OK',
+  FAILED = 'FAILED',
+  LOW_CONFIDENCE = 'LOW_CONFIDENCE'
+}
+
+// Planned survey points and project boundaries, imported to check where photos
+// were taken against where they should have been
+export interface PlannedPoint {
+  id: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+}
+
+export interface ReferencePolygon {
+  name: string;
+  // [longitude, latitude] rings of one feature, outer rings and holes alike;
+  // a point is inside when it falls within an odd number of them
+  rings: [number, number][][];
+}
+
+export interface ReferenceLayer {
+  id: string;
+  name: string; // File name it was imported from
+  points: PlannedPoint[];
+  polygons: ReferencePolygon[];
+}
+
+// How far a photo may be off and still count, in metres
+export interface ReferenceTolerance {
+  point: number; // Distance to a planned point that counts as visiting it
+  boundary: number; // Distance outside a boundary still accepted as inside (GPS error)
+}
+
+// How stamped times, which carry no zone, are turned into real instants:
+// the zone at the photo's coordinates, the browser's zone, or a fixed UTC
+// offset in minutes
+export type TimeZoneSetting = 'auto' | 'device' | number;
+
+export interface TimelineSettings {
+  timeZone: TimeZoneSetting;
+  maxSpeedKmh: number; // Faster travel between consecutive photos is flagged
+  gapHours: number; // Longer breaks between consecutive photos are flagged
+  clockToleranceMinutes: number; // Allowed difference between the stamp and the camera clock
+}
+
+// A located photo compared with the reference layers. null where the layers
+// have no points (or no polygons) to compare with.
+export interface ReferenceCheck {
+  nearestPoint: string | null;
+  pointDistance: number | null; // Metres
+  atPoint: boolean | null;
+  boundary: string | null; // The boundary containing the photo, or the nearest one
+  boundaryDistance: number | null; // Metres outside it, 0 when inside
+  insideBoundary: boolean | null; // Inside, or outside by no more than the tolerance
+}
+
+// What a file says about its own origin, noted when it is processed
+export interface PhotoEvidence {
+  hasMetadata: boolean; // Any EXIF or XMP at all
+  make: string; // Camera maker and model, '' when not recorded
+  model: string;
+  software: string; // Program that last saved the file
+  // Embedded GPS and, for photos that have it, the stamp read locally to compare with
+  gpsLatitude: number | null;
+  gpsLongitude: number | null;
+  stampLatitude: number | null;
+  stampLongitude: number | null;
+  width: number | null; // Pixels, from the file header
+  height: number | null;
+  mimeType: string;
+}
+
+export type RiskSignalKind = 'stripped' | 'edited' | 'gpsMismatch' | 'reused' | 'screenshot' | 'noCamera';
+
+export interface RiskSignal {
+  kind: RiskSignalKind;
+  detail: string;
+}
+
+export type RiskLevel = 'none' | 'low' | 'medium' | 'high';
+
+// Signs that a photo may not be genuine field evidence
+export interface AuthenticityCheck {
+  level: RiskLevel;
+  signals: RiskSignal[];
 }
 
 export interface ProcessedImage extends ExtractedLocation {
+  id: string;
+  // Path within the dropped folder or ZIP, e.g. "Site A/Day 2/IMG_0012.jpg"; unique
+  // within a session. Missing on rows saved before folders were supported.
+  relativePath?: string;
+  contentHash?: string; // SHA-256 of the file as added; identical files reuse each other's result
+  perceptualHash?: string; // dHash, to find the same picture re-saved under other coordinates
+  evidence?: PhotoEvidence; // Missing on rows processed before the authenticity checks
+  status: ResultStatus;
   originalFile: File;
   previewUrl: string;
+  // Worked out from the loaded reference layers whenever they or the row change; not stored
+  reference?: ReferenceCheck;
+  // Worked out from the evidence and the other rows whenever they change; not stored
+  authenticity?: AuthenticityCheck;
 }
 
 export enum ProcessingStatus {
   IDLE = 'IDLE',
   PROCESSING = 'PROCESSING',
+  PAUSED = 'PAUSED',
   COMPLETED = 'COMPLETED',
   ERROR = 'ERROR'
 }
@@ -23,9 +187,12 @@ export enum ProcessingStatus {
 // Schema for Gemini JSON response
 export interface GeminiResponseItem {
   address: string;
-  latitude: number;
-  longitude: number;
+  latitude: number | null;
+  longitude: number | null;
   date: string;
   time: string;
   foundCoordinates: boolean;
+  coordinateSource?: 'watermark' | 'estimated' | 'none';
+  confidence?: number | null;
+  extra?: ExtraValues;
 }
\ No newline at end of file
@@ -1,7 +1,13 @@
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
-export default defineConfig(({ mode }) => {
+export default defineConfig(({ mode, isSsrBuild }) => {
+  // The standalone server (npm run build:server) reads its environment at run
+  // time, so none of the browser defines below may be baked into it
+  if (isSsrBuild) {
+    return { build: { outDir: 'dist-server', emptyOutDir: true } };
+  }
+
   // Load env file based on `mode` in the current working directory.
   // The third argument '' loads all env vars regardless of prefix.
   const env = loadEnv(mode, (process as any).cwd(), '');
@@ -9,8 +15,34 @@ export default defineConfig(({ mode }) => {
   return {
     plugins: [react()],
     define: {
-      // Prioritize the key from env files, fallback to process.env for Vercel system vars
-      'process.env.API_KEY': JSON.stringify(env.API_KEY || process.env.API_KEY),
+      // Env files first, then process.env for Vercel system vars. Never an API key:
+      // whatever is defined here ends up in the bundle every visitor downloads
+      'process.env.GEMINI_MODEL': JSON.stringify(env.GEMINI_MODEL || process.env.GEMINI_MODEL),
+      // Builds for a team server start in proxy mode, e.g. /api/extract
+      'process.env.GEMINI_PROXY_URL': JSON.stringify(env.GEMINI_PROXY_URL || process.env.GEMINI_PROXY_URL),
+      // Extraction backend: gemini (default), openai-compatible or mock
+      'process.env.EXTRACTION_PROVIDER': JSON.stringify(env.EXTRACTION_PROVIDER || process.env.EXTRACTION_PROVIDER),
+      'process.env.OPENAI_BASE_URL': JSON.stringify(env.OPENAI_BASE_URL || process.env.OPENAI_BASE_URL),
+      'process.env.OPENAI_MODEL': JSON.stringify(env.OPENAI_MODEL || process.env.OPENAI_MODEL),
+      // Set to "off" to skip local OCR of GPS-camera stamps
+      'process.env.LOCAL_OCR': JSON.stringify(env.LOCAL_OCR || process.env.LOCAL_OCR),
+      // Reverse geocoding: boundaries (default), nominatim or none
+      'process.env.GEOCODER': JSON.stringify(env.GEOCODER || process.env.GEOCODER),
+      'process.env.ADMIN_BOUNDARIES_URL': JSON.stringify(env.ADMIN_BOUNDARIES_URL || process.env.ADMIN_BOUNDARIES_URL),
+      'process.env.NOMINATIM_URL': JSON.stringify(env.NOMINATIM_URL || process.env.NOMINATIM_URL),
+      // Image preprocessing and byte-budget batching
+      'process.env.MAX_IMAGE_EDGE': JSON.stringify(env.MAX_IMAGE_EDGE || process.env.MAX_IMAGE_EDGE),
+      'process.env.IMAGE_FORMAT': JSON.stringify(env.IMAGE_FORMAT || process.env.IMAGE_FORMAT),
+      'process.env.IMAGE_QUALITY': JSON.stringify(env.IMAGE_QUALITY || process.env.IMAGE_QUALITY),
+      'process.env.STAMP_CROP': JSON.stringify(env.STAMP_CROP || process.env.STAMP_CROP),
+      'process.env.BATCH_BYTE_BUDGET_MB': JSON.stringify(env.BATCH_BYTE_BUDGET_MB || process.env.BATCH_BYTE_BUDGET_MB),
+      'process.env.MAX_IMAGES_PER_BATCH': JSON.stringify(env.MAX_IMAGES_PER_BATCH || process.env.MAX_IMAGES_PER_BATCH),
+      // Duplicate detection in the queue
+      'process.env.NEAR_DUPLICATE_DISTANCE': JSON.stringify(env.NEAR_DUPLICATE_DISTANCE || process.env.NEAR_DUPLICATE_DISTANCE),
+      // Batch scheduler limits
+      'process.env.MAX_CONCURRENT_REQUESTS': JSON.stringify(env.MAX_CONCURRENT_REQUESTS || process.env.MAX_CONCURRENT_REQUESTS),
+      'process.env.REQUESTS_PER_MINUTE': JSON.stringify(env.REQUESTS_PER_MINUTE || process.env.REQUESTS_PER_MINUTE),
+      'process.env.TOKENS_PER_MINUTE': JSON.stringify(env.TOKENS_PER_MINUTE || process.env.TOKENS_PER_MINUTE),
       // Polyfill process.env for libs that might expect it, but empty to avoid leaking secrets
       'process.env': {} 
     }